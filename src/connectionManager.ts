@@ -1,11 +1,14 @@
 import * as vscode from 'vscode';
 import { ConnectionConfig, DatabaseType, IDatabaseProvider, ConnectionState } from './types';
 import { Logger } from './utils/logger';
+import { getConnectionTimeout } from './utils/timeouts';
 import { MySQLProvider } from './databaseProviders/mysqlProvider';
 import { PostgreSQLProvider } from './databaseProviders/postgresProvider';
 import { MSSQLProvider } from './databaseProviders/mssqlProvider';
 import { MongoDBProvider } from './databaseProviders/mongoProvider';
 import { MariaDBProvider } from './databaseProviders/mariadbProvider';
+import { SQLiteProvider } from './databaseProviders/sqliteProvider';
+import { SSHTunnel } from './utils/sshTunnel';
 
 /**
  * Manages database connections and credentials
@@ -14,6 +17,7 @@ export class ConnectionManager {
     private static instance: ConnectionManager;
     private connections: Map<string, ConnectionConfig> = new Map();
     private providers: Map<string, IDatabaseProvider> = new Map();
+    private tunnels: Map<string, SSHTunnel> = new Map();
     private secretStorage: vscode.SecretStorage;
     private context: vscode.ExtensionContext;
     private onDidChangeConnectionsEmitter = new vscode.EventEmitter<void>();
@@ -39,7 +43,7 @@ export class ConnectionManager {
     /**
      * Add a new connection
      */
-    public async addConnection(config: ConnectionConfig, password: string): Promise<void> {
+    public async addConnection(config: ConnectionConfig, password: string, sshSecret?: string): Promise<void> {
         try {
             // Generate unique ID if not provided
             if (!config.id) {
@@ -48,6 +52,9 @@ export class ConnectionManager {
 
             // Store password in VS Code secret storage
             await this.secretStorage.store(this.getPasswordKey(config.id), password);
+            if (sshSecret) {
+                await this.secretStorage.store(this.getSshSecretKey(config.id), sshSecret);
+            }
 
             // Store connection config
             this.connections.set(config.id, config);
@@ -71,8 +78,9 @@ export class ConnectionManager {
                 await this.disconnect(connectionId);
             }
 
-            // Remove password from secret storage
+            // Remove password and SSH secret from secret storage
             await this.secretStorage.delete(this.getPasswordKey(connectionId));
+            await this.secretStorage.delete(this.getSshSecretKey(connectionId));
 
             // Remove connection config
             this.connections.delete(connectionId);
@@ -89,13 +97,22 @@ export class ConnectionManager {
     /**
      * Update a connection
      */
-    public async updateConnection(config: ConnectionConfig, password?: string): Promise<void> {
+    public async updateConnection(config: ConnectionConfig, password?: string, sshSecret?: string): Promise<void> {
         try {
             // Update password if provided
             if (password) {
                 await this.secretStorage.store(this.getPasswordKey(config.id), password);
             }
 
+            // Update SSH secret if provided (empty string clears it)
+            if (sshSecret !== undefined) {
+                if (sshSecret) {
+                    await this.secretStorage.store(this.getSshSecretKey(config.id), sshSecret);
+                } else {
+                    await this.secretStorage.delete(this.getSshSecretKey(config.id));
+                }
+            }
+
             // Update connection config
             this.connections.set(config.id, config);
             await this.saveConnections();
@@ -129,6 +146,13 @@ export class ConnectionManager {
         return await this.secretStorage.get(this.getPasswordKey(connectionId));
     }
 
+    /**
+     * Get the SSH key passphrase (or SSH password) for a connection
+     */
+    public async getSshSecret(connectionId: string): Promise<string | undefined> {
+        return await this.secretStorage.get(this.getSshSecretKey(connectionId));
+    }
+
     /**
      * Connect to a database
      */
@@ -149,8 +173,14 @@ export class ConnectionManager {
                 this.providers.set(connectionId, provider);
             }
 
-            // Connect
-            await provider.connect(config, password);
+            // Open SSH tunnel first if configured, then connect through it
+            const effectiveConfig = await this.openTunnel(config);
+            try {
+                await provider.connect(effectiveConfig, password);
+            } catch (error) {
+                await this.closeTunnel(connectionId);
+                throw error;
+            }
             Logger.info(`Connected to: ${config.name}`);
             this.onDidChangeConnectionsEmitter.fire();
         } catch (error) {
@@ -166,8 +196,12 @@ export class ConnectionManager {
         try {
             const provider = this.providers.get(connectionId);
             if (provider) {
-                await provider.disconnect();
-                this.providers.delete(connectionId);
+                try {
+                    await provider.disconnect();
+                } finally {
+                    this.providers.delete(connectionId);
+                    await this.closeTunnel(connectionId);
+                }
                 Logger.info(`Disconnected from: ${connectionId}`);
                 this.onDidChangeConnectionsEmitter.fire();
             }
@@ -180,14 +214,25 @@ export class ConnectionManager {
     /**
      * Test a connection
      */
-    public async testConnection(config: ConnectionConfig, password: string): Promise<boolean> {
+    public async testConnection(config: ConnectionConfig, password: string, sshSecret?: string): Promise<boolean> {
+        let tunnel: SSHTunnel | undefined;
         try {
+            let effectiveConfig = config;
+            if (config.sshTunnel?.enabled) {
+                const secret = sshSecret ?? (config.id ? await this.getSshSecret(config.id) : undefined);
+                tunnel = new SSHTunnel(config.sshTunnel, config.host, config.port, getConnectionTimeout(config));
+                const localPort = await tunnel.open(secret);
+                effectiveConfig = { ...config, host: '127.0.0.1', port: localPort };
+            }
+
             const provider = this.createProvider(config.type);
-            const result = await provider.testConnection(config, password);
+            const result = await provider.testConnection(effectiveConfig, password);
             return result;
         } catch (error) {
             Logger.error('Connection test failed', error as Error);
             return false;
+        } finally {
+            await tunnel?.close();
         }
     }
 
@@ -216,6 +261,35 @@ export class ConnectionManager {
         await Promise.all(disconnectPromises);
     }
 
+    /**
+     * Open the SSH tunnel for a connection (if enabled) and return the config
+     * the provider should use, pointing at the local end of the forward
+     */
+    private async openTunnel(config: ConnectionConfig): Promise<ConnectionConfig> {
+        if (!config.sshTunnel?.enabled) {
+            return config;
+        }
+
+        await this.closeTunnel(config.id);
+
+        const tunnel = new SSHTunnel(config.sshTunnel, config.host, config.port, getConnectionTimeout(config));
+        const localPort = await tunnel.open(await this.getSshSecret(config.id));
+        this.tunnels.set(config.id, tunnel);
+
+        return { ...config, host: '127.0.0.1', port: localPort };
+    }
+
+    /**
+     * Close the SSH tunnel of a connection if one is open
+     */
+    private async closeTunnel(connectionId: string): Promise<void> {
+        const tunnel = this.tunnels.get(connectionId);
+        if (tunnel) {
+            this.tunnels.delete(connectionId);
+            await tunnel.close();
+        }
+    }
+
     /**
      * Create a database provider based on type
      */
@@ -231,6 +305,8 @@ export class ConnectionManager {
                 return new MongoDBProvider();
             case DatabaseType.MariaDB:
                 return new MariaDBProvider();
+            case DatabaseType.SQLite:
+                return new SQLiteProvider();
             default:
                 throw new Error(`Unsupported database type: ${type}`);
         }
@@ -276,4 +352,11 @@ export class ConnectionManager {
     private getPasswordKey(connectionId: string): string {
         return `dbConnector.password.${connectionId}`;
     }
+
+    /**
+     * Get the secret storage key for a connection's SSH passphrase/password
+     */
+    private getSshSecretKey(connectionId: string): string {
+        return `dbConnector.sshSecret.${connectionId}`;
+    }
 }
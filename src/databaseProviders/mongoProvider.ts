@@ -1,4 +1,4 @@
-import { MongoClient, Db } from 'mongodb';
+import { MongoClient, MongoClientOptions, Db, AbstractCursor, BSON } from 'mongodb';
 import {
     IMongoDBProvider,
     ConnectionConfig,
@@ -7,18 +7,34 @@ import {
     DatabaseInfo,
     TableInfo,
     ColumnInfo,
+    ForeignKeyInfo,
     CollectionInfo,
     FieldInfo,
-    QueryResult
+    QueryResult,
+    QueryCursor,
+    TransactionResult,
+    SqlStatement,
+    SchemaObjectType,
+    SchemaObjectInfo,
+    RoutineParameter
 } from '../types';
 import { Logger } from '../utils/logger';
+import { ArrayCursor } from '../utils/cursors';
+import { withMongoCredentials } from '../utils/mongoConnectionString';
+import { parseMongoQuery, runMongoQuery } from './mongoQuery';
+import { getConnectionTimeout, getQueryTimeout, QueryTimeoutError, withQueryTimeout } from '../utils/timeouts';
 
 /**
  * MongoDB database provider
  */
 export class MongoDBProvider implements IMongoDBProvider {
     private client: MongoClient | null = null;
+    private config: ConnectionConfig | null = null;
     private state: ConnectionState = ConnectionState.Disconnected;
+    // Unique appName so our in-flight operations can be found in $currentOp
+    private readonly appName = `dbConnector-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+    private running = false;
+    private cancelRequested = false;
 
     /**
      * Connect to MongoDB database
@@ -26,11 +42,12 @@ export class MongoDBProvider implements IMongoDBProvider {
     public async connect(config: ConnectionConfig, password: string): Promise<void> {
         try {
             this.state = ConnectionState.Connecting;
+            this.config = config;
 
             const uri = this.buildConnectionUri(config, password);
             this.client = new MongoClient(uri, {
-                serverSelectionTimeoutMS: 30000,
-                connectTimeoutMS: 30000,
+                ...this.buildClientOptions(config),
+                appName: this.appName,
                 ...config.options
             });
 
@@ -39,7 +56,7 @@ export class MongoDBProvider implements IMongoDBProvider {
             await this.client.db('admin').command({ ping: 1 });
 
             this.state = ConnectionState.Connected;
-            Logger.info(`Connected to MongoDB: ${config.host}:${config.port}`);
+            Logger.info(`Connected to MongoDB: ${config.mongo?.connectionString || config.mongo?.srv ? config.host : `${config.host}:${config.port}`}`);
         } catch (error) {
             this.state = ConnectionState.Error;
             Logger.error('MongoDB connection failed', error as Error);
@@ -71,10 +88,7 @@ export class MongoDBProvider implements IMongoDBProvider {
         let testClient: MongoClient | null = null;
         try {
             const uri = this.buildConnectionUri(config, password);
-            testClient = new MongoClient(uri, {
-                serverSelectionTimeoutMS: 10000,
-                connectTimeoutMS: 10000
-            });
+            testClient = new MongoClient(uri, this.buildClientOptions(config));
 
             await testClient.connect();
             await testClient.db('admin').command({ ping: 1 });
@@ -200,6 +214,13 @@ export class MongoDBProvider implements IMongoDBProvider {
         }
     }
 
+    /**
+     * Not applicable for MongoDB (returns empty array)
+     */
+    public async getSchemas(_database: string): Promise<string[]> {
+        return [];
+    }
+
     /**
      * Not applicable for MongoDB (returns empty array)
      */
@@ -214,6 +235,75 @@ export class MongoDBProvider implements IMongoDBProvider {
         return [];
     }
 
+    /**
+     * Not applicable for MongoDB (returns empty array)
+     */
+    public async getForeignKeys(_database: string, _collection: string): Promise<ForeignKeyInfo[]> {
+        return [];
+    }
+
+    /**
+     * Get the commands that recreate a collection: createCollection with its options
+     * (validator, capped size, collation, time series, ...) and one createIndex per index
+     */
+    public async getCreateScript(database: string, collection: string): Promise<string> {
+        this.ensureConnected();
+
+        try {
+            const db = this.client!.db(database);
+            const [info] = await db.listCollections({ name: collection }).toArray();
+            if (!info) {
+                throw new Error(`Collection ${collection} not found`);
+            }
+
+            const name = JSON.stringify(collection);
+            const options = (info as { options?: Record<string, any> }).options ?? {};
+            const lines = [Object.keys(options).length > 0
+                ? `db.createCollection(${name}, ${BSON.EJSON.stringify(options, undefined, 4)});`
+                : `db.createCollection(${name});`];
+
+            // Views have no indexes of their own
+            if ((info as { type?: string }).type !== 'view') {
+                for (const index of await db.collection(collection).indexes()) {
+                    if (index.name === '_id_') {
+                        continue;
+                    }
+                    // v (index version) and ns are reported by the server, not options to create it with
+                    const { key, ...indexOptions } = index as Record<string, any>;
+                    delete indexOptions.v;
+                    delete indexOptions.ns;
+                    lines.push(`db.getCollection(${name}).createIndex(${BSON.EJSON.stringify(key)}, ${BSON.EJSON.stringify(indexOptions)});`);
+                }
+            }
+
+            return `${lines.join('\n\n')}\n`;
+        } catch (error) {
+            Logger.error('Failed to get create script', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * MongoDB has no SQL schema objects; views and indexes are part of the collection script
+     */
+    public async getSchemaObjects(_database: string, _type: SchemaObjectType): Promise<SchemaObjectInfo[]> {
+        return [];
+    }
+
+    /**
+     * Not supported for MongoDB
+     */
+    public async getObjectDefinition(_database: string, object: SchemaObjectInfo): Promise<string> {
+        throw new Error(`${object.type} definitions are not supported for MongoDB`);
+    }
+
+    /**
+     * MongoDB has no stored routines
+     */
+    public async getRoutineParameters(_database: string, _routine: SchemaObjectInfo): Promise<RoutineParameter[]> {
+        return [];
+    }
+
     /**
      * Execute a MongoDB query
      */
@@ -221,12 +311,16 @@ export class MongoDBProvider implements IMongoDBProvider {
         this.ensureConnected();
 
         const startTime = Date.now();
+        this.running = true;
+        this.cancelRequested = false;
         try {
             const db = this.client!.db(database || 'test');
 
-            // Parse and execute the query
-            // This is a simplified version - in production, you'd want more robust parsing
-            const result = await this.executeMongoQuery(db, query);
+            const result = await withQueryTimeout(
+                this.executeMongoQuery(db, query),
+                getQueryTimeout(this.config ?? undefined),
+                () => this.cancel()
+            );
             const executionTime = Date.now() - startTime;
 
             if (Array.isArray(result)) {
@@ -244,12 +338,163 @@ export class MongoDBProvider implements IMongoDBProvider {
             }
         } catch (error) {
             const executionTime = Date.now() - startTime;
+            if (error instanceof QueryTimeoutError) {
+                Logger.warn(error.message);
+                return {
+                    rowCount: 0,
+                    executionTime,
+                    error: error.message,
+                    timedOutAfter: error.timeoutMs
+                };
+            }
+            if (this.cancelRequested) {
+                Logger.info('Query cancelled');
+                return {
+                    rowCount: 0,
+                    executionTime,
+                    error: 'Query was cancelled',
+                    cancelled: true
+                };
+            }
             Logger.error('Query execution failed', error as Error);
             return {
                 rowCount: 0,
                 executionTime,
                 error: (error as Error).message
             };
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Statement transactions only apply to SQL databases
+     */
+    public async executeTransaction(
+        _statements: SqlStatement[],
+        _database?: string,
+        _onStatement?: (index: number) => void
+    ): Promise<TransactionResult> {
+        return {
+            success: false,
+            affectedRows: 0,
+            error: 'Transactional statement batches are not supported for MongoDB'
+        };
+    }
+
+    /**
+     * Insert documents with one insertMany per batch
+     * Replica sets and sharded clusters run all batches in one transaction; a standalone
+     * server has no transactions, so batches inserted before a failure are kept
+     */
+    public async insertDocuments(
+        database: string,
+        collection: string,
+        batches: Record<string, any>[][],
+        onBatch?: (index: number) => void
+    ): Promise<TransactionResult> {
+        this.ensureConnected();
+
+        const hello = await this.client!.db('admin').command({ hello: 1 });
+        const transactional = Boolean(hello.setName) || hello.msg === 'isdbgrid';
+        const session = transactional ? this.client!.startSession() : undefined;
+        const coll = this.client!.db(database).collection(collection);
+        let inserted = 0;
+        let index = 0;
+        try {
+            session?.startTransaction();
+            for (; index < batches.length; index++) {
+                const result = await coll.insertMany(batches[index], { session, ordered: true });
+                inserted += result.insertedCount;
+                onBatch?.(index);
+            }
+            // Any failure from here on is the commit itself, not a batch
+            index = -1;
+            await session?.commitTransaction();
+            return { success: true, affectedRows: inserted };
+        } catch (error) {
+            if (session?.inTransaction()) {
+                await session.abortTransaction().catch(abortError => Logger.error('Abort failed', abortError as Error));
+            }
+            Logger.error('Document insert failed', error as Error);
+            return {
+                success: false,
+                affectedRows: session ? 0 : inserted,
+                failedIndex: index >= 0 ? index : undefined,
+                error: (error as Error).message
+            };
+        } finally {
+            await session?.endSession();
+        }
+    }
+
+    /**
+     * Open a cursor over a find/aggregate query
+     * Documents are pulled from the driver cursor in batches; other results are paged in memory
+     */
+    public async openCursor(query: string, database?: string): Promise<QueryCursor> {
+        this.ensureConnected();
+
+        const db = this.client!.db(database || 'test');
+        // Keep the driver cursor instead of materializing it; other operations run to completion here
+        this.running = true;
+        let result: any;
+        try {
+            result = await withQueryTimeout(
+                this.executeMongoQuery(db, query, true),
+                getQueryTimeout(this.config ?? undefined),
+                () => this.cancel()
+            );
+        } finally {
+            this.running = false;
+        }
+
+        if (!(result instanceof AbstractCursor)) {
+            return new ArrayCursor(Array.isArray(result) ? result : [result]);
+        }
+
+        const mongoCursor = result;
+        let done = false;
+        return {
+            fetch: async (count: number) => {
+                const documents: any[] = [];
+                while (!done && documents.length < count) {
+                    const document = await mongoCursor.next();
+                    if (document === null) {
+                        done = true;
+                    } else {
+                        documents.push(document);
+                    }
+                }
+                return documents;
+            },
+            isDone: () => done,
+            close: async () => {
+                done = true;
+                await mongoCursor.close();
+            }
+        };
+    }
+
+    /**
+     * Kill this client's in-flight operations with killOp
+     */
+    public async cancel(): Promise<void> {
+        if (!this.running || !this.client) {
+            return;
+        }
+
+        this.cancelRequested = true;
+        const admin = this.client.db('admin');
+        const operations = await admin.aggregate([
+            { $currentOp: { allUsers: false, idleConnections: false } },
+            // Skip the $currentOp aggregate itself
+            { $match: { appName: this.appName, active: true, 'command.aggregate': { $ne: 1 } } }
+        ]).toArray();
+
+        for (const op of operations) {
+            await admin.command({ killOp: 1, op: op.opid });
+            Logger.info(`Sent killOp for MongoDB operation ${op.opid}`);
         }
     }
 
@@ -269,26 +514,73 @@ export class MongoDBProvider implements IMongoDBProvider {
 
     /**
      * Build MongoDB connection URI
+     * A stored connection string is used as is, with the credentials injected; otherwise the
+     * URI is built from the host (or seed list) and the replica set / auth settings
      */
     private buildConnectionUri(config: ConnectionConfig, password: string): string {
-        const auth = `${encodeURIComponent(config.username)}:${encodeURIComponent(password)}`;
-        const ssl = config.ssl ? '?ssl=true' : '';
-        return `mongodb://${auth}@${config.host}:${config.port}/${config.database || 'admin'}${ssl}`;
+        const mongo = config.mongo || {};
+        // X.509 authenticates with the client certificate, never a password
+        const secret = mongo.authMechanism === 'MONGODB-X509' ? undefined : password;
+        if (mongo.connectionString) {
+            return withMongoCredentials(mongo.connectionString, config.username, secret);
+        }
+
+        const hosts = mongo.srv
+            ? config.host
+            : config.host.split(',')
+                .map(host => host.trim())
+                .filter(host => host)
+                .map(host => (/:\d+$/.test(host) ? host : `${host}:${config.port}`))
+                .join(',');
+
+        const params = new URLSearchParams();
+        if (mongo.replicaSet) {
+            params.set('replicaSet', mongo.replicaSet);
+        }
+        if (mongo.authSource) {
+            params.set('authSource', mongo.authSource);
+        }
+        if (mongo.authMechanism) {
+            params.set('authMechanism', mongo.authMechanism);
+        }
+        const query = params.toString();
+
+        const uri = `${mongo.srv ? 'mongodb+srv' : 'mongodb'}://${hosts}/${config.database || 'admin'}${query ? `?${query}` : ''}`;
+        return withMongoCredentials(uri, config.username, secret);
     }
 
     /**
-     * Execute MongoDB query (simplified)
+     * Client options shared by connect and testConnection: timeouts and TLS files
      */
-    private async executeMongoQuery(db: Db, query: string): Promise<any> {
-        // This is a very simplified implementation
-        // In production, you'd want a proper MongoDB query parser
-        try {
-            // Try to evaluate as JavaScript
-            const func = new Function('db', `return ${query}`);
-            return await func(db);
-        } catch (error) {
-            throw new Error(`Failed to execute query: ${(error as Error).message}`);
+    private buildClientOptions(config: ConnectionConfig): MongoClientOptions {
+        const mongo = config.mongo || {};
+        const options: MongoClientOptions = {
+            serverSelectionTimeoutMS: getConnectionTimeout(config),
+            connectTimeoutMS: getConnectionTimeout(config)
+        };
+
+        if (config.ssl || mongo.tlsCAFile || mongo.tlsCertificateKeyFile) {
+            options.tls = true;
+        }
+        if (mongo.tlsCAFile) {
+            options.tlsCAFile = mongo.tlsCAFile;
+        }
+        if (mongo.tlsCertificateKeyFile) {
+            options.tlsCertificateKeyFile = mongo.tlsCertificateKeyFile;
+        }
+        return options;
+    }
+
+    /**
+     * Parse and run a mongosh-style query
+     * find() and aggregate() cursors are read to the end unless keepCursor is set
+     */
+    private async executeMongoQuery(db: Db, query: string, keepCursor = false): Promise<any> {
+        const result = await runMongoQuery(db, parseMongoQuery(query));
+        if (result instanceof AbstractCursor && !keepCursor) {
+            return await result.toArray();
         }
+        return result;
     }
 
     /**
@@ -0,0 +1,719 @@
+import { AbstractCursor, Collection, Db, Decimal128, Int32, Long, ObjectId } from 'mongodb';
+
+/**
+ * Syntax or usage error in a MongoDB query, with the position it was found at
+ */
+export class MongoSyntaxError extends Error {
+    public readonly line: number;
+    public readonly column: number;
+
+    constructor(message: string, source: string, public readonly position: number) {
+        super(message);
+        const lines = source.slice(0, position).split('\n');
+        this.line = lines.length;
+        this.column = lines[lines.length - 1].length + 1;
+        this.message = `${message} (line ${this.line}, column ${this.column})`;
+        this.name = 'MongoSyntaxError';
+    }
+}
+
+/**
+ * A method call in a parsed query, e.g. find({ a: 1 }) or limit(10)
+ */
+export interface MongoCall {
+    name: string;
+    args: any[];
+    /** Offset of the method name in the query text */
+    position: number;
+    /** Offset of each argument in the query text */
+    argPositions: number[];
+}
+
+/**
+ * A parsed mongosh-style query: db.<collection>.<method>(...).<modifier>(...)
+ */
+export interface MongoQuery {
+    /** Target collection; undefined for database methods such as getCollectionNames() */
+    collection?: string;
+    method: MongoCall;
+    /** Cursor modifiers applied to find() and aggregate() */
+    modifiers: MongoCall[];
+}
+
+/**
+ * Argument kinds a method accepts, e.g. 'object?' or 'object|array'
+ */
+type ArgSpec = string;
+
+interface CollectionMethod {
+    args: ArgSpec[];
+    run(collection: Collection, args: any[]): any;
+}
+
+interface CursorModifier {
+    args: ArgSpec[];
+    apply(cursor: any, args: any[]): any;
+}
+
+/**
+ * Collection methods that can be called from a query
+ * find() and aggregate() return driver cursors; everything else returns the driver result
+ */
+const COLLECTION_METHODS: Record<string, CollectionMethod> = {
+    find: {
+        args: ['object?', 'object?'],
+        run: (collection, [filter, projection]) => collection.find(filter || {}, projection ? { projection } : undefined)
+    },
+    findOne: {
+        args: ['object?', 'object?'],
+        run: (collection, [filter, projection]) => collection.findOne(filter || {}, projection ? { projection } : undefined)
+    },
+    aggregate: {
+        args: ['array?', 'object?'],
+        run: (collection, [pipeline, options]) => collection.aggregate(pipeline || [], options)
+    },
+    insertOne: {
+        args: ['object', 'object?'],
+        run: (collection, [document, options]) => collection.insertOne(document, options)
+    },
+    insertMany: {
+        args: ['array', 'object?'],
+        run: (collection, [documents, options]) => collection.insertMany(documents, options)
+    },
+    updateOne: {
+        args: ['object', 'object|array', 'object?'],
+        run: (collection, [filter, update, options]) => collection.updateOne(filter, update, options)
+    },
+    updateMany: {
+        args: ['object', 'object|array', 'object?'],
+        run: (collection, [filter, update, options]) => collection.updateMany(filter, update, options)
+    },
+    deleteOne: {
+        args: ['object', 'object?'],
+        run: (collection, [filter, options]) => collection.deleteOne(filter, options)
+    },
+    deleteMany: {
+        args: ['object', 'object?'],
+        run: (collection, [filter, options]) => collection.deleteMany(filter, options)
+    },
+    countDocuments: {
+        args: ['object?', 'object?'],
+        run: (collection, [filter, options]) => collection.countDocuments(filter || {}, options)
+    },
+    estimatedDocumentCount: {
+        args: ['object?'],
+        run: (collection, [options]) => collection.estimatedDocumentCount(options)
+    },
+    createIndex: {
+        args: ['object', 'object?'],
+        run: async (collection, [keys, options]) => ({ name: await collection.createIndex(keys, options || {}) })
+    },
+    distinct: {
+        args: ['string', 'object?', 'object?'],
+        run: (collection, [key, filter, options]) => collection.distinct(key, filter || {}, options || {})
+    },
+    drop: {
+        args: [],
+        run: collection => collection.drop()
+    }
+};
+
+/**
+ * Modifiers that can be chained after find() and aggregate()
+ */
+const CURSOR_MODIFIERS: Record<string, CursorModifier> = {
+    sort: { args: ['object'], apply: (cursor, [sort]) => cursor.sort(sort) },
+    limit: { args: ['number'], apply: (cursor, [limit]) => cursor.limit(Number(limit)) },
+    skip: { args: ['number'], apply: (cursor, [skip]) => cursor.skip(Number(skip)) },
+    project: { args: ['object'], apply: (cursor, [projection]) => cursor.project(projection) },
+    batchSize: { args: ['number'], apply: (cursor, [size]) => cursor.batchSize(Number(size)) },
+    // Results are read through the cursor either way
+    toArray: { args: [], apply: cursor => cursor },
+    pretty: { args: [], apply: cursor => cursor }
+};
+
+/**
+ * Database methods that can be called as db.<method>()
+ */
+const DATABASE_METHODS: Record<string, { args: ArgSpec[]; run(db: Db, args: any[]): Promise<any> }> = {
+    getCollectionNames: {
+        args: [],
+        // One row per collection so the names show up in the results grid
+        run: async db => (await db.listCollections({}, { nameOnly: true }).toArray()).map(c => ({ name: c.name }))
+    },
+    createCollection: {
+        args: ['string', 'object?'],
+        run: async (db, [name, options]) => {
+            await db.createCollection(name, options || {});
+            return { ok: 1, collection: name };
+        }
+    }
+};
+
+const CURSOR_METHODS = ['find', 'aggregate'];
+
+/**
+ * Parse a mongosh-style query
+ * Only literal values and the BSON helpers (ObjectId, ISODate, NumberDecimal, ...) are
+ * accepted, so a query file can never run arbitrary code in the extension host.
+ */
+export function parseMongoQuery(source: string): MongoQuery {
+    return new MongoQueryParser(source).parseQuery();
+}
+
+/**
+ * Run a parsed query against a database
+ * find() and aggregate() return the driver cursor with the modifiers applied
+ */
+export async function runMongoQuery(db: Db, query: MongoQuery): Promise<any> {
+    if (query.collection === undefined) {
+        return DATABASE_METHODS[query.method.name].run(db, query.method.args);
+    }
+
+    const collection = db.collection(query.collection);
+    let result = COLLECTION_METHODS[query.method.name].run(collection, query.method.args);
+    if (result instanceof AbstractCursor) {
+        for (const modifier of query.modifiers) {
+            result = CURSOR_MODIFIERS[modifier.name].apply(result, modifier.args);
+        }
+        return result;
+    }
+    return await result;
+}
+
+/**
+ * Recursive descent parser for the query subset
+ */
+class MongoQueryParser {
+    private pos = 0;
+
+    constructor(private readonly source: string) {}
+
+    public parseQuery(): MongoQuery {
+        this.skipWhitespace();
+        const start = this.pos;
+        if (this.readIdentifier() !== 'db') {
+            throw this.error('Query must start with "db."', start);
+        }
+
+        // Collection path: db.orders, db.sales.archive, db['my-collection'] or db.getCollection('name')
+        // (db.collection('name') is accepted too, as in the Node.js driver)
+        const path: string[] = [];
+        let collection: string | undefined;
+        let method: MongoCall;
+        for (;;) {
+            this.skipWhitespace();
+            if (this.peek() === '[') {
+                this.pos++;
+                this.skipWhitespace();
+                path.push(this.parseString());
+                this.skipWhitespace();
+                this.expect(']');
+                continue;
+            }
+
+            this.expect('.');
+            this.skipWhitespace();
+            const namePos = this.pos;
+            const name = this.expectIdentifier('Expected a collection or method name');
+            this.skipWhitespace();
+            if (this.peek() !== '(') {
+                path.push(name);
+                continue;
+            }
+
+            const call = this.parseCall(name, namePos);
+            if (path.length === 0 && collection === undefined && (name === 'getCollection' || name === 'collection')) {
+                this.checkArgs(call, ['string']);
+                collection = call.args[0];
+                continue;
+            }
+            method = call;
+            break;
+        }
+
+        if (path.length > 0) {
+            collection = path.join('.');
+        }
+
+        if (collection === undefined) {
+            const dbMethod = DATABASE_METHODS[method.name];
+            if (!dbMethod) {
+                throw this.error(
+                    `Unknown database method "${method.name}". Supported: ${Object.keys(DATABASE_METHODS).join(', ')}`,
+                    method.position
+                );
+            }
+            this.checkArgs(method, dbMethod.args);
+            this.expectEnd();
+            return { method, modifiers: [] };
+        }
+
+        const collectionMethod = COLLECTION_METHODS[method.name];
+        if (!collectionMethod) {
+            throw this.error(
+                `Unknown collection method "${method.name}". Supported: ${Object.keys(COLLECTION_METHODS).join(', ')}`,
+                method.position
+            );
+        }
+        this.checkArgs(method, collectionMethod.args);
+
+        const modifiers: MongoCall[] = [];
+        this.skipWhitespace();
+        while (this.peek() === '.') {
+            this.pos++;
+            this.skipWhitespace();
+            const namePos = this.pos;
+            const name = this.expectIdentifier('Expected a cursor method name');
+            const modifier = this.parseCall(name, namePos);
+            if (!CURSOR_METHODS.includes(method.name)) {
+                throw this.error(`.${name}() can only follow ${CURSOR_METHODS.map(m => `${m}()`).join(' or ')}`, namePos);
+            }
+            const spec = CURSOR_MODIFIERS[name];
+            if (!spec) {
+                throw this.error(
+                    `Unknown cursor method "${name}". Supported: ${Object.keys(CURSOR_MODIFIERS).join(', ')}`,
+                    namePos
+                );
+            }
+            this.checkArgs(modifier, spec.args);
+            modifiers.push(modifier);
+            this.skipWhitespace();
+        }
+
+        this.expectEnd();
+        return { collection, method, modifiers };
+    }
+
+    /**
+     * Parse "(arg, ...)" after a method name
+     */
+    private parseCall(name: string, position: number): MongoCall {
+        this.skipWhitespace();
+        this.expect('(');
+        const args: any[] = [];
+        const argPositions: number[] = [];
+        this.skipWhitespace();
+        while (this.peek() !== ')') {
+            this.skipWhitespace();
+            argPositions.push(this.pos);
+            args.push(this.parseValue());
+            this.skipWhitespace();
+            if (this.peek() === ',') {
+                this.pos++;
+                this.skipWhitespace();
+            } else if (this.peek() !== ')') {
+                throw this.error('Expected "," or ")"');
+            }
+        }
+        this.pos++;
+        return { name, args, position, argPositions };
+    }
+
+    /**
+     * Check argument count and kinds against a method signature
+     */
+    private checkArgs(call: MongoCall, specs: ArgSpec[]): void {
+        if (call.args.length > specs.length) {
+            throw this.error(`${call.name}() takes at most ${specs.length} argument(s)`, call.argPositions[specs.length]);
+        }
+
+        specs.forEach((spec, index) => {
+            const optional = spec.endsWith('?');
+            const kinds = spec.replace('?', '').split('|');
+            if (index >= call.args.length) {
+                if (!optional) {
+                    throw this.error(`${call.name}() expects ${kinds.join(' or ')} as argument ${index + 1}`, call.position);
+                }
+                return;
+            }
+            if (!kinds.includes(this.kindOf(call.args[index]))) {
+                throw this.error(`${call.name}() expects ${kinds.join(' or ')} as argument ${index + 1}`, call.argPositions[index]);
+            }
+        });
+    }
+
+    private kindOf(value: any): string {
+        if (Array.isArray(value)) {
+            return 'array';
+        }
+        if (typeof value === 'number' || value instanceof Long || value instanceof Int32 || value instanceof Decimal128) {
+            return 'number';
+        }
+        if (typeof value === 'string') {
+            return 'string';
+        }
+        if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+            return 'object';
+        }
+        return typeof value;
+    }
+
+    /**
+     * Parse any literal value
+     */
+    private parseValue(): any {
+        this.skipWhitespace();
+        const ch = this.peek();
+        if (ch === '{') {
+            return this.parseObject();
+        }
+        if (ch === '[') {
+            return this.parseArray();
+        }
+        if (ch === '"' || ch === "'") {
+            return this.parseString();
+        }
+        if (ch === '/') {
+            return this.parseRegex();
+        }
+        if (ch === '-' || ch === '.' || (ch >= '0' && ch <= '9')) {
+            return this.parseNumber();
+        }
+        if (/[A-Za-z_$]/.test(ch)) {
+            return this.parseIdentifierValue();
+        }
+        if (ch === '') {
+            throw this.error('Unexpected end of query');
+        }
+        throw this.error(`Unexpected character "${ch}"`);
+    }
+
+    private parseObject(): Record<string, any> {
+        const start = this.pos;
+        this.expect('{');
+        const result: Record<string, any> = {};
+        this.skipWhitespace();
+        while (this.peek() !== '}') {
+            const keyPos = this.pos;
+            const ch = this.peek();
+            let key: string;
+            if (ch === '"' || ch === "'") {
+                key = this.parseString();
+            } else if (ch >= '0' && ch <= '9') {
+                key = String(this.parseNumber());
+            } else {
+                key = this.expectIdentifier('Expected a property name');
+            }
+            if (Object.prototype.hasOwnProperty.call(result, key)) {
+                throw this.error(`Duplicate key "${key}"`, keyPos);
+            }
+
+            this.skipWhitespace();
+            this.expect(':');
+            const value = this.parseValue();
+            // defineProperty so keys such as __proto__ are stored as plain data
+            Object.defineProperty(result, key, { value, enumerable: true, writable: true, configurable: true });
+
+            this.skipWhitespace();
+            if (this.peek() === ',') {
+                this.pos++;
+                this.skipWhitespace();
+            } else if (this.peek() !== '}') {
+                throw this.error('Expected "," or "}"');
+            }
+        }
+        this.pos++;
+        return this.fromExtendedJson(result, start);
+    }
+
+    private parseArray(): any[] {
+        this.expect('[');
+        const result: any[] = [];
+        this.skipWhitespace();
+        while (this.peek() !== ']') {
+            result.push(this.parseValue());
+            this.skipWhitespace();
+            if (this.peek() === ',') {
+                this.pos++;
+                this.skipWhitespace();
+            } else if (this.peek() !== ']') {
+                throw this.error('Expected "," or "]"');
+            }
+        }
+        this.pos++;
+        return result;
+    }
+
+    private parseString(): string {
+        const start = this.pos;
+        const quote = this.peek();
+        if (quote !== '"' && quote !== "'") {
+            throw this.error('Expected a string');
+        }
+        this.pos++;
+
+        let result = '';
+        for (;;) {
+            const ch = this.source[this.pos];
+            if (ch === undefined || ch === '\n') {
+                throw this.error('Unterminated string', start);
+            }
+            this.pos++;
+            if (ch === quote) {
+                return result;
+            }
+            if (ch !== '\\') {
+                result += ch;
+                continue;
+            }
+
+            const escape = this.source[this.pos++];
+            switch (escape) {
+                case 'n': result += '\n'; break;
+                case 't': result += '\t'; break;
+                case 'r': result += '\r'; break;
+                case 'b': result += '\b'; break;
+                case 'f': result += '\f'; break;
+                case 'v': result += '\v'; break;
+                case '0': result += '\0'; break;
+                case 'x':
+                case 'u': {
+                    const length = escape === 'x' ? 2 : 4;
+                    const hex = this.source.substr(this.pos, length);
+                    if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+                        throw this.error('Invalid escape sequence', this.pos - 2);
+                    }
+                    result += String.fromCharCode(parseInt(hex, 16));
+                    this.pos += length;
+                    break;
+                }
+                case undefined:
+                    throw this.error('Unterminated string', start);
+                default:
+                    result += escape;
+            }
+        }
+    }
+
+    private parseNumber(): number {
+        const start = this.pos;
+        const match = /-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/y;
+        match.lastIndex = this.pos;
+        const result = match.exec(this.source);
+        if (!result) {
+            throw this.error('Invalid number', start);
+        }
+        this.pos += result[0].length;
+        return Number(result[0]);
+    }
+
+    private parseRegex(): RegExp {
+        const start = this.pos;
+        this.pos++;
+        let pattern = '';
+        let inClass = false;
+        for (;;) {
+            const ch = this.source[this.pos];
+            if (ch === undefined || ch === '\n') {
+                throw this.error('Unterminated regular expression', start);
+            }
+            this.pos++;
+            if (ch === '\\') {
+                pattern += ch + (this.source[this.pos++] ?? '');
+                continue;
+            }
+            if (ch === '/' && !inClass) {
+                break;
+            }
+            if (ch === '[') {
+                inClass = true;
+            } else if (ch === ']') {
+                inClass = false;
+            }
+            pattern += ch;
+        }
+
+        const flags = /[a-z]*/y;
+        flags.lastIndex = this.pos;
+        const flagText = flags.exec(this.source)![0];
+        this.pos += flagText.length;
+        try {
+            return new RegExp(pattern, flagText);
+        } catch (error) {
+            throw this.error(`Invalid regular expression: ${(error as Error).message}`, start);
+        }
+    }
+
+    /**
+     * Parse keywords and BSON helper calls such as ObjectId("...") or new Date(...)
+     */
+    private parseIdentifierValue(): any {
+        const start = this.pos;
+        let name = this.readIdentifier();
+        switch (name) {
+            case 'true':
+                return true;
+            case 'false':
+                return false;
+            case 'null':
+                return null;
+        }
+
+        if (name === 'new') {
+            this.skipWhitespace();
+            name = this.expectIdentifier('Expected a constructor name after "new"');
+        }
+
+        this.skipWhitespace();
+        if (this.peek() !== '(') {
+            throw this.error(`Unexpected identifier "${name}"; only literal values are allowed`, start);
+        }
+
+        const call = this.parseCall(name, start);
+        const [arg] = call.args;
+        const argKind = call.args.length > 0 ? this.kindOf(arg) : undefined;
+        const invalid = (what: string) => this.error(`Invalid ${what}`, call.argPositions[0] ?? start);
+        if (call.args.length > 1) {
+            throw this.error(`${name}() takes at most 1 argument`, call.argPositions[1]);
+        }
+
+        switch (name) {
+            case 'ObjectId':
+                if (argKind === undefined) {
+                    return new ObjectId();
+                }
+                if (argKind !== 'string' || !ObjectId.isValid(arg) || arg.length !== 24) {
+                    throw invalid('ObjectId, expected a 24 character hex string');
+                }
+                return new ObjectId(arg);
+            case 'ISODate':
+            case 'Date': {
+                if (argKind === undefined) {
+                    return new Date();
+                }
+                const date = argKind === 'string' || argKind === 'number' ? new Date(arg) : new Date(NaN);
+                if (isNaN(date.getTime())) {
+                    throw invalid('date');
+                }
+                return date;
+            }
+            case 'NumberDecimal':
+                try {
+                    return Decimal128.fromString(String(arg));
+                } catch {
+                    throw invalid('NumberDecimal');
+                }
+            case 'NumberLong':
+                if (!/^-?\d+$/.test(String(arg))) {
+                    throw invalid('NumberLong');
+                }
+                return Long.fromString(String(arg));
+            case 'NumberInt':
+                if (!Number.isInteger(Number(arg))) {
+                    throw invalid('NumberInt');
+                }
+                return new Int32(Number(arg));
+            default:
+                throw this.error(`Unsupported function "${name}"; only literal values, ObjectId, ISODate, Date, NumberDecimal, NumberLong and NumberInt are allowed`, start);
+        }
+    }
+
+    /**
+     * Convert Extended JSON wrappers ({ $oid }, { $date }, { $numberDecimal }, ...) to BSON values
+     */
+    private fromExtendedJson(value: Record<string, any>, position: number): any {
+        const keys = Object.keys(value);
+        if (keys.length !== 1) {
+            return value;
+        }
+
+        const inner = value[keys[0]];
+        try {
+            switch (keys[0]) {
+                case '$oid':
+                    return new ObjectId(inner);
+                case '$date': {
+                    // Canonical form { $date: { $numberLong } }: the inner wrapper has already been converted
+                    const date = new Date(inner instanceof Long ? inner.toNumber() : inner);
+                    if (isNaN(date.getTime())) {
+                        throw new Error('Invalid date');
+                    }
+                    return date;
+                }
+                case '$numberDecimal':
+                    return Decimal128.fromString(String(inner));
+                case '$numberLong':
+                    return Long.fromString(String(inner));
+                case '$numberInt':
+                    return new Int32(Number(inner));
+                default:
+                    return value;
+            }
+        } catch (error) {
+            throw this.error(`Invalid ${keys[0]} value: ${(error as Error).message}`, position);
+        }
+    }
+
+    /**
+     * Skip whitespace and comments
+     */
+    private skipWhitespace(): void {
+        for (;;) {
+            const ch = this.source[this.pos];
+            if (ch !== undefined && /\s/.test(ch)) {
+                this.pos++;
+            } else if (this.source.startsWith('//', this.pos)) {
+                const end = this.source.indexOf('\n', this.pos);
+                this.pos = end === -1 ? this.source.length : end + 1;
+            } else if (this.source.startsWith('/*', this.pos)) {
+                const end = this.source.indexOf('*/', this.pos + 2);
+                if (end === -1) {
+                    throw this.error('Unterminated comment');
+                }
+                this.pos = end + 2;
+            } else {
+                return;
+            }
+        }
+    }
+
+    /**
+     * Allow a trailing semicolon, then require the end of the query
+     */
+    private expectEnd(): void {
+        this.skipWhitespace();
+        if (this.peek() === ';') {
+            this.pos++;
+            this.skipWhitespace();
+        }
+        if (this.pos < this.source.length) {
+            throw this.error('Unexpected input after the query; run one statement at a time');
+        }
+    }
+
+    private readIdentifier(): string {
+        const match = /[A-Za-z_$][\w$]*/y;
+        match.lastIndex = this.pos;
+        const result = match.exec(this.source);
+        if (!result) {
+            return '';
+        }
+        this.pos += result[0].length;
+        return result[0];
+    }
+
+    private expectIdentifier(message: string): string {
+        const identifier = this.readIdentifier();
+        if (!identifier) {
+            throw this.error(message);
+        }
+        return identifier;
+    }
+
+    private expect(ch: string): void {
+        if (this.peek() !== ch) {
+            const found = this.peek() === '' ? 'end of query' : `"${this.peek()}"`;
+            throw this.error(`Expected "${ch}" but found ${found}`);
+        }
+        this.pos++;
+    }
+
+    private peek(): string {
+        return this.source[this.pos] ?? '';
+    }
+
+    private error(message: string, position: number = this.pos): MongoSyntaxError {
+        return new MongoSyntaxError(message, this.source, position);
+    }
+}
@@ -7,16 +7,33 @@ import {
     DatabaseInfo,
     TableInfo,
     ColumnInfo,
-    QueryResult
+    ForeignKeyInfo,
+    QueryResult,
+    QueryCursor,
+    TransactionResult,
+    QueryParam,
+    SqlStatement,
+    SchemaObjectType,
+    SchemaObjectInfo,
+    RoutineParameter
 } from '../types';
 import { Logger } from '../utils/logger';
+import { BufferedCursor } from '../utils/cursors';
+import { assertAffectedRows, ConcurrencyConflictError } from '../utils/concurrency';
+import { getConnectionTimeout, getQueryTimeout, QueryTimeoutError, withQueryTimeout } from '../utils/timeouts';
 
 /**
  * SQL Server (MSSQL) database provider
  */
 export class MSSQLProvider implements IDatabaseProvider {
     private pool: mssql.ConnectionPool | null = null;
+    private poolConfig: mssql.config | null = null;
+    /** Pools for the other databases of the server, opened on first use */
+    private databasePools = new Map<string, Promise<mssql.ConnectionPool>>();
+    private config: ConnectionConfig | null = null;
     private state: ConnectionState = ConnectionState.Disconnected;
+    private activeRequest: mssql.Request | null = null;
+    private cancelRequested = false;
 
     /**
      * Connect to MSSQL database
@@ -24,6 +41,7 @@ export class MSSQLProvider implements IDatabaseProvider {
     public async connect(config: ConnectionConfig, password: string): Promise<void> {
         try {
             this.state = ConnectionState.Connecting;
+            this.config = config;
 
             const poolConfig: mssql.config = {
                 server: config.host,
@@ -37,10 +55,13 @@ export class MSSQLProvider implements IDatabaseProvider {
                     enableArithAbort: true,
                     ...config.options
                 },
-                connectionTimeout: 30000,
-                requestTimeout: 60000
+                connectionTimeout: getConnectionTimeout(config),
+                // The query timeout is enforced by withQueryTimeout so setting changes apply without reconnecting;
+                // a driver-wide limit would also cut off cursor streams that are paused between pages
+                requestTimeout: 0
             };
 
+            this.poolConfig = poolConfig;
             this.pool = await new mssql.ConnectionPool(poolConfig).connect();
             this.state = ConnectionState.Connected;
             Logger.info(`Connected to MSSQL: ${config.host}:${config.port}`);
@@ -56,6 +77,9 @@ export class MSSQLProvider implements IDatabaseProvider {
      */
     public async disconnect(): Promise<void> {
         try {
+            const pools = [...this.databasePools.values()];
+            this.databasePools.clear();
+            await Promise.all(pools.map(pool => pool.then(opened => opened.close(), () => undefined)));
             if (this.pool) {
                 await this.pool.close();
                 this.pool = null;
@@ -84,7 +108,7 @@ export class MSSQLProvider implements IDatabaseProvider {
                     encrypt: config.ssl || false,
                     trustServerCertificate: true
                 },
-                connectionTimeout: 10000
+                connectionTimeout: getConnectionTimeout(config)
             };
 
             testPool = await new mssql.ConnectionPool(poolConfig).connect();
@@ -124,13 +148,14 @@ export class MSSQLProvider implements IDatabaseProvider {
     }
 
     /**
-     * Get list of tables
+     * Get list of tables of a database, in every schema
      */
-    public async getTables(): Promise<TableInfo[]> {
+    public async getTables(database: string): Promise<TableInfo[]> {
         this.ensureConnected();
 
         try {
-            const result = await this.pool!.query(`
+            const pool = await this.getPool(database);
+            const result = await pool.query(`
                 SELECT
                     s.name as schema_name,
                     t.name as table_name,
@@ -153,14 +178,39 @@ export class MSSQLProvider implements IDatabaseProvider {
     }
 
     /**
-     * Get columns for a table
+     * Get the schemas of a database that hold objects, plus dbo
+     */
+    public async getSchemas(database: string): Promise<string[]> {
+        this.ensureConnected();
+
+        try {
+            const pool = await this.getPool(database);
+            // Skips the fixed database role schemas (db_owner, ...) and other empty schemas
+            const result = await pool.query(`
+                SELECT s.name
+                FROM sys.schemas s
+                WHERE s.name = 'dbo'
+                    OR EXISTS (SELECT 1 FROM sys.objects o WHERE o.schema_id = s.schema_id AND o.is_ms_shipped = 0)
+                ORDER BY s.name
+            `);
+
+            return result.recordset.map((row: { name: string }) => row.name);
+        } catch (error) {
+            Logger.error('Failed to get schemas', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get columns for a table (in the user's default schema when no schema is given)
      */
-    public async getColumns(table: string): Promise<ColumnInfo[]> {
+    public async getColumns(database: string, table: string, schema?: string): Promise<ColumnInfo[]> {
         this.ensureConnected();
 
         try {
-            const request = this.pool!.request();
+            const request = (await this.getPool(database)).request();
             request.input('tableName', table);
+            request.input('schemaName', schema ?? null);
 
             const queryResult = await request.query(`
                 SELECT
@@ -187,7 +237,7 @@ export class MSSQLProvider implements IDatabaseProvider {
                 ) pk ON c.object_id = pk.object_id AND c.column_id = pk.column_id
                 LEFT JOIN sys.foreign_key_columns fk ON c.object_id = fk.parent_object_id AND c.column_id = fk.parent_column_id
                 LEFT JOIN sys.default_constraints dc ON c.object_id = dc.parent_object_id AND c.column_id = dc.parent_column_id
-                WHERE tb.name = @tableName
+                WHERE tb.name = @tableName AND tb.schema_id = SCHEMA_ID(ISNULL(@schemaName, SCHEMA_NAME()))
                 ORDER BY c.column_id
             `);
 
@@ -205,15 +255,354 @@ export class MSSQLProvider implements IDatabaseProvider {
         }
     }
 
+    /**
+     * Get foreign keys from sys.foreign_keys and sys.foreign_key_columns
+     */
+    public async getForeignKeys(database: string, table: string, schema?: string): Promise<ForeignKeyInfo[]> {
+        this.ensureConnected();
+
+        try {
+            const request = (await this.getPool(database)).request();
+            request.input('tableName', table);
+            request.input('schemaName', schema ?? null);
+
+            const queryResult = await request.query(`
+                SELECT fk.name, pc.name AS column_name, SCHEMA_NAME(rt.schema_id) AS referenced_schema, rt.name AS referenced_table,
+                    rc.name AS referenced_column, fk.delete_referential_action_desc, fk.update_referential_action_desc
+                FROM sys.foreign_keys fk
+                INNER JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+                INNER JOIN sys.columns pc ON pc.object_id = fkc.parent_object_id AND pc.column_id = fkc.parent_column_id
+                INNER JOIN sys.columns rc ON rc.object_id = fkc.referenced_object_id AND rc.column_id = fkc.referenced_column_id
+                INNER JOIN sys.tables rt ON rt.object_id = fk.referenced_object_id
+                WHERE fk.parent_object_id = OBJECT_ID(QUOTENAME(ISNULL(@schemaName, SCHEMA_NAME())) + '.' + QUOTENAME(@tableName))
+                ORDER BY fk.name, fkc.constraint_column_id
+            `);
+
+            // NO_ACTION, CASCADE, SET_NULL, SET_DEFAULT
+            const action = (desc: string) => desc.replace(/_/g, ' ');
+            const foreignKeys = new Map<string, ForeignKeyInfo>();
+            for (const row of queryResult.recordset) {
+                let foreignKey = foreignKeys.get(row.name);
+                if (!foreignKey) {
+                    foreignKey = {
+                        name: row.name,
+                        columns: [],
+                        referencedSchema: row.referenced_schema,
+                        referencedTable: row.referenced_table,
+                        referencedColumns: [],
+                        onDelete: action(row.delete_referential_action_desc),
+                        onUpdate: action(row.update_referential_action_desc)
+                    };
+                    foreignKeys.set(row.name, foreignKey);
+                }
+                foreignKey.columns.push(row.column_name);
+                foreignKey.referencedColumns.push(row.referenced_column);
+            }
+            return [...foreignKeys.values()];
+        } catch (error) {
+            Logger.error('Failed to get foreign keys', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Build the CREATE TABLE script from the sys.* catalog views
+     * Columns carry their identity, default and computed definitions; keys, foreign keys and checks
+     * follow as table constraints, then the indexes that do not back a constraint
+     */
+    public async getCreateScript(database: string, table: string, schema = 'dbo'): Promise<string> {
+        this.ensureConnected();
+
+        try {
+            const request = (await this.getPool(database)).request();
+            request.input('schemaName', schema);
+            request.input('tableName', table);
+
+            const queryResult = await request.query(`
+                DECLARE @id int = OBJECT_ID(QUOTENAME(@schemaName) + '.' + QUOTENAME(@tableName));
+
+                SELECT c.name, t.name AS type_name, c.max_length, c.precision, c.scale, c.is_nullable,
+                    c.is_identity, ic.seed_value, ic.increment_value,
+                    dc.name AS default_name, dc.definition AS default_definition,
+                    cc.definition AS computed_definition, cc.is_persisted,
+                    CASE WHEN c.collation_name <> CAST(DATABASEPROPERTYEX(DB_NAME(), 'Collation') AS sysname)
+                        THEN c.collation_name END AS collation_name
+                FROM sys.columns c
+                INNER JOIN sys.types t ON c.user_type_id = t.user_type_id
+                LEFT JOIN sys.identity_columns ic ON ic.object_id = c.object_id AND ic.column_id = c.column_id
+                LEFT JOIN sys.default_constraints dc ON dc.parent_object_id = c.object_id AND dc.parent_column_id = c.column_id
+                LEFT JOIN sys.computed_columns cc ON cc.object_id = c.object_id AND cc.column_id = c.column_id
+                WHERE c.object_id = @id
+                ORDER BY c.column_id;
+
+                SELECT kc.name, kc.type, i.type_desc, col.name AS column_name, ic.is_descending_key
+                FROM sys.key_constraints kc
+                INNER JOIN sys.indexes i ON i.object_id = kc.parent_object_id AND i.index_id = kc.unique_index_id
+                INNER JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+                INNER JOIN sys.columns col ON col.object_id = ic.object_id AND col.column_id = ic.column_id
+                WHERE kc.parent_object_id = @id
+                ORDER BY kc.type, kc.name, ic.key_ordinal;
+
+                SELECT fk.name, pc.name AS column_name, rc.name AS referenced_column,
+                    OBJECT_SCHEMA_NAME(fk.referenced_object_id) AS referenced_schema,
+                    OBJECT_NAME(fk.referenced_object_id) AS referenced_table,
+                    fk.delete_referential_action_desc, fk.update_referential_action_desc
+                FROM sys.foreign_keys fk
+                INNER JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+                INNER JOIN sys.columns pc ON pc.object_id = fkc.parent_object_id AND pc.column_id = fkc.parent_column_id
+                INNER JOIN sys.columns rc ON rc.object_id = fkc.referenced_object_id AND rc.column_id = fkc.referenced_column_id
+                WHERE fk.parent_object_id = @id
+                ORDER BY fk.name, fkc.constraint_column_id;
+
+                SELECT name, definition
+                FROM sys.check_constraints
+                WHERE parent_object_id = @id
+                ORDER BY name;
+
+                SELECT i.name, i.is_unique, i.type_desc, i.filter_definition, c.name AS column_name,
+                    ic.is_descending_key, ic.is_included_column
+                FROM sys.indexes i
+                INNER JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+                INNER JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+                WHERE i.object_id = @id AND i.is_primary_key = 0 AND i.is_unique_constraint = 0 AND i.type > 0
+                ORDER BY i.name, ic.is_included_column, ic.key_ordinal, ic.index_column_id;
+            `);
+
+            const [columns, keys, foreignKeys, checks, indexes] = queryResult.recordsets as mssql.IRecordSet<any>[];
+            if (columns.length === 0) {
+                throw new Error(`Table ${schema}.${table} not found`);
+            }
+
+            const quote = (name: string) => this.quoteName(name);
+            const tableName = `${quote(schema)}.${quote(table)}`;
+
+            const definitions: string[] = columns.map(col => {
+                if (col.computed_definition) {
+                    return `    ${quote(col.name)} AS ${col.computed_definition}${col.is_persisted ? ' PERSISTED' : ''}`;
+                }
+                let definition = `    ${quote(col.name)} ${this.formatColumnType(col)}`;
+                if (col.collation_name) {
+                    definition += ` COLLATE ${col.collation_name}`;
+                }
+                if (col.is_identity) {
+                    definition += ` IDENTITY(${col.seed_value}, ${col.increment_value})`;
+                }
+                definition += col.is_nullable ? ' NULL' : ' NOT NULL';
+                if (col.default_definition) {
+                    definition += ` CONSTRAINT ${quote(col.default_name)} DEFAULT ${col.default_definition}`;
+                }
+                return definition;
+            });
+
+            for (const [name, rows] of this.groupBy(keys)) {
+                const kind = rows[0].type === 'PK' ? 'PRIMARY KEY' : 'UNIQUE';
+                definitions.push(`    CONSTRAINT ${quote(name)} ${kind} ${rows[0].type_desc} (${rows.map(row => this.keyColumn(row)).join(', ')})`);
+            }
+            for (const [name, rows] of this.groupBy(foreignKeys)) {
+                let definition = `    CONSTRAINT ${quote(name)} FOREIGN KEY (${rows.map(row => quote(row.column_name)).join(', ')})`
+                    + ` REFERENCES ${quote(rows[0].referenced_schema)}.${quote(rows[0].referenced_table)}`
+                    + ` (${rows.map(row => quote(row.referenced_column)).join(', ')})`;
+                if (rows[0].delete_referential_action_desc !== 'NO_ACTION') {
+                    definition += ` ON DELETE ${rows[0].delete_referential_action_desc.replace('_', ' ')}`;
+                }
+                if (rows[0].update_referential_action_desc !== 'NO_ACTION') {
+                    definition += ` ON UPDATE ${rows[0].update_referential_action_desc.replace('_', ' ')}`;
+                }
+                definitions.push(definition);
+            }
+            for (const check of checks) {
+                definitions.push(`    CONSTRAINT ${quote(check.name)} CHECK ${check.definition}`);
+            }
+
+            const statements = [`CREATE TABLE ${tableName} (\n${definitions.join(',\n')}\n);`];
+            for (const rows of this.groupBy(indexes).values()) {
+                statements.push(this.buildCreateIndex(rows, tableName));
+            }
+
+            return `${statements.join('\n\n')}\n`;
+        } catch (error) {
+            Logger.error('Failed to get create script', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get views, routines, triggers, sequences or indexes from the sys.* catalog views
+     */
+    public async getSchemaObjects(database: string, type: SchemaObjectType): Promise<SchemaObjectInfo[]> {
+        this.ensureConnected();
+
+        const queries: Record<SchemaObjectType, string> = {
+            [SchemaObjectType.View]: `
+                SELECT SCHEMA_NAME(schema_id) AS schema_name, name
+                FROM sys.views
+                WHERE is_ms_shipped = 0
+                ORDER BY schema_name, name`,
+            [SchemaObjectType.Procedure]: `
+                SELECT SCHEMA_NAME(schema_id) AS schema_name, name
+                FROM sys.procedures
+                WHERE is_ms_shipped = 0
+                ORDER BY schema_name, name`,
+            [SchemaObjectType.Function]: `
+                SELECT SCHEMA_NAME(schema_id) AS schema_name, name, type
+                FROM sys.objects
+                WHERE type IN ('FN', 'IF', 'TF') AND is_ms_shipped = 0
+                ORDER BY schema_name, name`,
+            [SchemaObjectType.Trigger]: `
+                SELECT OBJECT_SCHEMA_NAME(object_id) AS schema_name, name, OBJECT_NAME(parent_id) AS table_name
+                FROM sys.triggers
+                WHERE parent_class = 1 AND is_ms_shipped = 0
+                ORDER BY name`,
+            [SchemaObjectType.Sequence]: `
+                SELECT SCHEMA_NAME(schema_id) AS schema_name, name
+                FROM sys.sequences
+                ORDER BY schema_name, name`,
+            [SchemaObjectType.Index]: `
+                SELECT SCHEMA_NAME(t.schema_id) AS schema_name, i.name, t.name AS table_name
+                FROM sys.indexes i
+                INNER JOIN sys.tables t ON t.object_id = i.object_id
+                WHERE i.type > 0 AND t.is_ms_shipped = 0
+                ORDER BY t.name, i.name`
+        };
+
+        try {
+            const pool = await this.getPool(database);
+            const queryResult = await pool.request().query(queries[type]);
+            return queryResult.recordset.map((row: { schema_name: string; name: string; table_name?: string; type?: string }) => ({
+                name: row.name,
+                type,
+                schema: row.schema_name,
+                table: row.table_name,
+                // Inline and multi-statement table-valued functions
+                returnsTable: row.type !== undefined ? row.type.trim() !== 'FN' : undefined
+            }));
+        } catch (error) {
+            Logger.error('Failed to get schema objects', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the CREATE statement of an object: the module text for views, routines and triggers,
+     * rebuilt from sys.sequences and sys.indexes for sequences and indexes
+     */
+    public async getObjectDefinition(database: string, object: SchemaObjectInfo): Promise<string> {
+        this.ensureConnected();
+
+        const schema = object.schema || 'dbo';
+        try {
+            const request = (await this.getPool(database)).request();
+            request.input('schemaName', schema);
+            request.input('objectName', object.name);
+
+            if (object.type === SchemaObjectType.Sequence) {
+                const queryResult = await request.query(`
+                    SELECT TYPE_NAME(user_type_id) AS type_name, start_value, increment, minimum_value, maximum_value,
+                        is_cycling, is_cached, cache_size
+                    FROM sys.sequences
+                    WHERE object_id = OBJECT_ID(QUOTENAME(@schemaName) + '.' + QUOTENAME(@objectName))
+                `);
+                const sequence = queryResult.recordset[0];
+                if (!sequence) {
+                    throw new Error(`${object.name} not found`);
+                }
+                return `CREATE SEQUENCE ${this.quoteName(schema)}.${this.quoteName(object.name)} AS ${sequence.type_name}`
+                    + ` START WITH ${sequence.start_value} INCREMENT BY ${sequence.increment}`
+                    + ` MINVALUE ${sequence.minimum_value} MAXVALUE ${sequence.maximum_value}`
+                    + `${sequence.is_cycling ? ' CYCLE' : ' NO CYCLE'}`
+                    + `${sequence.is_cached ? (sequence.cache_size ? ` CACHE ${sequence.cache_size}` : '') : ' NO CACHE'};\n`;
+            }
+
+            if (object.type === SchemaObjectType.Index) {
+                request.input('tableName', object.table);
+                const queryResult = await request.query(`
+                    SELECT i.name, i.is_unique, i.type_desc, i.filter_definition, i.is_primary_key, i.is_unique_constraint,
+                        c.name AS column_name, ic.is_descending_key, ic.is_included_column
+                    FROM sys.indexes i
+                    INNER JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+                    INNER JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+                    WHERE i.object_id = OBJECT_ID(QUOTENAME(@schemaName) + '.' + QUOTENAME(@tableName)) AND i.name = @objectName
+                    ORDER BY ic.is_included_column, ic.key_ordinal, ic.index_column_id
+                `);
+                const rows = queryResult.recordset;
+                if (rows.length === 0) {
+                    throw new Error(`${object.name} not found`);
+                }
+                const tableName = `${this.quoteName(schema)}.${this.quoteName(object.table!)}`;
+                // Primary keys and unique constraints are created with their constraint
+                if (rows[0].is_primary_key || rows[0].is_unique_constraint) {
+                    const kind = rows[0].is_primary_key ? 'PRIMARY KEY' : 'UNIQUE';
+                    return `ALTER TABLE ${tableName} ADD CONSTRAINT ${this.quoteName(object.name)} ${kind} ${rows[0].type_desc}`
+                        + ` (${rows.map((row: any) => this.keyColumn(row)).join(', ')});\n`;
+                }
+                return `${this.buildCreateIndex(rows, tableName)}\n`;
+            }
+
+            const queryResult = await request.query(
+                `SELECT OBJECT_DEFINITION(OBJECT_ID(QUOTENAME(@schemaName) + '.' + QUOTENAME(@objectName))) AS definition`
+            );
+            // NULL for encrypted modules and without VIEW DEFINITION permission
+            const definition = queryResult.recordset[0]?.definition;
+            if (!definition) {
+                throw new Error(`The definition of ${object.name} is not available (encrypted or no permission)`);
+            }
+            return `${definition.trim()}\n`;
+        } catch (error) {
+            Logger.error('Failed to get object definition', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get routine parameters from sys.parameters; OUTPUT parameters are also inputs
+     */
+    public async getRoutineParameters(database: string, routine: SchemaObjectInfo): Promise<RoutineParameter[]> {
+        this.ensureConnected();
+
+        try {
+            const request = (await this.getPool(database)).request();
+            request.input('schemaName', routine.schema || 'dbo');
+            request.input('objectName', routine.name);
+            // parameter_id 0 is a function's return value
+            const queryResult = await request.query(`
+                SELECT p.name, TYPE_NAME(p.user_type_id) AS type_name, p.max_length, p.precision, p.scale, p.is_output
+                FROM sys.parameters p
+                WHERE p.object_id = OBJECT_ID(QUOTENAME(@schemaName) + '.' + QUOTENAME(@objectName)) AND p.parameter_id > 0
+                ORDER BY p.parameter_id
+            `);
+
+            return queryResult.recordset.map((row: { name: string; type_name: string; max_length: number; precision: number; scale: number; is_output: boolean }) => ({
+                name: row.name,
+                type: this.formatColumnType(row),
+                mode: row.is_output ? 'INOUT' : 'IN'
+            }));
+        } catch (error) {
+            Logger.error('Failed to get routine parameters', error as Error);
+            throw error;
+        }
+    }
+
     /**
      * Execute a query
      */
-    public async executeQuery(query: string, _database?: string): Promise<QueryResult> {
+    public async executeQuery(query: string, database?: string, params?: QueryParam[]): Promise<QueryResult> {
         this.ensureConnected();
 
         const startTime = Date.now();
+        this.cancelRequested = false;
         try {
-            const result = await this.pool!.query(query);
+            const request = this.bindParams((await this.getPool(database)).request(), params);
+            this.activeRequest = request;
+            let result: mssql.IResult<any>;
+            try {
+                result = await withQueryTimeout(
+                    request.query(query),
+                    getQueryTimeout(this.config ?? undefined),
+                    () => this.cancel()
+                );
+            } finally {
+                this.activeRequest = null;
+            }
             const executionTime = Date.now() - startTime;
 
             return {
@@ -227,6 +616,24 @@ export class MSSQLProvider implements IDatabaseProvider {
             };
         } catch (error) {
             const executionTime = Date.now() - startTime;
+            if (error instanceof QueryTimeoutError) {
+                Logger.warn(error.message);
+                return {
+                    rowCount: 0,
+                    executionTime,
+                    error: error.message,
+                    timedOutAfter: error.timeoutMs
+                };
+            }
+            if (this.cancelRequested) {
+                Logger.info('Query cancelled');
+                return {
+                    rowCount: 0,
+                    executionTime,
+                    error: 'Query was cancelled',
+                    cancelled: true
+                };
+            }
             Logger.error('Query execution failed', error as Error);
             return {
                 rowCount: 0,
@@ -236,6 +643,162 @@ export class MSSQLProvider implements IDatabaseProvider {
         }
     }
 
+    /**
+     * Run statements in an mssql Transaction
+     */
+    public async executeTransaction(
+        statements: SqlStatement[],
+        database?: string,
+        onStatement?: (index: number) => void
+    ): Promise<TransactionResult> {
+        this.ensureConnected();
+
+        const timeout = getQueryTimeout(this.config ?? undefined);
+        let transaction: mssql.Transaction | undefined;
+        let began = false;
+        let affectedRows = 0;
+        let index = 0;
+        this.cancelRequested = false;
+        try {
+            transaction = new mssql.Transaction(await this.getPool(database));
+            await transaction.begin();
+            began = true;
+            for (; index < statements.length; index++) {
+                const statement = statements[index];
+                const request = this.bindParams(new mssql.Request(transaction), statement.params);
+                this.activeRequest = request;
+                let result: mssql.IResult<any>;
+                try {
+                    result = await withQueryTimeout(request.query(statement.sql), timeout, () => this.cancel());
+                } finally {
+                    this.activeRequest = null;
+                }
+                const affected = result.rowsAffected.reduce((sum, count) => sum + count, 0);
+                assertAffectedRows(statement, affected);
+                affectedRows += affected;
+                onStatement?.(index);
+            }
+            // Any failure from here on is the commit itself, not a statement
+            index = -1;
+            await transaction.commit();
+            return { success: true, affectedRows };
+        } catch (error) {
+            if (began) {
+                await transaction!.rollback().catch(rollbackError => Logger.error('Rollback failed', rollbackError as Error));
+            }
+            Logger.error('Transaction rolled back', error as Error);
+            return {
+                success: false,
+                affectedRows: 0,
+                failedIndex: began && index >= 0 ? index : undefined,
+                error: (error as Error).message,
+                conflict: error instanceof ConcurrencyConflictError
+            };
+        }
+    }
+
+    /**
+     * Bind parameters as @p1, @p2, ... using the column type when it needs an explicit SQL type
+     */
+    private bindParams(request: mssql.Request, params?: QueryParam[]): mssql.Request {
+        params?.forEach((param, index) => {
+            const sqlType = this.toSqlType(param.type);
+            if (sqlType) {
+                request.input(`p${index + 1}`, sqlType, param.value);
+            } else {
+                request.input(`p${index + 1}`, param.value);
+            }
+        });
+        return request;
+    }
+
+    /**
+     * Map a column type to an mssql type where inference from the JS value would be wrong
+     */
+    private toSqlType(type?: string): mssql.ISqlType | undefined {
+        const normalized = (type || '').toLowerCase();
+        if (/binary|image/.test(normalized)) {
+            return mssql.VarBinary(mssql.MAX);
+        }
+        switch (normalized) {
+            case 'datetime2':
+                return mssql.DateTime2();
+            case 'datetimeoffset':
+                return mssql.DateTimeOffset();
+            case 'date':
+                return mssql.Date();
+            case 'uniqueidentifier':
+                return mssql.UniqueIdentifier();
+            case 'timestamp':
+            case 'rowversion':
+                return mssql.VarBinary(8);
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Open a streaming request that is paused between pages
+     */
+    public async openCursor(query: string, database?: string): Promise<QueryCursor> {
+        this.ensureConnected();
+
+        const request = (await this.getPool(database)).request();
+        request.stream = true;
+
+        const cursor = new BufferedCursor({
+            pause: () => request.pause(),
+            resume: () => request.resume(),
+            abort: async () => request.cancel()
+        });
+
+        request.on('recordset', columns => {
+            cursor.fields = Object.keys(columns).map(name => ({
+                name,
+                type: 'unknown'
+            }));
+        });
+        request.on('row', row => cursor.push(row));
+        request.on('error', error => cursor.fail(error));
+        request.on('done', () => cursor.end());
+
+        // In stream mode errors arrive through the 'error' event
+        request.query(query, () => undefined);
+
+        return cursor;
+    }
+
+    /**
+     * Pool for a database; each pool is bound to the database it logged in to, so other databases get their own pool
+     */
+    private async getPool(database?: string): Promise<mssql.ConnectionPool> {
+        if (!database || database === this.poolConfig!.database) {
+            return this.pool!;
+        }
+
+        let pool = this.databasePools.get(database);
+        if (!pool) {
+            pool = new mssql.ConnectionPool({ ...this.poolConfig!, database }).connect();
+            this.databasePools.set(database, pool);
+            // A failed login is retried on the next call
+            pool.catch(() => this.databasePools.delete(database));
+        }
+        return pool;
+    }
+
+    /**
+     * Cancel the running request (sends a TDS attention signal)
+     */
+    public async cancel(): Promise<void> {
+        if (!this.activeRequest) {
+            return;
+        }
+
+        this.cancelRequested = true;
+        this.activeRequest.cancel();
+        Logger.info('Cancelled MSSQL request');
+    }
+
     /**
      * Get connection state
      */
@@ -250,6 +813,70 @@ export class MSSQLProvider implements IDatabaseProvider {
         return DatabaseType.MSSQL;
     }
 
+    /**
+     * CREATE INDEX from the sys.indexes/sys.index_columns rows of one index
+     */
+    private buildCreateIndex(rows: any[], tableName: string): string {
+        const keyColumns = rows.filter(row => !row.is_included_column);
+        const included = rows.filter(row => row.is_included_column);
+        let statement = `CREATE ${rows[0].is_unique ? 'UNIQUE ' : ''}${rows[0].type_desc} INDEX ${this.quoteName(rows[0].name)} ON ${tableName}`
+            + ` (${keyColumns.map(row => this.keyColumn(row)).join(', ')})`;
+        if (included.length > 0) {
+            statement += ` INCLUDE (${included.map(row => this.quoteName(row.column_name)).join(', ')})`;
+        }
+        if (rows[0].filter_definition) {
+            statement += ` WHERE ${rows[0].filter_definition}`;
+        }
+        return `${statement};`;
+    }
+
+    private keyColumn(row: { column_name: string; is_descending_key: boolean }): string {
+        return `${this.quoteName(row.column_name)}${row.is_descending_key ? ' DESC' : ''}`;
+    }
+
+    private quoteName(name: string): string {
+        return `[${name.replace(/]/g, ']]')}]`;
+    }
+
+    /**
+     * Spell a column type with its length, precision or scale as in a CREATE TABLE
+     */
+    private formatColumnType(col: { type_name: string; max_length: number; precision: number; scale: number }): string {
+        switch (col.type_name) {
+            case 'varchar':
+            case 'char':
+            case 'varbinary':
+            case 'binary':
+                return `${col.type_name}(${col.max_length === -1 ? 'max' : col.max_length})`;
+            case 'nvarchar':
+            case 'nchar':
+                // max_length is in bytes
+                return `${col.type_name}(${col.max_length === -1 ? 'max' : col.max_length / 2})`;
+            case 'decimal':
+            case 'numeric':
+                return `${col.type_name}(${col.precision}, ${col.scale})`;
+            case 'datetime2':
+            case 'datetimeoffset':
+            case 'time':
+                return `${col.type_name}(${col.scale})`;
+            case 'float':
+                return col.precision === 53 ? 'float' : `float(${col.precision})`;
+            default:
+                return col.type_name;
+        }
+    }
+
+    /**
+     * Group catalog rows by constraint or index name, keeping their order
+     */
+    private groupBy(rows: any[]): Map<string, any[]> {
+        const groups = new Map<string, any[]>();
+        for (const row of rows) {
+            groups.set(row.name, [...(groups.get(row.name) ?? []), row]);
+        }
+        return groups;
+    }
+
     /**
      * Ensure connection is active
      */
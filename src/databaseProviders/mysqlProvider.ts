@@ -1,4 +1,5 @@
 import * as mysql from 'mysql2/promise';
+import * as mysqlStream from 'mysql2';
 import {
     IDatabaseProvider,
     ConnectionConfig,
@@ -7,16 +8,31 @@ import {
     DatabaseInfo,
     TableInfo,
     ColumnInfo,
-    QueryResult
+    ForeignKeyInfo,
+    QueryResult,
+    QueryCursor,
+    TransactionResult,
+    QueryParam,
+    SqlStatement,
+    SchemaObjectType,
+    SchemaObjectInfo,
+    RoutineParameter
 } from '../types';
 import { Logger } from '../utils/logger';
+import { BufferedCursor } from '../utils/cursors';
+import { assertAffectedRows, ConcurrencyConflictError } from '../utils/concurrency';
+import { getConnectionTimeout, getQueryTimeout, QueryTimeoutError, withQueryTimeout } from '../utils/timeouts';
 
 /**
  * MySQL database provider
  */
 export class MySQLProvider implements IDatabaseProvider {
     private connection: mysql.Connection | null = null;
+    private connectionOptions: mysql.ConnectionOptions | null = null;
+    private config: ConnectionConfig | null = null;
     private state: ConnectionState = ConnectionState.Disconnected;
+    private running = false;
+    private cancelRequested = false;
 
     /**
      * Connect to MySQL database
@@ -24,17 +40,19 @@ export class MySQLProvider implements IDatabaseProvider {
     public async connect(config: ConnectionConfig, password: string): Promise<void> {
         try {
             this.state = ConnectionState.Connecting;
+            this.config = config;
 
-            this.connection = await mysql.createConnection({
+            this.connectionOptions = {
                 host: config.host,
                 port: config.port,
                 user: config.username,
                 password: password,
                 database: config.database,
                 ssl: config.ssl ? {} : undefined,
-                connectTimeout: 30000,
+                connectTimeout: getConnectionTimeout(config),
                 ...config.options
-            });
+            };
+            this.connection = await mysql.createConnection(this.connectionOptions);
 
             this.state = ConnectionState.Connected;
             Logger.info(`Connected to MySQL: ${config.host}:${config.port}`);
@@ -53,6 +71,7 @@ export class MySQLProvider implements IDatabaseProvider {
             if (this.connection) {
                 await this.connection.end();
                 this.connection = null;
+                this.connectionOptions = null;
             }
             this.state = ConnectionState.Disconnected;
             Logger.info('Disconnected from MySQL');
@@ -75,7 +94,7 @@ export class MySQLProvider implements IDatabaseProvider {
                 password: password,
                 database: config.database,
                 ssl: config.ssl ? {} : undefined,
-                connectTimeout: 10000
+                connectTimeout: getConnectionTimeout(config)
             });
             await testConnection.ping();
             await testConnection.end();
@@ -109,6 +128,13 @@ export class MySQLProvider implements IDatabaseProvider {
         }
     }
 
+    /**
+     * MySQL has no schema level; a schema is a database
+     */
+    public async getSchemas(_database: string): Promise<string[]> {
+        return [];
+    }
+
     /**
      * Get list of tables
      */
@@ -139,17 +165,25 @@ export class MySQLProvider implements IDatabaseProvider {
         this.ensureConnected();
 
         try {
-            const [rows] = await this.connection!.query<mysql.RowDataPacket[]>(
-                'SELECT * FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?',
-                [database, table]
-            );
+            // COLUMN_KEY is MUL for any non-unique index, so foreign keys come from KEY_COLUMN_USAGE
+            const [rows] = await this.connection!.query<mysql.RowDataPacket[]>(`
+                SELECT c.*, EXISTS (
+                    SELECT 1
+                    FROM information_schema.KEY_COLUMN_USAGE k
+                    WHERE k.TABLE_SCHEMA = c.TABLE_SCHEMA AND k.TABLE_NAME = c.TABLE_NAME
+                        AND k.COLUMN_NAME = c.COLUMN_NAME AND k.REFERENCED_TABLE_NAME IS NOT NULL
+                ) AS IS_FOREIGN_KEY
+                FROM information_schema.COLUMNS c
+                WHERE c.TABLE_SCHEMA = ? AND c.TABLE_NAME = ?
+                ORDER BY c.ORDINAL_POSITION
+            `, [database, table]);
 
             return rows.map(row => ({
                 name: row.COLUMN_NAME,
                 type: row.COLUMN_TYPE,
                 nullable: row.IS_NULLABLE === 'YES',
                 isPrimaryKey: row.COLUMN_KEY === 'PRI',
-                isForeignKey: row.COLUMN_KEY === 'MUL',
+                isForeignKey: row.IS_FOREIGN_KEY === 1,
                 defaultValue: row.COLUMN_DEFAULT
             }));
         } catch (error) {
@@ -158,13 +192,199 @@ export class MySQLProvider implements IDatabaseProvider {
         }
     }
 
+    /**
+     * Get foreign keys from KEY_COLUMN_USAGE, with their rules from REFERENTIAL_CONSTRAINTS
+     */
+    public async getForeignKeys(database: string, table: string): Promise<ForeignKeyInfo[]> {
+        this.ensureConnected();
+
+        try {
+            const [rows] = await this.connection!.query<mysql.RowDataPacket[]>(`
+                SELECT k.CONSTRAINT_NAME, k.COLUMN_NAME, k.REFERENCED_TABLE_SCHEMA, k.REFERENCED_TABLE_NAME,
+                    k.REFERENCED_COLUMN_NAME, r.DELETE_RULE, r.UPDATE_RULE
+                FROM information_schema.KEY_COLUMN_USAGE k
+                INNER JOIN information_schema.REFERENTIAL_CONSTRAINTS r
+                    ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+                WHERE k.TABLE_SCHEMA = ? AND k.TABLE_NAME = ? AND k.REFERENCED_TABLE_NAME IS NOT NULL
+                ORDER BY k.CONSTRAINT_NAME, k.ORDINAL_POSITION
+            `, [database, table]);
+
+            const foreignKeys = new Map<string, ForeignKeyInfo>();
+            for (const row of rows) {
+                let foreignKey = foreignKeys.get(row.CONSTRAINT_NAME);
+                if (!foreignKey) {
+                    foreignKey = {
+                        name: row.CONSTRAINT_NAME,
+                        columns: [],
+                        referencedSchema: row.REFERENCED_TABLE_SCHEMA,
+                        referencedTable: row.REFERENCED_TABLE_NAME,
+                        referencedColumns: [],
+                        onDelete: row.DELETE_RULE,
+                        onUpdate: row.UPDATE_RULE
+                    };
+                    foreignKeys.set(row.CONSTRAINT_NAME, foreignKey);
+                }
+                foreignKey.columns.push(row.COLUMN_NAME);
+                foreignKey.referencedColumns.push(row.REFERENCED_COLUMN_NAME);
+            }
+            return [...foreignKeys.values()];
+        } catch (error) {
+            Logger.error('Failed to get foreign keys', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the CREATE TABLE statement from SHOW CREATE TABLE, which includes keys, indexes and constraints
+     */
+    public async getCreateScript(database: string, table: string): Promise<string> {
+        this.ensureConnected();
+
+        try {
+            const [rows] = await this.connection!.query<mysql.RowDataPacket[]>(
+                'SHOW CREATE TABLE ??.??',
+                [database, table]
+            );
+
+            // Views report their definition as "Create View"
+            return `${rows[0]['Create Table'] ?? rows[0]['Create View']};\n`;
+        } catch (error) {
+            Logger.error('Failed to get create script', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get views, routines, triggers, sequences (MariaDB) or indexes from information_schema
+     */
+    public async getSchemaObjects(database: string, type: SchemaObjectType): Promise<SchemaObjectInfo[]> {
+        this.ensureConnected();
+
+        const queries: Record<SchemaObjectType, string> = {
+            [SchemaObjectType.View]: 'SELECT TABLE_NAME AS name FROM information_schema.VIEWS WHERE TABLE_SCHEMA = ? ORDER BY TABLE_NAME',
+            [SchemaObjectType.Procedure]: `SELECT ROUTINE_NAME AS name FROM information_schema.ROUTINES
+                WHERE ROUTINE_SCHEMA = ? AND ROUTINE_TYPE = 'PROCEDURE' ORDER BY ROUTINE_NAME`,
+            [SchemaObjectType.Function]: `SELECT ROUTINE_NAME AS name FROM information_schema.ROUTINES
+                WHERE ROUTINE_SCHEMA = ? AND ROUTINE_TYPE = 'FUNCTION' ORDER BY ROUTINE_NAME`,
+            [SchemaObjectType.Trigger]: `SELECT TRIGGER_NAME AS name, EVENT_OBJECT_TABLE AS table_name FROM information_schema.TRIGGERS
+                WHERE TRIGGER_SCHEMA = ? ORDER BY TRIGGER_NAME`,
+            [SchemaObjectType.Sequence]: `SELECT TABLE_NAME AS name FROM information_schema.TABLES
+                WHERE TABLE_SCHEMA = ? AND TABLE_TYPE = 'SEQUENCE' ORDER BY TABLE_NAME`,
+            [SchemaObjectType.Index]: `SELECT DISTINCT INDEX_NAME AS name, TABLE_NAME AS table_name FROM information_schema.STATISTICS
+                WHERE TABLE_SCHEMA = ? ORDER BY TABLE_NAME, INDEX_NAME`
+        };
+
+        try {
+            const [rows] = await this.connection!.query<mysql.RowDataPacket[]>(queries[type], [database]);
+            return rows.map(row => ({
+                name: row.name,
+                type,
+                schema: database,
+                table: row.table_name ?? undefined
+            }));
+        } catch (error) {
+            Logger.error('Failed to get schema objects', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the CREATE statement of an object from SHOW CREATE (indexes are rebuilt from information_schema)
+     */
+    public async getObjectDefinition(database: string, object: SchemaObjectInfo): Promise<string> {
+        this.ensureConnected();
+
+        try {
+            if (object.type === SchemaObjectType.Index) {
+                return await this.getIndexDefinition(database, object);
+            }
+
+            const [keyword, column] = {
+                [SchemaObjectType.View]: ['VIEW', 'Create View'],
+                [SchemaObjectType.Procedure]: ['PROCEDURE', 'Create Procedure'],
+                [SchemaObjectType.Function]: ['FUNCTION', 'Create Function'],
+                [SchemaObjectType.Trigger]: ['TRIGGER', 'SQL Original Statement'],
+                [SchemaObjectType.Sequence]: ['SEQUENCE', 'Create Table']
+            }[object.type];
+            const [rows] = await this.connection!.query<mysql.RowDataPacket[]>(
+                `SHOW CREATE ${keyword} ??.??`,
+                [database, object.name]
+            );
+            // The body is NULL when the user lacks the privileges to see it
+            const definition = rows[0]?.[column];
+            if (!definition) {
+                throw new Error(`No permission to read the definition of ${object.name}`);
+            }
+            return `${definition};\n`;
+        } catch (error) {
+            Logger.error('Failed to get object definition', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get routine parameters from information_schema.PARAMETERS
+     */
+    public async getRoutineParameters(database: string, routine: SchemaObjectInfo): Promise<RoutineParameter[]> {
+        this.ensureConnected();
+
+        try {
+            // Position 0 is a function's return value
+            const [rows] = await this.connection!.query<mysql.RowDataPacket[]>(
+                `SELECT PARAMETER_NAME, DTD_IDENTIFIER, PARAMETER_MODE FROM information_schema.PARAMETERS
+                WHERE SPECIFIC_SCHEMA = ? AND SPECIFIC_NAME = ? AND ORDINAL_POSITION > 0 ORDER BY ORDINAL_POSITION`,
+                [database, routine.name]
+            );
+            return rows.map(row => ({
+                name: row.PARAMETER_NAME,
+                type: row.DTD_IDENTIFIER,
+                mode: row.PARAMETER_MODE ?? 'IN'
+            }));
+        } catch (error) {
+            Logger.error('Failed to get routine parameters', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Rebuild CREATE INDEX (or ADD PRIMARY KEY) from information_schema.STATISTICS
+     */
+    private async getIndexDefinition(database: string, index: SchemaObjectInfo): Promise<string> {
+        const [rows] = await this.connection!.query<mysql.RowDataPacket[]>(
+            `SELECT * FROM information_schema.STATISTICS
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ? AND INDEX_NAME = ? ORDER BY SEQ_IN_INDEX`,
+            [database, index.table, index.name]
+        );
+        if (rows.length === 0) {
+            throw new Error(`Index ${index.name} not found`);
+        }
+
+        const quote = (name: string) => `\`${name.replace(/`/g, '``')}\``;
+        const tableName = `${quote(database)}.${quote(index.table!)}`;
+        const columns = rows.map(row => {
+            // Functional key parts (MySQL 8) have an expression instead of a column
+            const part = row.COLUMN_NAME ? quote(row.COLUMN_NAME) : `(${row.EXPRESSION})`;
+            return `${part}${row.SUB_PART ? `(${row.SUB_PART})` : ''}${row.COLLATION === 'D' ? ' DESC' : ''}`;
+        }).join(', ');
+
+        if (index.name === 'PRIMARY') {
+            return `ALTER TABLE ${tableName} ADD PRIMARY KEY (${columns});\n`;
+        }
+        const kind = ['FULLTEXT', 'SPATIAL'].includes(rows[0].INDEX_TYPE)
+            ? `${rows[0].INDEX_TYPE} `
+            : (Number(rows[0].NON_UNIQUE) === 0 ? 'UNIQUE ' : '');
+        return `CREATE ${kind}INDEX ${quote(index.name)} ON ${tableName} (${columns});\n`;
+    }
+
     /**
      * Execute a query
      */
-    public async executeQuery(query: string, database?: string): Promise<QueryResult> {
+    public async executeQuery(query: string, database?: string, params?: QueryParam[]): Promise<QueryResult> {
         this.ensureConnected();
 
         const startTime = Date.now();
+        this.running = true;
+        this.cancelRequested = false;
         try {
             // Switch database if specified
             if (database) {
@@ -182,7 +402,11 @@ export class MySQLProvider implements IDatabaseProvider {
                 };
             }
 
-            const [rows, fields] = await this.connection!.query(cleanedQuery);
+            const [rows, fields] = await withQueryTimeout(
+                this.connection!.query(cleanedQuery, params?.map(param => param.value)),
+                getQueryTimeout(this.config ?? undefined),
+                () => this.cancel()
+            );
             const executionTime = Date.now() - startTime;
 
             // Handle different result types
@@ -206,12 +430,147 @@ export class MySQLProvider implements IDatabaseProvider {
             }
         } catch (error) {
             const executionTime = Date.now() - startTime;
+            if (error instanceof QueryTimeoutError) {
+                Logger.warn(error.message);
+                return {
+                    rowCount: 0,
+                    executionTime,
+                    error: error.message,
+                    timedOutAfter: error.timeoutMs
+                };
+            }
+            if (this.cancelRequested) {
+                Logger.info('Query cancelled');
+                return {
+                    rowCount: 0,
+                    executionTime,
+                    error: 'Query was cancelled',
+                    cancelled: true
+                };
+            }
             Logger.error('Query execution failed', error as Error);
             return {
                 rowCount: 0,
                 executionTime,
                 error: (error as Error).message
             };
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Run statements in a transaction on the shared connection
+     */
+    public async executeTransaction(
+        statements: SqlStatement[],
+        database?: string,
+        onStatement?: (index: number) => void
+    ): Promise<TransactionResult> {
+        this.ensureConnected();
+
+        const timeout = getQueryTimeout(this.config ?? undefined);
+        let began = false;
+        let affectedRows = 0;
+        let index = 0;
+        // Marks the shared connection busy for the whole transaction so cancel() can KILL QUERY it
+        this.running = true;
+        this.cancelRequested = false;
+        try {
+            if (database) {
+                await this.connection!.query('USE ??', [database]);
+            }
+            await this.connection!.beginTransaction();
+            began = true;
+            for (; index < statements.length; index++) {
+                const statement = statements[index];
+                const [result] = await withQueryTimeout(
+                    this.connection!.query(statement.sql, statement.params?.map(param => param.value)),
+                    timeout,
+                    () => this.cancel()
+                );
+                const affected = (result as mysql.ResultSetHeader).affectedRows || 0;
+                assertAffectedRows(statement, affected);
+                affectedRows += affected;
+                onStatement?.(index);
+            }
+            // Any failure from here on is the commit itself, not a statement
+            index = -1;
+            await this.connection!.commit();
+            return { success: true, affectedRows };
+        } catch (error) {
+            if (began) {
+                await this.connection!.rollback().catch(rollbackError => Logger.error('Rollback failed', rollbackError as Error));
+            }
+            Logger.error('Transaction rolled back', error as Error);
+            return {
+                success: false,
+                affectedRows: 0,
+                failedIndex: began && index >= 0 ? index : undefined,
+                error: (error as Error).message,
+                conflict: error instanceof ConcurrencyConflictError
+            };
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Open a streaming cursor on a dedicated connection
+     * The socket is paused between pages so rows are read from the server on demand
+     */
+    public async openCursor(query: string, database?: string): Promise<QueryCursor> {
+        this.ensureConnected();
+
+        const cleanedQuery = this.cleanQuery(query);
+        if (!cleanedQuery) {
+            throw new Error('No valid SQL query found');
+        }
+
+        const streamConnection = mysqlStream.createConnection({
+            ...this.connectionOptions!,
+            database: database || this.connectionOptions!.database
+        });
+        const cursor = new BufferedCursor({
+            pause: () => streamConnection.pause(),
+            resume: () => streamConnection.resume(),
+            abort: async () => streamConnection.destroy()
+        });
+
+        streamConnection.on('error', error => cursor.fail(error));
+        streamConnection.query(cleanedQuery)
+            .on('fields', (fields: any) => {
+                cursor.fields = (fields as mysql.FieldPacket[]).map(f => ({
+                    name: f.name,
+                    type: f.type?.toString() || 'unknown'
+                }));
+            })
+            .on('result', (row: any) => cursor.push(row))
+            .on('error', error => cursor.fail(error))
+            .on('end', () => {
+                cursor.end();
+                streamConnection.end();
+            });
+
+        return cursor;
+    }
+
+    /**
+     * Cancel the running statement with KILL QUERY from a side connection
+     */
+    public async cancel(): Promise<void> {
+        if (!this.running || !this.connection || !this.connectionOptions) {
+            return;
+        }
+
+        this.cancelRequested = true;
+        const threadId = this.connection.threadId;
+        const killer = await mysql.createConnection(this.connectionOptions);
+        try {
+            await killer.query('KILL QUERY ?', [threadId]);
+            Logger.info(`Sent KILL QUERY for MySQL thread ${threadId}`);
+        } finally {
+            await killer.end();
         }
     }
 
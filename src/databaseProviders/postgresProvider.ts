@@ -1,4 +1,4 @@
-import { Pool, QueryResult as PgQueryResult } from 'pg';
+import { Pool, PoolClient, PoolConfig, QueryResult as PgQueryResult } from 'pg';
 import {
     IDatabaseProvider,
     ConnectionConfig,
@@ -7,16 +7,43 @@ import {
     DatabaseInfo,
     TableInfo,
     ColumnInfo,
-    QueryResult
+    ForeignKeyInfo,
+    QueryResult,
+    QueryCursor,
+    TransactionResult,
+    QueryParam,
+    SqlStatement,
+    SchemaObjectType,
+    SchemaObjectInfo,
+    RoutineParameter
 } from '../types';
 import { Logger } from '../utils/logger';
+import { assertAffectedRows, ConcurrencyConflictError } from '../utils/concurrency';
+import { getConnectionTimeout, getQueryTimeout, QueryTimeoutError, withQueryTimeout } from '../utils/timeouts';
+
+/**
+ * Pool client with the backend process id, which pg sets from the server's
+ * BackendKeyData but leaves out of its typings
+ */
+type BackendClient = PoolClient & { processID?: number };
+
+/**
+ * Time an open cursor may go without a fetch before its transaction is ended
+ */
+const CURSOR_IDLE_MS = 5 * 60 * 1000;
 
 /**
  * PostgreSQL database provider
  */
 export class PostgreSQLProvider implements IDatabaseProvider {
     private pool: Pool | null = null;
+    private poolConfig: PoolConfig | null = null;
+    /** Pools for the other databases of the server, opened on first use */
+    private databasePools = new Map<string, Pool>();
+    private config: ConnectionConfig | null = null;
     private state: ConnectionState = ConnectionState.Disconnected;
+    private activeClient: BackendClient | null = null;
+    private cancelRequested = false;
 
     /**
      * Connect to PostgreSQL database
@@ -24,17 +51,19 @@ export class PostgreSQLProvider implements IDatabaseProvider {
     public async connect(config: ConnectionConfig, password: string): Promise<void> {
         try {
             this.state = ConnectionState.Connecting;
+            this.config = config;
 
-            this.pool = new Pool({
+            this.poolConfig = {
                 host: config.host,
                 port: config.port,
                 user: config.username,
                 password: password,
                 database: config.database || 'postgres',
                 ssl: config.ssl ? { rejectUnauthorized: false } : undefined,
-                connectionTimeoutMillis: 30000,
+                connectionTimeoutMillis: getConnectionTimeout(config),
                 ...config.options
-            });
+            };
+            this.pool = new Pool(this.poolConfig);
 
             // Test connection
             const client = await this.pool.connect();
@@ -54,6 +83,9 @@ export class PostgreSQLProvider implements IDatabaseProvider {
      */
     public async disconnect(): Promise<void> {
         try {
+            const pools = [...this.databasePools.values()];
+            this.databasePools.clear();
+            await Promise.all(pools.map(pool => pool.end()));
             if (this.pool) {
                 await this.pool.end();
                 this.pool = null;
@@ -79,7 +111,7 @@ export class PostgreSQLProvider implements IDatabaseProvider {
                 password: password,
                 database: config.database || 'postgres',
                 ssl: config.ssl ? { rejectUnauthorized: false } : undefined,
-                connectionTimeoutMillis: 10000
+                connectionTimeoutMillis: getConnectionTimeout(config)
             });
 
             const client = await testPool.connect();
@@ -116,20 +148,20 @@ export class PostgreSQLProvider implements IDatabaseProvider {
     }
 
     /**
-     * Get list of tables
+     * Get list of tables of a database, in every non-system schema
      */
-    public async getTables(_database: string): Promise<TableInfo[]> {
+    public async getTables(database: string): Promise<TableInfo[]> {
         this.ensureConnected();
 
         try {
             // Simple query without row count to avoid circular reference
-            const result = await this.pool!.query(`
+            const result = await this.getPool(database).query(`
                 SELECT
                     schemaname as schema,
                     tablename as name
                 FROM pg_tables
                 WHERE schemaname NOT IN ('pg_catalog', 'information_schema')
-                ORDER BY tablename
+                ORDER BY schemaname, tablename
             `);
 
             return result.rows.map((row: { name: string; schema: string }) => ({
@@ -142,14 +174,36 @@ export class PostgreSQLProvider implements IDatabaseProvider {
         }
     }
 
+    /**
+     * Get the non-system schemas of a database
+     */
+    public async getSchemas(database: string): Promise<string[]> {
+        this.ensureConnected();
+
+        try {
+            const result = await this.getPool(database).query(`
+                SELECT nspname AS name
+                FROM pg_namespace
+                WHERE nspname NOT IN ('pg_catalog', 'information_schema') AND nspname NOT LIKE 'pg_toast%' AND nspname NOT LIKE 'pg_temp_%'
+                ORDER BY nspname
+            `);
+
+            return result.rows.map((row: { name: string }) => row.name);
+        } catch (error) {
+            Logger.error('Failed to get schemas', error as Error);
+            throw error;
+        }
+    }
+
     /**
      * Get columns for a table
      */
-    public async getColumns(_database: string, table: string): Promise<ColumnInfo[]> {
+    public async getColumns(database: string, table: string, schema?: string): Promise<ColumnInfo[]> {
         this.ensureConnected();
 
         try {
-            const result = await this.pool!.query(`
+            // Without a schema the table is looked up like an unqualified name, in the first schema of the search path
+            const result = await this.getPool(database).query(`
                 SELECT
                     c.column_name,
                     c.data_type,
@@ -168,21 +222,21 @@ export class PostgreSQLProvider implements IDatabaseProvider {
                     SELECT ku.column_name
                     FROM information_schema.table_constraints tc
                     JOIN information_schema.key_column_usage ku
-                        ON tc.constraint_name = ku.constraint_name
+                        ON tc.constraint_name = ku.constraint_name AND tc.constraint_schema = ku.constraint_schema
                     WHERE tc.constraint_type = 'PRIMARY KEY'
-                        AND tc.table_name = $1
+                        AND tc.table_name = $1 AND tc.table_schema = COALESCE($2, current_schema())
                 ) pk ON c.column_name = pk.column_name
                 LEFT JOIN (
-                    SELECT ku.column_name
+                    SELECT DISTINCT ku.column_name
                     FROM information_schema.table_constraints tc
                     JOIN information_schema.key_column_usage ku
-                        ON tc.constraint_name = ku.constraint_name
+                        ON tc.constraint_name = ku.constraint_name AND tc.constraint_schema = ku.constraint_schema
                     WHERE tc.constraint_type = 'FOREIGN KEY'
-                        AND tc.table_name = $1
+                        AND tc.table_name = $1 AND tc.table_schema = COALESCE($2, current_schema())
                 ) fk ON c.column_name = fk.column_name
-                WHERE c.table_name = $1
+                WHERE c.table_name = $1 AND c.table_schema = COALESCE($2, current_schema())
                 ORDER BY c.ordinal_position
-            `, [table]);
+            `, [table, schema ?? null]);
 
             return result.rows.map((row: { column_name: string; data_type: string; is_nullable: string; is_primary_key: boolean; is_foreign_key: boolean; column_default: string }) => ({
                 name: row.column_name,
@@ -198,15 +252,307 @@ export class PostgreSQLProvider implements IDatabaseProvider {
         }
     }
 
+    /**
+     * Get foreign keys from pg_constraint; key columns are listed in constraint order
+     */
+    public async getForeignKeys(database: string, table: string, schema?: string): Promise<ForeignKeyInfo[]> {
+        this.ensureConnected();
+
+        const columnNames = (keys: string, relation: string) => `ARRAY(
+                    SELECT a.attname::text
+                    FROM unnest(${keys}) WITH ORDINALITY k(attnum, position)
+                    JOIN pg_attribute a ON a.attrelid = ${relation} AND a.attnum = k.attnum
+                    ORDER BY k.position
+                )`;
+        // confdeltype / confupdtype codes
+        const actions: Record<string, string> = { a: 'NO ACTION', r: 'RESTRICT', c: 'CASCADE', n: 'SET NULL', d: 'SET DEFAULT' };
+        try {
+            const result = await this.getPool(database).query(`
+                SELECT con.conname AS name, rn.nspname AS referenced_schema, rc.relname AS referenced_table,
+                    con.confdeltype AS on_delete, con.confupdtype AS on_update,
+                    ${columnNames('con.conkey', 'con.conrelid')} AS columns,
+                    ${columnNames('con.confkey', 'con.confrelid')} AS referenced_columns
+                FROM pg_constraint con
+                JOIN pg_class c ON c.oid = con.conrelid
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                JOIN pg_class rc ON rc.oid = con.confrelid
+                JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+                WHERE con.contype = 'f' AND c.relname = $1 AND n.nspname = COALESCE($2, current_schema())
+                ORDER BY con.conname
+            `, [table, schema ?? null]);
+
+            return result.rows.map((row: { name: string; referenced_schema: string; referenced_table: string; on_delete: string; on_update: string; columns: string[]; referenced_columns: string[] }) => ({
+                name: row.name,
+                columns: row.columns,
+                referencedSchema: row.referenced_schema,
+                referencedTable: row.referenced_table,
+                referencedColumns: row.referenced_columns,
+                onDelete: actions[row.on_delete] ?? 'NO ACTION',
+                onUpdate: actions[row.on_update] ?? 'NO ACTION'
+            }));
+        } catch (error) {
+            Logger.error('Failed to get foreign keys', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Build the CREATE TABLE script from the catalog
+     * Constraints come from pg_get_constraintdef and indexes from pg_get_indexdef; comments are appended
+     */
+    public async getCreateScript(database: string, table: string, schema = 'public'): Promise<string> {
+        this.ensureConnected();
+
+        try {
+            const tableResult = await this.getPool(database).query(`
+                SELECT c.oid, quote_ident(n.nspname) || '.' || quote_ident(c.relname) AS qualified_name,
+                    obj_description(c.oid, 'pg_class') AS comment
+                FROM pg_class c
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                WHERE n.nspname = $1 AND c.relname = $2
+            `, [schema, table]);
+            if (tableResult.rows.length === 0) {
+                throw new Error(`Table ${schema}.${table} not found`);
+            }
+            const { oid, qualified_name: tableName, comment } = tableResult.rows[0];
+
+            const columns = await this.getPool(database).query(`
+                SELECT quote_ident(a.attname) AS name,
+                    format_type(a.atttypid, a.atttypmod) AS type,
+                    a.attnotnull AS not_null,
+                    pg_get_expr(d.adbin, d.adrelid) AS default_value,
+                    a.attidentity AS identity,
+                    a.attgenerated AS generated,
+                    col_description(a.attrelid, a.attnum) AS comment
+                FROM pg_attribute a
+                LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+                WHERE a.attrelid = $1 AND a.attnum > 0 AND NOT a.attisdropped
+                ORDER BY a.attnum
+            `, [oid]);
+            // NOT NULL is part of the column definitions (PostgreSQL 18 also lists it as a constraint)
+            const constraints = await this.getPool(database).query(`
+                SELECT quote_ident(conname) AS name, pg_get_constraintdef(oid, true) AS definition
+                FROM pg_constraint
+                WHERE conrelid = $1 AND contype <> 'n'
+                ORDER BY CASE contype WHEN 'p' THEN 0 WHEN 'u' THEN 1 WHEN 'f' THEN 2 ELSE 3 END, conname
+            `, [oid]);
+            // Indexes that back a constraint are created by it
+            const indexes = await this.getPool(database).query(`
+                SELECT pg_get_indexdef(i.indexrelid) AS definition
+                FROM pg_index i
+                WHERE i.indrelid = $1
+                    AND NOT EXISTS (SELECT 1 FROM pg_constraint c WHERE c.conrelid = i.indrelid AND c.conindid = i.indexrelid)
+                ORDER BY i.indexrelid::regclass::text
+            `, [oid]);
+
+            const definitions = columns.rows.map((col: { name: string; type: string; not_null: boolean; default_value: string | null; identity: string; generated: string }) => {
+                let definition = `    ${col.name} ${col.type}`;
+                if (col.generated === 's' || col.generated === 'v') {
+                    definition += ` GENERATED ALWAYS AS (${col.default_value}) ${col.generated === 's' ? 'STORED' : 'VIRTUAL'}`;
+                } else if (col.identity) {
+                    definition += ` GENERATED ${col.identity === 'a' ? 'ALWAYS' : 'BY DEFAULT'} AS IDENTITY`;
+                } else if (col.default_value !== null) {
+                    definition += ` DEFAULT ${col.default_value}`;
+                }
+                return col.not_null ? `${definition} NOT NULL` : definition;
+            });
+            for (const constraint of constraints.rows as { name: string; definition: string }[]) {
+                definitions.push(`    CONSTRAINT ${constraint.name} ${constraint.definition}`);
+            }
+
+            const statements = [`CREATE TABLE ${tableName} (\n${definitions.join(',\n')}\n);`];
+            for (const index of indexes.rows as { definition: string }[]) {
+                statements.push(`${index.definition};`);
+            }
+            const quoteLiteral = (text: string) => `'${text.replace(/'/g, "''")}'`;
+            if (comment) {
+                statements.push(`COMMENT ON TABLE ${tableName} IS ${quoteLiteral(comment)};`);
+            }
+            for (const col of columns.rows as { name: string; comment: string | null }[]) {
+                if (col.comment) {
+                    statements.push(`COMMENT ON COLUMN ${tableName}.${col.name} IS ${quoteLiteral(col.comment)};`);
+                }
+            }
+
+            return `${statements.join('\n\n')}\n`;
+        } catch (error) {
+            Logger.error('Failed to get create script', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get views, routines, triggers, sequences or indexes from the catalog
+     * Objects in system schemas and objects that belong to an extension are left out
+     */
+    public async getSchemaObjects(database: string, type: SchemaObjectType): Promise<SchemaObjectInfo[]> {
+        this.ensureConnected();
+
+        const userSchema = (column: string) => `${column} NOT IN ('pg_catalog', 'information_schema') AND ${column} NOT LIKE 'pg_toast%'`;
+        const notExtension = (oid: string) => `NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = ${oid} AND d.deptype = 'e')`;
+        const queries: Record<SchemaObjectType, string> = {
+            [SchemaObjectType.View]: `
+                SELECT schemaname AS schema, viewname AS name
+                FROM pg_views
+                WHERE ${userSchema('schemaname')}
+                ORDER BY viewname`,
+            [SchemaObjectType.Procedure]: `
+                SELECT n.nspname AS schema, p.proname AS name, pg_get_function_identity_arguments(p.oid) AS signature
+                FROM pg_proc p
+                JOIN pg_namespace n ON n.oid = p.pronamespace
+                WHERE ${userSchema('n.nspname')} AND p.prokind = 'p' AND ${notExtension('p.oid')}
+                ORDER BY p.proname, signature`,
+            [SchemaObjectType.Function]: `
+                SELECT n.nspname AS schema, p.proname AS name, pg_get_function_identity_arguments(p.oid) AS signature
+                FROM pg_proc p
+                JOIN pg_namespace n ON n.oid = p.pronamespace
+                WHERE ${userSchema('n.nspname')} AND p.prokind = 'f' AND ${notExtension('p.oid')}
+                ORDER BY p.proname, signature`,
+            [SchemaObjectType.Trigger]: `
+                SELECT n.nspname AS schema, t.tgname AS name, c.relname AS table_name
+                FROM pg_trigger t
+                JOIN pg_class c ON c.oid = t.tgrelid
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                WHERE NOT t.tgisinternal AND ${userSchema('n.nspname')}
+                ORDER BY t.tgname`,
+            [SchemaObjectType.Sequence]: `
+                SELECT schemaname AS schema, sequencename AS name
+                FROM pg_sequences
+                WHERE ${userSchema('schemaname')}
+                ORDER BY sequencename`,
+            [SchemaObjectType.Index]: `
+                SELECT schemaname AS schema, indexname AS name, tablename AS table_name
+                FROM pg_indexes
+                WHERE ${userSchema('schemaname')}
+                ORDER BY tablename, indexname`
+        };
+
+        try {
+            const result = await this.getPool(database).query(queries[type]);
+            return result.rows.map((row: { schema: string; name: string; table_name?: string; signature?: string }) => ({
+                name: row.name,
+                type,
+                schema: row.schema,
+                table: row.table_name,
+                signature: row.signature
+            }));
+        } catch (error) {
+            Logger.error('Failed to get schema objects', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the CREATE statement of an object through pg_get_viewdef, pg_get_functiondef,
+     * pg_get_triggerdef and pg_indexes; sequences are rebuilt from pg_sequences
+     */
+    public async getObjectDefinition(database: string, object: SchemaObjectInfo): Promise<string> {
+        this.ensureConnected();
+
+        const schema = object.schema || 'public';
+        try {
+            let rows: any[];
+            switch (object.type) {
+                case SchemaObjectType.View:
+                    rows = (await this.getPool(database).query(`
+                        SELECT 'CREATE VIEW ' || quote_ident($1) || '.' || quote_ident($2) || E' AS\n'
+                            || pg_get_viewdef(format('%I.%I', $1, $2)::regclass, true) AS definition
+                    `, [schema, object.name])).rows;
+                    break;
+                case SchemaObjectType.Procedure:
+                case SchemaObjectType.Function:
+                    rows = (await this.getPool(database).query(`
+                        SELECT pg_get_functiondef(p.oid) AS definition
+                        FROM pg_proc p
+                        JOIN pg_namespace n ON n.oid = p.pronamespace
+                        WHERE n.nspname = $1 AND p.proname = $2 AND pg_get_function_identity_arguments(p.oid) = $3
+                    `, [schema, object.name, object.signature ?? ''])).rows;
+                    break;
+                case SchemaObjectType.Trigger:
+                    rows = (await this.getPool(database).query(`
+                        SELECT pg_get_triggerdef(t.oid, true) AS definition
+                        FROM pg_trigger t
+                        JOIN pg_class c ON c.oid = t.tgrelid
+                        JOIN pg_namespace n ON n.oid = c.relnamespace
+                        WHERE n.nspname = $1 AND c.relname = $2 AND t.tgname = $3
+                    `, [schema, object.table, object.name])).rows;
+                    break;
+                case SchemaObjectType.Sequence:
+                    rows = (await this.getPool(database).query(`
+                        SELECT 'CREATE SEQUENCE ' || quote_ident(schemaname) || '.' || quote_ident(sequencename)
+                            || ' AS ' || data_type::text
+                            || ' INCREMENT BY ' || increment_by
+                            || ' MINVALUE ' || min_value || ' MAXVALUE ' || max_value
+                            || ' START WITH ' || start_value || ' CACHE ' || cache_size
+                            || CASE WHEN cycle THEN ' CYCLE' ELSE ' NO CYCLE' END AS definition
+                        FROM pg_sequences
+                        WHERE schemaname = $1 AND sequencename = $2
+                    `, [schema, object.name])).rows;
+                    break;
+                case SchemaObjectType.Index:
+                    rows = (await this.getPool(database).query(
+                        'SELECT indexdef AS definition FROM pg_indexes WHERE schemaname = $1 AND indexname = $2',
+                        [schema, object.name]
+                    )).rows;
+                    break;
+            }
+            if (rows.length === 0) {
+                throw new Error(`${object.name} not found`);
+            }
+
+            // pg_get_functiondef ends without a semicolon but with a newline
+            return `${rows[0].definition.trimEnd()};\n`;
+        } catch (error) {
+            Logger.error('Failed to get object definition', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get routine parameters from information_schema.parameters
+     */
+    public async getRoutineParameters(database: string, routine: SchemaObjectInfo): Promise<RoutineParameter[]> {
+        this.ensureConnected();
+
+        try {
+            // information_schema names a routine <name>_<oid>, which tells overloads apart
+            const result = await this.getPool(database).query(`
+                SELECT COALESCE(pa.parameter_name, '$' || pa.ordinal_position) AS name, pa.data_type AS type, pa.parameter_mode AS mode
+                FROM information_schema.parameters pa
+                WHERE pa.specific_schema = $1 AND pa.specific_name = (
+                    SELECT p.proname || '_' || p.oid
+                    FROM pg_proc p
+                    JOIN pg_namespace n ON n.oid = p.pronamespace
+                    WHERE n.nspname = $1 AND p.proname = $2 AND pg_get_function_identity_arguments(p.oid) = $3
+                )
+                ORDER BY pa.ordinal_position
+            `, [routine.schema || 'public', routine.name, routine.signature ?? '']);
+
+            return result.rows.map((row: { name: string; type: string; mode: RoutineParameter['mode'] }) => ({
+                name: row.name,
+                type: row.type,
+                mode: row.mode
+            }));
+        } catch (error) {
+            Logger.error('Failed to get routine parameters', error as Error);
+            throw error;
+        }
+    }
+
     /**
      * Execute a query
      */
-    public async executeQuery(query: string, _database?: string): Promise<QueryResult> {
+    public async executeQuery(query: string, database?: string, params?: QueryParam[]): Promise<QueryResult> {
         this.ensureConnected();
 
         const startTime = Date.now();
+        this.cancelRequested = false;
         try {
-            const result: PgQueryResult = await this.pool!.query(query);
+            const result = await withQueryTimeout(
+                this.runOnDedicatedClient(query, params?.map(param => this.toPgValue(param)), database),
+                getQueryTimeout(this.config ?? undefined),
+                () => this.cancel()
+            );
             const executionTime = Date.now() - startTime;
 
             return {
@@ -220,6 +566,24 @@ export class PostgreSQLProvider implements IDatabaseProvider {
             };
         } catch (error) {
             const executionTime = Date.now() - startTime;
+            if (error instanceof QueryTimeoutError) {
+                Logger.warn(error.message);
+                return {
+                    rowCount: 0,
+                    executionTime,
+                    error: error.message,
+                    timedOutAfter: error.timeoutMs
+                };
+            }
+            if (this.cancelRequested) {
+                Logger.info('Query cancelled');
+                return {
+                    rowCount: 0,
+                    executionTime,
+                    error: 'Query was cancelled',
+                    cancelled: true
+                };
+            }
             Logger.error('Query execution failed', error as Error);
             return {
                 rowCount: 0,
@@ -229,6 +593,215 @@ export class PostgreSQLProvider implements IDatabaseProvider {
         }
     }
 
+    /**
+     * Run statements in a transaction on a dedicated client
+     */
+    public async executeTransaction(
+        statements: SqlStatement[],
+        database?: string,
+        onStatement?: (index: number) => void
+    ): Promise<TransactionResult> {
+        this.ensureConnected();
+
+        const timeout = getQueryTimeout(this.config ?? undefined);
+        let client: BackendClient | undefined;
+        let affectedRows = 0;
+        let index = 0;
+        this.cancelRequested = false;
+        try {
+            client = await this.getPool(database).connect();
+            // Registered for the whole transaction so cancel() stops whichever statement is running
+            this.activeClient = client;
+            await client.query('BEGIN');
+            for (; index < statements.length; index++) {
+                const statement = statements[index];
+                const result = await withQueryTimeout(
+                    client.query(statement.sql, statement.params?.map(param => this.toPgValue(param))),
+                    timeout,
+                    () => this.cancel()
+                );
+                assertAffectedRows(statement, result.rowCount || 0);
+                affectedRows += result.rowCount || 0;
+                onStatement?.(index);
+            }
+            // Any failure from here on is the commit itself, not a statement
+            index = -1;
+            await client.query('COMMIT');
+            return { success: true, affectedRows };
+        } catch (error) {
+            await client?.query('ROLLBACK').catch(rollbackError => Logger.error('Rollback failed', rollbackError as Error));
+            Logger.error('Transaction rolled back', error as Error);
+            return {
+                success: false,
+                affectedRows: 0,
+                failedIndex: index >= 0 ? index : undefined,
+                error: (error as Error).message,
+                conflict: error instanceof ConcurrencyConflictError
+            };
+        } finally {
+            this.activeClient = null;
+            client?.release();
+        }
+    }
+
+    /**
+     * Open a server-side cursor (DECLARE ... CURSOR) inside a transaction on a dedicated client
+     *
+     * Rows are produced as they are fetched, so a page of a huge result costs only that page.
+     * The transaction stays open while the rows are paged through; it is ended by close(),
+     * or after CURSOR_IDLE_MS without a fetch so an abandoned result does not hold the session.
+     */
+    public async openCursor(query: string, database?: string): Promise<QueryCursor> {
+        this.ensureConnected();
+
+        const client: BackendClient = await this.getPool(database).connect();
+        const cursorName = `dbconnector_cursor_${Date.now()}`;
+        this.activeClient = client;
+        try {
+            await withQueryTimeout(
+                client.query('BEGIN').then(() => client.query(`DECLARE ${cursorName} NO SCROLL CURSOR FOR ${query}`)),
+                getQueryTimeout(this.config ?? undefined),
+                () => this.cancel()
+            );
+        } catch (error) {
+            await client.query('ROLLBACK').catch(() => undefined);
+            client.release();
+            throw error;
+        } finally {
+            this.activeClient = null;
+        }
+
+        let done = false;
+        let closed = false;
+        let idleClosed = false;
+        let pending: Promise<PgQueryResult> | null = null;
+        let idleTimer: NodeJS.Timeout | undefined;
+        const cursor: QueryCursor = {
+            fetch: async (count: number) => {
+                if (idleClosed) {
+                    throw new Error(`The result was closed after ${CURSOR_IDLE_MS / 60000} minutes without loading rows; run the query again`);
+                }
+                if (done) {
+                    return [];
+                }
+                clearTimeout(idleTimer);
+                this.activeClient = client;
+                let result: PgQueryResult;
+                try {
+                    pending = client.query(`FETCH FORWARD ${count} FROM ${cursorName}`);
+                    result = await pending;
+                } finally {
+                    pending = null;
+                    this.activeClient = null;
+                }
+                cursor.fields = result.fields?.map(f => ({
+                    name: f.name,
+                    type: f.dataTypeID?.toString() || 'unknown'
+                }));
+                done = result.rows.length < count;
+                if (!done && !closed) {
+                    idleTimer = setTimeout(() => {
+                        idleClosed = true;
+                        cursor.close().catch(error => Logger.error('Failed to close idle cursor', error as Error));
+                    }, CURSOR_IDLE_MS);
+                }
+                return result.rows;
+            },
+            isDone: () => done,
+            close: async () => {
+                if (closed) {
+                    return;
+                }
+                closed = true;
+                done = true;
+                clearTimeout(idleTimer);
+                if (pending) {
+                    // Closed while a fetch is running (e.g. on timeout): stop it before ending the transaction
+                    const fetching: Promise<unknown> = pending;
+                    await this.cancelBackend(client).catch(error => Logger.error('Failed to cancel cursor fetch', error as Error));
+                    await fetching.catch(() => undefined);
+                }
+                try {
+                    // Ends the transaction, which also drops the cursor; after a cancelled fetch it is a rollback
+                    await client.query('COMMIT');
+                    client.release();
+                } catch (error) {
+                    // Discard the client rather than pool a session that may still be in the transaction
+                    client.release(error as Error);
+                    throw error;
+                }
+            }
+        };
+
+        return cursor;
+    }
+
+    /**
+     * Convert a bound parameter to the value node-postgres should send
+     * JSON columns get serialized text, since pg would send JS arrays as Postgres arrays
+     */
+    private toPgValue(param: QueryParam): any {
+        const isJson = /^jsonb?$/i.test(param.type || '');
+        if (isJson && param.value !== null && typeof param.value === 'object' && !Buffer.isBuffer(param.value)) {
+            return JSON.stringify(param.value);
+        }
+        return param.value;
+    }
+
+    /**
+     * Run a statement on a dedicated pool client so its backend can be cancelled
+     */
+    private async runOnDedicatedClient(query: string, values?: any[], database?: string): Promise<PgQueryResult> {
+        const client = await this.getPool(database).connect();
+        this.activeClient = client;
+        try {
+            return await client.query(query, values);
+        } finally {
+            this.activeClient = null;
+            client.release();
+        }
+    }
+
+    /**
+     * Pool for a database; a PostgreSQL session is bound to one database, so each other database gets its own pool
+     */
+    private getPool(database?: string): Pool {
+        if (!database || database === this.poolConfig!.database) {
+            return this.pool!;
+        }
+
+        let pool = this.databasePools.get(database);
+        if (!pool) {
+            pool = new Pool({ ...this.poolConfig!, database });
+            this.databasePools.set(database, pool);
+        }
+        return pool;
+    }
+
+    /**
+     * Cancel the running statement with pg_cancel_backend
+     */
+    public async cancel(): Promise<void> {
+        // Also set between statements of a batch, when no statement is running
+        this.cancelRequested = true;
+        if (this.activeClient) {
+            await this.cancelBackend(this.activeClient);
+        }
+    }
+
+    /**
+     * Cancel whatever a client's backend is running with pg_cancel_backend
+     */
+    private async cancelBackend(client: BackendClient): Promise<void> {
+        const pid = client.processID;
+        if (!this.pool || !pid) {
+            return;
+        }
+
+        await this.pool.query('SELECT pg_cancel_backend($1)', [pid]);
+        Logger.info(`Sent pg_cancel_backend for PostgreSQL backend ${pid}`);
+    }
+
     /**
      * Get connection state
      */
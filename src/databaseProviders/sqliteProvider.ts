@@ -0,0 +1,620 @@
+import * as fs from 'fs';
+import type * as sqlite3 from 'sqlite3';
+import {
+    IDatabaseProvider,
+    ConnectionConfig,
+    ConnectionState,
+    DatabaseType,
+    DatabaseInfo,
+    TableInfo,
+    ColumnInfo,
+    ForeignKeyInfo,
+    QueryResult,
+    QueryCursor,
+    TransactionResult,
+    QueryParam,
+    SqlStatement,
+    SchemaObjectType,
+    SchemaObjectInfo,
+    RoutineParameter
+} from '../types';
+import { Logger } from '../utils/logger';
+import { assertAffectedRows, ConcurrencyConflictError } from '../utils/concurrency';
+import { getConnectionTimeout, getQueryTimeout, QueryTimeoutError, withQueryTimeout } from '../utils/timeouts';
+
+let driverLoad: Promise<typeof sqlite3> | undefined;
+
+/**
+ * Load the sqlite3 native binding on first use, so a missing or incompatible binary
+ * only breaks SQLite connections instead of the whole extension
+ */
+function loadDriver(): Promise<typeof sqlite3> {
+    if (!driverLoad) {
+        driverLoad = import('sqlite3').catch(error => {
+            driverLoad = undefined;
+            throw new Error(`The SQLite driver (sqlite3) could not be loaded: ${(error as Error).message}. Reinstall the extension to restore it.`);
+        });
+    }
+    return driverLoad;
+}
+
+/**
+ * SQLite database provider
+ * Connects to a database file instead of host/port
+ */
+export class SQLiteProvider implements IDatabaseProvider {
+    private db: sqlite3.Database | null = null;
+    private config: ConnectionConfig | null = null;
+    private state: ConnectionState = ConnectionState.Disconnected;
+    private running = false;
+    private cancelRequested = false;
+
+    /**
+     * Open the SQLite database file
+     */
+    public async connect(config: ConnectionConfig, _password: string): Promise<void> {
+        try {
+            this.state = ConnectionState.Connecting;
+            this.config = config;
+
+            // Never create the file here: a mistyped path would silently open an empty database.
+            // New database files are created when the connection is added.
+            this.db = await this.openDatabase(config, (await loadDriver()).OPEN_READWRITE);
+            // Wait for locks held by other processes up to the connection timeout
+            this.db.configure('busyTimeout', getConnectionTimeout(config));
+            await this.run('PRAGMA foreign_keys = ON');
+
+            this.state = ConnectionState.Connected;
+            Logger.info(`Connected to SQLite: ${config.filePath}`);
+        } catch (error) {
+            this.state = ConnectionState.Error;
+            this.db = null;
+            Logger.error('SQLite connection failed', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Close the SQLite database file
+     */
+    public async disconnect(): Promise<void> {
+        try {
+            if (this.db) {
+                const db = this.db;
+                this.db = null;
+                await new Promise<void>((resolve, reject) => db.close(err => (err ? reject(err) : resolve())));
+            }
+            this.state = ConnectionState.Disconnected;
+            Logger.info('Disconnected from SQLite');
+        } catch (error) {
+            Logger.error('SQLite disconnect failed', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Test that the database file can be opened and read
+     */
+    public async testConnection(config: ConnectionConfig, _password: string): Promise<boolean> {
+        let testDb: sqlite3.Database | null = null;
+        try {
+            testDb = await this.openDatabase(config, (await loadDriver()).OPEN_READONLY);
+            await new Promise<void>((resolve, reject) => testDb!.get('SELECT count(*) FROM sqlite_master', err => (err ? reject(err) : resolve())));
+            return true;
+        } catch (error) {
+            Logger.error('SQLite connection test failed', error as Error);
+            return false;
+        } finally {
+            testDb?.close();
+        }
+    }
+
+    /**
+     * Get list of databases (main plus any attached databases)
+     */
+    public async getDatabases(): Promise<DatabaseInfo[]> {
+        this.ensureConnected();
+
+        try {
+            const rows = await this.all<{ name: string }>('PRAGMA database_list');
+            return rows.filter(row => row.name !== 'temp').map(row => ({
+                name: row.name
+            }));
+        } catch (error) {
+            Logger.error('Failed to get databases', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * SQLite has no schema level within a database
+     */
+    public async getSchemas(_database: string): Promise<string[]> {
+        return [];
+    }
+
+    /**
+     * Get list of tables
+     */
+    public async getTables(database: string): Promise<TableInfo[]> {
+        this.ensureConnected();
+
+        try {
+            const rows = await this.all<{ name: string }>(`
+                SELECT name
+                FROM ${this.quoteIdentifier(database || 'main')}.sqlite_master
+                WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+                ORDER BY name
+            `);
+
+            return rows.map(row => ({
+                name: row.name,
+                schema: database || 'main'
+            }));
+        } catch (error) {
+            Logger.error('Failed to get tables', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get columns for a table using PRAGMA table_info and foreign_key_list
+     */
+    public async getColumns(database: string, table: string): Promise<ColumnInfo[]> {
+        this.ensureConnected();
+
+        try {
+            const schema = this.quoteIdentifier(database || 'main');
+            const tableName = this.quoteIdentifier(table);
+
+            const columns = await this.all<{ name: string; type: string; notnull: number; dflt_value: string | null; pk: number }>(
+                `PRAGMA ${schema}.table_info(${tableName})`
+            );
+            const foreignKeys = await this.all<{ from: string }>(
+                `PRAGMA ${schema}.foreign_key_list(${tableName})`
+            );
+            const foreignKeyColumns = new Set(foreignKeys.map(fk => fk.from));
+
+            return columns.map(col => ({
+                name: col.name,
+                type: col.type || 'ANY',
+                nullable: col.notnull === 0 && col.pk === 0,
+                isPrimaryKey: col.pk > 0,
+                isForeignKey: foreignKeyColumns.has(col.name),
+                defaultValue: col.dflt_value ?? undefined
+            }));
+        } catch (error) {
+            Logger.error('Failed to get columns', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get foreign keys with PRAGMA foreign_key_list
+     * A reference without columns points at the primary key of the referenced table
+     */
+    public async getForeignKeys(database: string, table: string): Promise<ForeignKeyInfo[]> {
+        this.ensureConnected();
+
+        try {
+            const schema = this.quoteIdentifier(database || 'main');
+            const rows = await this.all<{ id: number; table: string; from: string; to: string | null; on_update: string; on_delete: string }>(
+                `PRAGMA ${schema}.foreign_key_list(${this.quoteIdentifier(table)})`
+            );
+
+            const foreignKeys = new Map<number, ForeignKeyInfo>();
+            for (const row of rows) {
+                let foreignKey = foreignKeys.get(row.id);
+                if (!foreignKey) {
+                    // The pragma does not report constraint names; the id tells the constraints apart
+                    foreignKey = {
+                        name: `fk_${table}_${row.id}`,
+                        columns: [],
+                        referencedTable: row.table,
+                        referencedColumns: [],
+                        onDelete: row.on_delete,
+                        onUpdate: row.on_update
+                    };
+                    foreignKeys.set(row.id, foreignKey);
+                }
+                foreignKey.columns.push(row.from);
+                if (row.to) {
+                    foreignKey.referencedColumns.push(row.to);
+                }
+            }
+
+            for (const foreignKey of foreignKeys.values()) {
+                if (foreignKey.referencedColumns.length === 0) {
+                    const columns = await this.all<{ name: string; pk: number }>(
+                        `PRAGMA ${schema}.table_info(${this.quoteIdentifier(foreignKey.referencedTable)})`
+                    );
+                    foreignKey.referencedColumns = columns
+                        .filter(column => column.pk > 0)
+                        .sort((a, b) => a.pk - b.pk)
+                        .map(column => column.name);
+                }
+            }
+            return [...foreignKeys.values()];
+        } catch (error) {
+            Logger.error('Failed to get foreign keys', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the stored CREATE statements of a table, its indexes and its triggers
+     */
+    public async getCreateScript(database: string, table: string): Promise<string> {
+        this.ensureConnected();
+
+        try {
+            const rows = await this.all<{ sql: string }>(`
+                SELECT sql
+                FROM ${this.quoteIdentifier(database || 'main')}.sqlite_master
+                WHERE tbl_name = ? AND sql IS NOT NULL
+                ORDER BY CASE type WHEN 'table' THEN 0 WHEN 'index' THEN 1 ELSE 2 END, name
+            `, [table]);
+            if (rows.length === 0) {
+                throw new Error(`Table ${table} not found`);
+            }
+
+            return rows.map(row => `${row.sql};\n`).join('\n');
+        } catch (error) {
+            Logger.error('Failed to get create script', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get views, triggers or indexes from sqlite_master; SQLite has no routines or sequences
+     */
+    public async getSchemaObjects(database: string, type: SchemaObjectType): Promise<SchemaObjectInfo[]> {
+        this.ensureConnected();
+
+        if (![SchemaObjectType.View, SchemaObjectType.Trigger, SchemaObjectType.Index].includes(type)) {
+            return [];
+        }
+
+        try {
+            // Automatic indexes (UNIQUE and PRIMARY KEY constraints) have no sql and are part of the table
+            const rows = await this.all<{ name: string; tbl_name: string }>(`
+                SELECT name, tbl_name
+                FROM ${this.quoteIdentifier(database || 'main')}.sqlite_master
+                WHERE type = ? AND sql IS NOT NULL
+                ORDER BY name
+            `, [type]);
+
+            return rows.map(row => ({
+                name: row.name,
+                type,
+                table: type === SchemaObjectType.View ? undefined : row.tbl_name
+            }));
+        } catch (error) {
+            Logger.error('Failed to get schema objects', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the stored CREATE statement of a view, trigger or index
+     */
+    public async getObjectDefinition(database: string, object: SchemaObjectInfo): Promise<string> {
+        this.ensureConnected();
+
+        try {
+            const rows = await this.all<{ sql: string }>(`
+                SELECT sql
+                FROM ${this.quoteIdentifier(database || 'main')}.sqlite_master
+                WHERE type = ? AND name = ?
+            `, [object.type, object.name]);
+            if (!rows[0]?.sql) {
+                throw new Error(`${object.name} not found`);
+            }
+
+            return `${rows[0].sql};\n`;
+        } catch (error) {
+            Logger.error('Failed to get object definition', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * SQLite has no stored routines
+     */
+    public async getRoutineParameters(_database: string, _routine: SchemaObjectInfo): Promise<RoutineParameter[]> {
+        return [];
+    }
+
+    /**
+     * Execute a query
+     */
+    public async executeQuery(query: string, _database?: string, params?: QueryParam[]): Promise<QueryResult> {
+        this.ensureConnected();
+
+        const startTime = Date.now();
+        this.running = true;
+        this.cancelRequested = false;
+        try {
+            const timeout = getQueryTimeout(this.config ?? undefined);
+            const values = this.toSqliteValues(params);
+            if (this.returnsRows(query)) {
+                const rows = await withQueryTimeout(this.all<Record<string, any>>(query, values), timeout, () => this.cancel());
+                const executionTime = Date.now() - startTime;
+
+                return {
+                    rows,
+                    rowCount: rows.length,
+                    fields: rows.length > 0 ? Object.keys(rows[0]).map(name => ({
+                        name,
+                        type: 'unknown'
+                    })) : undefined,
+                    executionTime
+                };
+            }
+
+            // run() only executes the first statement of a string; exec() runs them all but cannot bind parameters
+            const changes = await withQueryTimeout(
+                values.length > 0 ? this.run(query, values) : this.execScript(query),
+                timeout,
+                () => this.cancel()
+            );
+            return {
+                rowCount: changes,
+                executionTime: Date.now() - startTime
+            };
+        } catch (error) {
+            const executionTime = Date.now() - startTime;
+            if (error instanceof QueryTimeoutError) {
+                Logger.warn(error.message);
+                return {
+                    rowCount: 0,
+                    executionTime,
+                    error: error.message,
+                    timedOutAfter: error.timeoutMs
+                };
+            }
+            if (this.cancelRequested) {
+                Logger.info('Query cancelled');
+                return {
+                    rowCount: 0,
+                    executionTime,
+                    error: 'Query was cancelled',
+                    cancelled: true
+                };
+            }
+            Logger.error('Query execution failed', error as Error);
+            return {
+                rowCount: 0,
+                executionTime,
+                error: (error as Error).message
+            };
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Run statements between BEGIN and COMMIT
+     */
+    public async executeTransaction(
+        statements: SqlStatement[],
+        _database?: string,
+        onStatement?: (index: number) => void
+    ): Promise<TransactionResult> {
+        this.ensureConnected();
+
+        const timeout = getQueryTimeout(this.config ?? undefined);
+        let began = false;
+        let affectedRows = 0;
+        let index = 0;
+        this.running = true;
+        this.cancelRequested = false;
+        try {
+            await this.run('BEGIN');
+            began = true;
+            for (; index < statements.length; index++) {
+                const statement = statements[index];
+                const affected = await withQueryTimeout(
+                    this.run(statement.sql, this.toSqliteValues(statement.params)),
+                    timeout,
+                    () => this.cancel()
+                );
+                assertAffectedRows(statement, affected);
+                affectedRows += affected;
+                onStatement?.(index);
+            }
+            // Any failure from here on is the commit itself, not a statement
+            index = -1;
+            await this.run('COMMIT');
+            return { success: true, affectedRows };
+        } catch (error) {
+            if (began) {
+                await this.run('ROLLBACK').catch(rollbackError => Logger.error('Rollback failed', rollbackError as Error));
+            }
+            Logger.error('Transaction rolled back', error as Error);
+            return {
+                success: false,
+                affectedRows: 0,
+                failedIndex: began && index >= 0 ? index : undefined,
+                error: (error as Error).message,
+                conflict: error instanceof ConcurrencyConflictError
+            };
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Open a cursor that steps a prepared statement one row at a time
+     */
+    public async openCursor(query: string, _database?: string): Promise<QueryCursor> {
+        this.ensureConnected();
+
+        const statement = await new Promise<sqlite3.Statement>((resolve, reject) => {
+            const prepared = this.db!.prepare(query, err => (err ? reject(err) : resolve(prepared)));
+        });
+        const step = () => new Promise<Record<string, any> | undefined>((resolve, reject) => {
+            statement.get<Record<string, any>>((err, row) => (err ? reject(err) : resolve(row)));
+        });
+
+        let done = false;
+        let stepping = false;
+        const cursor: QueryCursor = {
+            fetch: async (count: number) => {
+                const rows: Record<string, any>[] = [];
+                while (!done && rows.length < count) {
+                    stepping = true;
+                    const row = await step().finally(() => (stepping = false));
+                    if (row === undefined) {
+                        done = true;
+                    } else {
+                        rows.push(row);
+                    }
+                }
+                if (!cursor.fields && rows.length > 0) {
+                    cursor.fields = Object.keys(rows[0]).map(name => ({ name, type: 'unknown' }));
+                }
+                return rows;
+            },
+            isDone: () => done,
+            close: async () => {
+                done = true;
+                if (stepping) {
+                    this.db?.interrupt();
+                }
+                await new Promise<void>(resolve => statement.finalize(() => resolve()));
+            }
+        };
+
+        return cursor;
+    }
+
+    /**
+     * Interrupt the running statement
+     */
+    public async cancel(): Promise<void> {
+        if (!this.running || !this.db) {
+            return;
+        }
+
+        this.cancelRequested = true;
+        this.db.interrupt();
+        Logger.info('Interrupted SQLite statement');
+    }
+
+    /**
+     * Get connection state
+     */
+    public getState(): ConnectionState {
+        return this.state;
+    }
+
+    /**
+     * Get database type
+     */
+    public getType(): DatabaseType {
+        return DatabaseType.SQLite;
+    }
+
+    /**
+     * Open a database file with the given mode
+     */
+    private async openDatabase(config: ConnectionConfig, mode: number): Promise<sqlite3.Database> {
+        if (!config.filePath) {
+            throw new Error('No SQLite database file configured');
+        }
+
+        const driver = await loadDriver();
+        return new Promise((resolve, reject) => {
+            const db = new driver.Database(config.filePath!, mode, err => {
+                if (!err) {
+                    resolve(db);
+                } else if ((err as NodeJS.ErrnoException).code === 'SQLITE_CANTOPEN') {
+                    fs.access(config.filePath!, accessErr => reject(accessErr
+                        ? new Error(`SQLite database file not found: ${config.filePath}`)
+                        : err));
+                } else {
+                    reject(err);
+                }
+            });
+        });
+    }
+
+    /**
+     * Convert bound parameters to values SQLite stores sensibly
+     * Dates become ISO-8601 text and booleans 1/0, matching SQLite's own conventions
+     */
+    private toSqliteValues(params?: QueryParam[]): any[] {
+        return (params || []).map(param => {
+            if (param.value instanceof Date) {
+                return param.value.toISOString();
+            }
+            if (typeof param.value === 'boolean') {
+                return param.value ? 1 : 0;
+            }
+            return param.value;
+        });
+    }
+
+    /**
+     * Check whether a statement produces a result set
+     */
+    private returnsRows(query: string): boolean {
+        const stripped = query.replace(/--.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '').trim();
+        if (/^(select|pragma|explain|values)\b/i.test(stripped)) {
+            return true;
+        }
+        // CTEs and DML with RETURNING also produce rows
+        return (/^with\b/i.test(stripped) && !/\b(insert|update|delete)\b/i.test(stripped)) || /\breturning\b/i.test(stripped);
+    }
+
+    /**
+     * Run a statement and return the number of changed rows
+     */
+    private run(sql: string, params: any[] = []): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.db!.run(sql, params, function (err) {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve(this.changes);
+                }
+            });
+        });
+    }
+
+    /**
+     * Run every statement of a script and return the number of rows they changed in total
+     */
+    private async execScript(sql: string): Promise<number> {
+        const before = await this.all<{ total: number }>('SELECT total_changes() AS total');
+        await new Promise<void>((resolve, reject) => this.db!.exec(sql, err => (err ? reject(err) : resolve())));
+        const after = await this.all<{ total: number }>('SELECT total_changes() AS total');
+        return after[0].total - before[0].total;
+    }
+
+    /**
+     * Run a statement and return all rows
+     */
+    private all<T>(sql: string, params: any[] = []): Promise<T[]> {
+        return new Promise((resolve, reject) => {
+            this.db!.all<T>(sql, params, (err, rows) => (err ? reject(err) : resolve(rows)));
+        });
+    }
+
+    /**
+     * Quote an identifier for SQLite
+     */
+    private quoteIdentifier(identifier: string): string {
+        return `"${identifier.replace(/"/g, '""')}"`;
+    }
+
+    /**
+     * Ensure connection is active
+     */
+    private ensureConnected(): void {
+        if (!this.db || this.state !== ConnectionState.Connected) {
+            throw new Error('Not connected to SQLite database');
+        }
+    }
+}
@@ -1,6 +1,5 @@
-import { MSSQLProvider } from '../databaseProviders/mssqlProvider';
 import { ConnectionManager } from '../connectionManager';
-import { ColumnInfo, DatabaseType } from '../types';
+import { ColumnInfo, DatabaseType, TransactionResult, QueryParam, SqlStatement } from '../types';
 import { Logger } from '../utils/logger';
 
 /**
@@ -38,6 +37,40 @@ export interface PendingChanges {
     deletes: DeletedRow[];
 }
 
+/**
+ * The pending change whose statement failed during a save
+ */
+export interface FailedChange {
+    type: 'delete' | 'update' | 'insert';
+    /** Row index in the result set (deletes and updates) */
+    rowIndex?: number;
+    /** Temporary id of the new row (inserts) */
+    tempId?: string;
+    statement: string;
+    error: string;
+}
+
+/**
+ * A row that was changed or deleted by another session since it was loaded
+ */
+export interface RowConflict {
+    type: 'delete' | 'update';
+    rowIndex: number;
+    /** Values as loaded into the grid */
+    original: Record<string, any>;
+    /** Values with the pending edits applied (null for a pending delete) */
+    edited: Record<string, any> | null;
+    /** Values currently stored in the database (null if the row is gone) */
+    current: Record<string, any> | null;
+}
+
+/**
+ * A generated statement and the change it applies
+ */
+interface ChangeStatement extends SqlStatement {
+    change: Omit<FailedChange, 'statement' | 'error'>;
+}
+
 /**
  * Table metadata for editing
  */
@@ -51,6 +84,27 @@ export interface EditableTableInfo {
     editError?: string;
 }
 
+/**
+ * Table name parts as each dialect qualifies them
+ */
+export function qualifyTable(
+    dbType: DatabaseType,
+    target: { table: string; database: string; schema?: string }
+): Pick<EditableTableInfo, 'tableName' | 'schema' | 'database'> {
+    switch (dbType) {
+        case DatabaseType.MySQL:
+        case DatabaseType.MariaDB:
+            return { tableName: target.table, database: target.database };
+        case DatabaseType.PostgreSQL:
+            return { tableName: target.table, schema: target.schema || 'public' };
+        case DatabaseType.MSSQL:
+            return { tableName: target.table, database: target.database, schema: target.schema || 'dbo' };
+        default:
+            // SQLite: the database is the attached schema name
+            return { tableName: target.table, schema: target.database || 'main' };
+    }
+}
+
 /**
  * Data Editor for editing query results
  */
@@ -182,7 +236,7 @@ export class DataEditor {
             }
 
             const db = tableInfo.database || database || '';
-            const columns = provider instanceof MSSQLProvider ? await provider.getColumns(tableInfo.tableName) : await provider.getColumns(db, tableInfo.tableName);
+            const columns = await provider.getColumns(db, tableInfo.tableName, tableInfo.schema);
 
             // Normalize column names for PK detection (ignore casing and brackets)
             function normalizeColName(name: string) {
@@ -282,6 +336,14 @@ export class DataEditor {
         );
     }
 
+    /**
+     * Drop the pending update and delete of a single row
+     */
+    public discardRowChanges(rowIndex: number): void {
+        this.pendingChanges.updates = this.pendingChanges.updates.filter(c => c.rowIndex !== rowIndex);
+        this.pendingChanges.deletes = this.pendingChanges.deletes.filter(d => d.rowIndex !== rowIndex);
+    }
+
     /**
      * Clear all pending changes
      */
@@ -294,22 +356,62 @@ export class DataEditor {
     }
 
     /**
-     * Generate SQL statements for pending changes
+     * Generate parameterized SQL statements for pending changes
      */
     public generateSqlStatements(
         tableInfo: EditableTableInfo,
-        rows: any[]
-    ): string[] {
-        const statements: string[] = [];
+        rows: any[],
+        detectConflicts: boolean = false
+    ): SqlStatement[] {
+        return this.buildChangeStatements(tableInfo, rows, detectConflicts)
+            .map(({ sql, params, expectedRowCount }) => ({ sql, params, expectedRowCount }));
+    }
+
+    /**
+     * Build one multi-row INSERT for a batch of rows, given as values in column order
+     */
+    public buildBatchInsert(tableInfo: EditableTableInfo, columns: string[], rows: any[][]): SqlStatement {
+        const provider = this.connectionManager.getProvider(this.connectionId);
+        const dbType = provider?.getType() || DatabaseType.MySQL;
+        const params: QueryParam[] = [];
+        const values = rows.map(row =>
+            `(${columns.map((column, i) => this.bindParam(params, row[i], tableInfo, column, dbType)).join(', ')})`
+        );
+
+        return {
+            sql: `INSERT INTO ${this.getFullTableName(tableInfo, dbType)} (${columns.map(c => this.quoteIdentifier(c, dbType)).join(', ')}) VALUES ${values.join(', ')};`,
+            params
+        };
+    }
+
+    /**
+     * Generate parameterized SQL statements for pending changes, each tagged with the change it applies
+     * With conflict detection, updates and deletes also match the row as it was loaded and must affect exactly one row
+     */
+    private buildChangeStatements(
+        tableInfo: EditableTableInfo,
+        rows: any[],
+        detectConflicts: boolean
+    ): ChangeStatement[] {
+        const statements: ChangeStatement[] = [];
         const provider = this.connectionManager.getProvider(this.connectionId);
         const dbType = provider?.getType() || DatabaseType.MySQL;
+        const fullTableName = this.getFullTableName(tableInfo, dbType);
 
         // Generate DELETE statements first
         for (const del of this.pendingChanges.deletes) {
             const row = rows[del.rowIndex] || del.data;
-            const whereClause = this.buildWhereClause(tableInfo, row, dbType);
-            const fullTableName = this.getFullTableName(tableInfo, dbType);
-            statements.push(`DELETE FROM ${fullTableName} WHERE ${whereClause};`);
+            const params: QueryParam[] = [];
+            let whereClause = this.buildWhereClause(tableInfo, row, dbType, params);
+            if (detectConflicts) {
+                whereClause += this.buildConcurrencyClause(tableInfo, row, Object.keys(row), dbType, params);
+            }
+            statements.push({
+                sql: `DELETE FROM ${fullTableName} WHERE ${whereClause};`,
+                params,
+                expectedRowCount: detectConflicts ? 1 : undefined,
+                change: { type: 'delete', rowIndex: del.rowIndex }
+            });
         }
 
         // Generate UPDATE statements
@@ -323,36 +425,49 @@ export class DataEditor {
 
         for (const [rowIndex, changes] of updatesByRow) {
             const row = rows[rowIndex];
+            const params: QueryParam[] = [];
             const setClause = changes
-                .map(c => `${this.quoteIdentifier(c.column, dbType)} = ${this.formatValue(c.newValue, dbType)}`)
+                .map(c => `${this.quoteIdentifier(c.column, dbType)} = ${this.bindParam(params, c.newValue, tableInfo, c.column, dbType)}`)
                 .join(', ');
-            const whereClause = this.buildWhereClause(tableInfo, row, dbType);
-            const fullTableName = this.getFullTableName(tableInfo, dbType);
-            statements.push(`UPDATE ${fullTableName} SET ${setClause} WHERE ${whereClause};`);
+            let whereClause = this.buildWhereClause(tableInfo, row, dbType, params);
+            if (detectConflicts) {
+                whereClause += this.buildConcurrencyClause(tableInfo, row, changes.map(c => c.column), dbType, params);
+            }
+            statements.push({
+                sql: `UPDATE ${fullTableName} SET ${setClause} WHERE ${whereClause};`,
+                params,
+                expectedRowCount: detectConflicts ? 1 : undefined,
+                change: { type: 'update', rowIndex }
+            });
         }
 
         // Generate INSERT statements
         for (const insert of this.pendingChanges.inserts) {
             const columns = Object.keys(insert.data).filter(k => !k.startsWith('_'));
-            const values = columns.map(c => this.formatValue(insert.data[c], dbType));
-            const fullTableName = this.getFullTableName(tableInfo, dbType);
-            statements.push(
-                `INSERT INTO ${fullTableName} (${columns.map(c => this.quoteIdentifier(c, dbType)).join(', ')}) VALUES (${values.join(', ')});`
-            );
+            const params: QueryParam[] = [];
+            const placeholders = columns.map(c => this.bindParam(params, insert.data[c], tableInfo, c, dbType));
+            statements.push({
+                sql: `INSERT INTO ${fullTableName} (${columns.map(c => this.quoteIdentifier(c, dbType)).join(', ')}) VALUES (${placeholders.join(', ')});`,
+                params,
+                change: { type: 'insert', tempId: insert.tempId }
+            });
         }
 
         return statements;
     }
 
     /**
-     * Execute pending changes
+     * Execute pending changes in a single transaction
+     * Nothing is applied if any statement fails; the failing change is reported back,
+     * together with the row as it is now stored when it failed a conflict check
      */
     public async executeChanges(
         tableInfo: EditableTableInfo,
         rows: any[],
-        database?: string
-    ): Promise<{ success: boolean; message: string; affectedRows: number }> {
-        const statements = this.generateSqlStatements(tableInfo, rows);
+        database?: string,
+        detectConflicts: boolean = false
+    ): Promise<{ success: boolean; message: string; affectedRows: number; failedChange?: FailedChange; conflict?: RowConflict }> {
+        const statements = this.buildChangeStatements(tableInfo, rows, detectConflicts);
         
         if (statements.length === 0) {
             return { success: true, message: 'No changes to save', affectedRows: 0 };
@@ -363,31 +478,59 @@ export class DataEditor {
             return { success: false, message: 'Connection not available', affectedRows: 0 };
         }
 
-        let affectedRows = 0;
-        const errors: string[] = [];
+        statements.forEach(statement => Logger.info(`Executing: ${statement.sql}`, statement.params?.map(param => param.value)));
 
-        for (const sql of statements) {
-            try {
-                Logger.info(`Executing: ${sql}`);
-                const result = await provider.executeQuery(sql, database);
-                if (result.error) {
-                    errors.push(`${sql}\nError: ${result.error}`);
-                } else {
-                    affectedRows += result.rowCount;
-                }
-            } catch (error) {
-                errors.push(`${sql}\nError: ${(error as Error).message}`);
-            }
+        let result: TransactionResult;
+        try {
+            result = await provider.executeTransaction(statements, database);
+        } catch (error) {
+            return {
+                success: false,
+                message: `Failed to save changes: ${(error as Error).message}`,
+                affectedRows: 0
+            };
         }
 
-        if (errors.length > 0) {
+        if (!result.success) {
+            const failed = result.failedIndex !== undefined ? statements[result.failedIndex] : undefined;
+            if (!failed) {
+                return {
+                    success: false,
+                    message: `Changes rolled back: ${result.error}`,
+                    affectedRows: 0
+                };
+            }
+
+            const failedChange: FailedChange = {
+                ...failed.change,
+                statement: failed.sql,
+                error: result.error || 'Unknown error'
+            };
+
+            if (result.conflict && failed.change.type !== 'insert') {
+                const conflict = await this.buildConflict(failed.change.type, failed.change.rowIndex!, tableInfo, rows, database);
+                const outcome = conflict.current ? 'was changed' : 'was deleted';
+                return {
+                    success: false,
+                    message: `Changes rolled back. Row ${conflict.rowIndex + 1} ${outcome} by another session since it was loaded`,
+                    affectedRows: 0,
+                    failedChange,
+                    conflict
+                };
+            }
+
+            const target = failed.change.type === 'insert'
+                ? 'new row'
+                : `row ${failed.change.rowIndex! + 1}`;
             return {
                 success: false,
-                message: `Some changes failed:\n${errors.join('\n\n')}`,
-                affectedRows
+                message: `Changes rolled back. Failed to ${failed.change.type} ${target}: ${result.error}`,
+                affectedRows: 0,
+                failedChange
             };
         }
 
+        const affectedRows = result.affectedRows;
         this.clearChanges();
         return {
             success: true,
@@ -397,21 +540,212 @@ export class DataEditor {
     }
 
     /**
-     * Build WHERE clause using primary keys
+     * Describe a conflicting row: loaded values, pending edits and the values now in the database
+     */
+    private async buildConflict(
+        type: 'delete' | 'update',
+        rowIndex: number,
+        tableInfo: EditableTableInfo,
+        rows: any[],
+        database?: string
+    ): Promise<RowConflict> {
+        const original = rows[rowIndex];
+        let edited: Record<string, any> | null = null;
+        if (type === 'update') {
+            const values = { ...original };
+            for (const change of this.pendingChanges.updates.filter(c => c.rowIndex === rowIndex)) {
+                values[change.column] = change.newValue;
+            }
+            edited = values;
+        }
+
+        let current: Record<string, any> | null = null;
+        try {
+            current = await this.fetchCurrentRow(tableInfo, original, database);
+        } catch (error) {
+            Logger.error('Failed to read conflicting row', error as Error);
+        }
+
+        return { type, rowIndex, original, edited, current };
+    }
+
+    /**
+     * Read the row with the same primary key from the database
+     */
+    private async fetchCurrentRow(
+        tableInfo: EditableTableInfo,
+        row: any,
+        database?: string
+    ): Promise<Record<string, any> | null> {
+        const provider = this.connectionManager.getProvider(this.connectionId);
+        if (!provider) {
+            throw new Error('Connection not available');
+        }
+
+        const dbType = provider.getType();
+        const params: QueryParam[] = [];
+        const whereClause = this.buildWhereClause(tableInfo, row, dbType, params);
+        // xmin is a system column, so SELECT * does not return it
+        const columns = dbType === DatabaseType.PostgreSQL && 'xmin' in row ? 'xmin, *' : '*';
+        const result = await provider.executeQuery(
+            `SELECT ${columns} FROM ${this.getFullTableName(tableInfo, dbType)} WHERE ${whereClause}`,
+            database,
+            params
+        );
+        if (result.error) {
+            throw new Error(result.error);
+        }
+        return result.rows?.[0] ?? null;
+    }
+
+    /**
+     * Build WHERE clause using primary keys, binding the key values to params
      */
     private buildWhereClause(
         tableInfo: EditableTableInfo,
         row: any,
-        dbType: DatabaseType
+        dbType: DatabaseType,
+        params: QueryParam[]
     ): string {
         return tableInfo.primaryKeys
-            .map(pk => {
-                const value = row[pk];
-                return `${this.quoteIdentifier(pk, dbType)} = ${this.formatValue(value, dbType)}`;
-            })
+            .map(pk => `${this.quoteIdentifier(pk, dbType)} = ${this.bindParam(params, row[pk], tableInfo, pk, dbType)}`)
             .join(' AND ');
     }
 
+    /**
+     * Build the extra WHERE conditions of an optimistic concurrency check
+     * A version column (rowversion, xmin, updated_at) is matched when the row has one,
+     * otherwise the loaded values of the given columns are
+     */
+    private buildConcurrencyClause(
+        tableInfo: EditableTableInfo,
+        row: any,
+        columnNames: string[],
+        dbType: DatabaseType,
+        params: QueryParam[]
+    ): string {
+        const versionColumn = this.findVersionColumn(tableInfo, row, dbType);
+        const checked = versionColumn
+            ? [versionColumn]
+            : columnNames.filter(name =>
+                !name.startsWith('_') &&
+                !tableInfo.primaryKeys.includes(name.toLowerCase()) &&
+                this.isComparable(tableInfo, name, dbType));
+
+        return checked
+            .map(name => {
+                const value = row[name];
+                return value === null || value === undefined
+                    ? ` AND ${this.quoteIdentifier(name, dbType)} IS NULL`
+                    : ` AND ${this.quoteIdentifier(name, dbType)} = ${this.bindParam(params, value, tableInfo, name, dbType)}`;
+            })
+            .join('');
+    }
+
+    /**
+     * Find a column in the loaded row that changes on every write
+     */
+    private findVersionColumn(tableInfo: EditableTableInfo, row: any, dbType: DatabaseType): string | undefined {
+        const names = Object.keys(row);
+        switch (dbType) {
+            case DatabaseType.MSSQL:
+                return names.find(name => {
+                    const column = tableInfo.columns.find(c => c.name.toLowerCase() === name.toLowerCase());
+                    return /^(rowversion|timestamp)$/i.test(column?.type || '');
+                });
+            case DatabaseType.PostgreSQL:
+                // Only present when the query selected it explicitly
+                return names.find(name => name === 'xmin');
+            default:
+                // A DATETIME/TIMESTAMP loses precision on its way through JavaScript, so only columns
+                // that compare exactly (e.g. an integer counter, or SQLite's values as stored) qualify
+                return names.find(name =>
+                    /^(updated_?at|modified_?at|last_?modified)$/i.test(name) &&
+                    this.isComparable(tableInfo, name, dbType));
+        }
+    }
+
+    /**
+     * Check whether a loaded value can be matched with = against the stored one
+     * Approximate and temporal values may not survive the round trip through JavaScript exactly,
+     * and some types have no equality operator at all
+     */
+    private isComparable(tableInfo: EditableTableInfo, columnName: string, dbType: DatabaseType): boolean {
+        const column = tableInfo.columns.find(c => c.name.toLowerCase() === columnName.toLowerCase());
+        if (!column) {
+            return false;
+        }
+
+        const type = column.type.toLowerCase();
+        switch (dbType) {
+            case DatabaseType.SQLite:
+                // Values come back exactly as stored
+                return true;
+            case DatabaseType.MSSQL:
+                if (/^(n?text|image|xml|geometry|geography|sql_variant)$/.test(type)) {
+                    return false;
+                }
+                break;
+            case DatabaseType.PostgreSQL:
+                if (/^(json|xml|point|line|lseg|box|path|polygon|circle)$/.test(type)) {
+                    return false;
+                }
+                break;
+        }
+        return !/float|real|double|date|time/.test(type);
+    }
+
+    /**
+     * Append a typed parameter for a column value and return its placeholder
+     */
+    private bindParam(
+        params: QueryParam[],
+        value: any,
+        tableInfo: EditableTableInfo,
+        columnName: string,
+        dbType: DatabaseType
+    ): string {
+        const column = tableInfo.columns.find(c => c.name.toLowerCase() === columnName.toLowerCase());
+        params.push({ value: this.coerceValue(value, column), type: column?.type });
+        return this.placeholder(params.length, dbType);
+    }
+
+    /**
+     * Convert a value edited in the grid to what the column type expects
+     * JSON columns take serialized objects and binary columns take hex strings (0x... or \x...)
+     */
+    private coerceValue(value: any, column?: ColumnInfo): any {
+        if (value === null || value === undefined) {
+            return null;
+        }
+
+        const type = column?.type.toLowerCase() || '';
+        if (type.includes('json') && typeof value === 'object' && !(value instanceof Date) && !Buffer.isBuffer(value)) {
+            return JSON.stringify(value);
+        }
+        if (/binary|blob|bytea|image/.test(type) && typeof value === 'string') {
+            const hex = value.replace(/^(0x|\\x)/i, '');
+            if (/^([0-9a-f]{2})*$/i.test(hex)) {
+                return Buffer.from(hex, 'hex');
+            }
+        }
+        return value;
+    }
+
+    /**
+     * Placeholder for the n-th (1-based) parameter in the dialect of the database
+     */
+    private placeholder(index: number, dbType: DatabaseType): string {
+        switch (dbType) {
+            case DatabaseType.PostgreSQL:
+                return `$${index}`;
+            case DatabaseType.MSSQL:
+                return `@p${index}`;
+            default:
+                return '?';
+        }
+    }
+
     /**
      * Get full table name with schema/database
      */
@@ -430,30 +764,41 @@ export class DataEditor {
     }
 
     /**
-     * Quote identifier based on database type
+     * Quote identifier based on database type, doubling any embedded quote characters
      */
-    private quoteIdentifier(identifier: string, dbType: DatabaseType): string {
+    public quoteIdentifier(identifier: string, dbType: DatabaseType): string {
         switch (dbType) {
             case DatabaseType.MySQL:
             case DatabaseType.MariaDB:
-                return `\`${identifier}\``;
-            case DatabaseType.PostgreSQL:
-                return `"${identifier}"`;
+                return `\`${identifier.replace(/`/g, '``')}\``;
             case DatabaseType.MSSQL:
-                return `[${identifier}]`;
+                return `[${identifier.replace(/]/g, ']]')}]`;
             default:
-                return `"${identifier}"`;
+                return `"${identifier.replace(/"/g, '""')}"`;
         }
     }
 
     /**
-     * Format value for SQL based on database type
+     * Format value as a SQL literal based on database type
+     * Used for generated scripts; saving changes binds parameters instead
      */
-    private formatValue(value: any, dbType: DatabaseType): string {
+    public formatValue(value: any, dbType: DatabaseType): string {
         if (value === null || value === undefined) {
             return 'NULL';
         }
 
+        if (Buffer.isBuffer(value)) {
+            const hex = value.toString('hex');
+            switch (dbType) {
+                case DatabaseType.PostgreSQL:
+                    return `'\\x${hex}'::bytea`;
+                case DatabaseType.MSSQL:
+                    return `0x${hex}`;
+                default:
+                    return `X'${hex}'`;
+            }
+        }
+
         if (typeof value === 'number') {
             return String(value);
         }
@@ -469,8 +814,15 @@ export class DataEditor {
             return `'${value.toISOString()}'`;
         }
 
-        // String value - escape quotes
-        const escaped = String(value).replace(/'/g, "''");
+        if (typeof value === 'object') {
+            value = JSON.stringify(value);
+        }
+
+        // String value - escape quotes (and backslashes, which MySQL treats as escapes)
+        let escaped = String(value).replace(/'/g, "''");
+        if (dbType === DatabaseType.MySQL || dbType === DatabaseType.MariaDB) {
+            escaped = escaped.replace(/\\/g, '\\\\');
+        }
         return `'${escaped}'`;
     }
 }
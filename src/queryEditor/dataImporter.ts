@@ -0,0 +1,579 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BSON } from 'mongodb';
+import {
+    ColumnInfo,
+    DatabaseType,
+    ExportFormat,
+    IDatabaseProvider,
+    IMongoDBProvider,
+    SqlStatement,
+    TransactionResult
+} from '../types';
+import { ConnectionManager } from '../connectionManager';
+import { DataEditor, EditableTableInfo, qualifyTable } from './dataEditor';
+import { formatRows } from './resultFormatters';
+import { DataFileFormat, detectDataFileFormat, parseDataFile, ParsedDataFile } from '../utils/dataFileParser';
+import { Logger } from '../utils/logger';
+
+/**
+ * Table or collection that data is imported into
+ */
+export interface ImportTarget {
+    connectionId: string;
+    database: string;
+    /** Table or collection name */
+    table: string;
+    schema?: string;
+}
+
+/**
+ * File column imported into a table column
+ */
+interface ColumnMapping {
+    source: string;
+    column: ColumnInfo;
+}
+
+/**
+ * File record that could not be converted for the target
+ */
+interface RejectedRow {
+    /** 1-based record number in the file (header excluded) */
+    row: number;
+    error: string;
+    record: Record<string, any>;
+}
+
+// Most parameters one statement may bind (SQL Server allows 2100, older SQLite builds 999)
+const MAX_PARAMS: Record<string, number> = {
+    [DatabaseType.MSSQL]: 2000,
+    [DatabaseType.SQLite]: 999,
+    [DatabaseType.PostgreSQL]: 65535,
+    [DatabaseType.MySQL]: 65535,
+    [DatabaseType.MariaDB]: 65535
+};
+
+// SQL Server takes at most 1000 rows in one VALUES list
+const MSSQL_MAX_ROWS = 1000;
+
+/**
+ * Bulk import of CSV, JSON and NDJSON files into tables and collections
+ */
+export class DataImporter {
+    constructor(private connectionManager: ConnectionManager) {}
+
+    /**
+     * Ask for a file, preview the column mapping and insert the rows in one transaction
+     * Rows that cannot be converted are skipped and written to an error report next to the file
+     */
+    public async importData(target: ImportTarget): Promise<void> {
+        const provider = this.connectionManager.getProvider(target.connectionId);
+        const config = this.connectionManager.getConnection(target.connectionId);
+        if (!provider || !config) {
+            vscode.window.showErrorMessage('Please connect to the database first');
+            return;
+        }
+
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Import',
+            filters: {
+                'Data Files': ['csv', 'tsv', 'txt', 'json', 'ndjson', 'jsonl']
+            }
+        });
+        if (!files || files.length === 0) {
+            return;
+        }
+
+        const file = files[0];
+        const format = detectDataFileFormat(file.fsPath);
+        if (!format) {
+            vscode.window.showErrorMessage('Unsupported file type; import reads .csv, .tsv, .json, .ndjson and .jsonl files');
+            return;
+        }
+
+        let parsed: ParsedDataFile;
+        try {
+            const content = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+            parsed = parseDataFile(content, format);
+        } catch (error) {
+            Logger.error('Failed to read import file', error as Error);
+            vscode.window.showErrorMessage(`Failed to read ${path.basename(file.fsPath)}: ${(error as Error).message}`);
+            return;
+        }
+
+        if (parsed.rows.length === 0) {
+            vscode.window.showWarningMessage(`${path.basename(file.fsPath)} contains no rows`);
+            return;
+        }
+
+        try {
+            if (config.type === DatabaseType.MongoDB) {
+                await this.importDocuments(provider as IMongoDBProvider, target, parsed, format, file);
+            } else {
+                await this.importRows(provider, config.type, target, parsed, format, file);
+            }
+        } catch (error) {
+            Logger.error('Import failed', error as Error);
+            vscode.window.showErrorMessage(`Import failed: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Import into a SQL table with multi-row INSERT statements
+     */
+    private async importRows(
+        provider: IDatabaseProvider,
+        dbType: DatabaseType,
+        target: ImportTarget,
+        parsed: ParsedDataFile,
+        format: DataFileFormat,
+        file: vscode.Uri
+    ): Promise<void> {
+        const columns = await provider.getColumns(target.database, target.table, target.schema);
+        if (columns.length === 0) {
+            vscode.window.showErrorMessage(`Could not read the columns of ${target.table}`);
+            return;
+        }
+
+        const mappings = await this.promptColumnMapping(parsed, columns);
+        if (!mappings) {
+            return;
+        }
+
+        const accepted: any[][] = [];
+        const acceptedRows: number[] = [];
+        const rejected: RejectedRow[] = [];
+        parsed.rows.forEach((record, index) => {
+            try {
+                accepted.push(mappings.map(mapping => toColumnValue(record[mapping.source], mapping.column)));
+                acceptedRows.push(index + 1);
+            } catch (error) {
+                rejected.push({ row: index + 1, error: (error as Error).message, record });
+            }
+        });
+
+        const unmapped = columns.filter(column =>
+            !column.nullable && column.defaultValue === undefined && !column.isPrimaryKey &&
+            !mappings.some(mapping => mapping.column === column)
+        );
+        const warning = unmapped.length > 0
+            ? `Required columns ${unmapped.map(column => column.name).join(', ')} are not mapped; the database will reject the rows unless it fills them in.`
+            : undefined;
+
+        const report = await this.prepareImport(target.table, parsed, format, file, accepted.length, rejected, warning);
+        if (!report) {
+            return;
+        }
+
+        const tableInfo: EditableTableInfo = {
+            ...qualifyTable(dbType, target),
+            primaryKeys: [],
+            columns,
+            isEditable: true
+        };
+        const dataEditor = new DataEditor(this.connectionManager, target.connectionId);
+        const batchSize = this.getBatchSize(dbType, mappings.length);
+        const columnNames = mappings.map(mapping => mapping.column.name);
+        const statements: SqlStatement[] = [];
+        for (let start = 0; start < accepted.length; start += batchSize) {
+            statements.push(dataEditor.buildBatchInsert(tableInfo, columnNames, accepted.slice(start, start + batchSize)));
+        }
+
+        const { result, cancelled } = await this.runBatches(target.table, accepted.length, batchSize,
+            onBatch => provider.executeTransaction(statements, target.database, onBatch));
+        await this.showOutcome(target.table, result, cancelled, batchSize, acceptedRows, report.uri);
+    }
+
+    /**
+     * Import into a MongoDB collection with insertMany
+     * CSV values are typed by inference; JSON values may use Extended JSON ($oid, $date, ...)
+     */
+    private async importDocuments(
+        provider: IMongoDBProvider,
+        target: ImportTarget,
+        parsed: ParsedDataFile,
+        format: DataFileFormat,
+        file: vscode.Uri
+    ): Promise<void> {
+        const sample = parsed.rows[0];
+        const picked = await vscode.window.showQuickPick(
+            parsed.columns.map(column => ({
+                label: column,
+                detail: sample[column] !== undefined ? `e.g. ${previewValue(sample[column])}` : undefined,
+                picked: true
+            })),
+            { canPickMany: true, placeHolder: `Fields to import into ${target.table}`, ignoreFocusOut: true }
+        );
+        if (!picked || picked.length === 0) {
+            return;
+        }
+        const fields = picked.map(item => item.label);
+
+        const documents: Record<string, any>[] = [];
+        const acceptedRows: number[] = [];
+        const rejected: RejectedRow[] = [];
+        parsed.rows.forEach((record, index) => {
+            try {
+                documents.push(toDocument(record, fields, format));
+                acceptedRows.push(index + 1);
+            } catch (error) {
+                rejected.push({ row: index + 1, error: (error as Error).message, record });
+            }
+        });
+
+        const report = await this.prepareImport(target.table, parsed, format, file, documents.length, rejected);
+        if (!report) {
+            return;
+        }
+
+        const batchSize = this.getBatchSize(DatabaseType.MongoDB, fields.length);
+        const batches: Record<string, any>[][] = [];
+        for (let start = 0; start < documents.length; start += batchSize) {
+            batches.push(documents.slice(start, start + batchSize));
+        }
+
+        const { result, cancelled } = await this.runBatches(target.table, documents.length, batchSize,
+            onBatch => provider.insertDocuments(target.database, target.table, batches, onBatch));
+        await this.showOutcome(target.table, result, cancelled, batchSize, acceptedRows, report.uri);
+    }
+
+    /**
+     * Map file columns to table columns by name, ask about the ones that do not match,
+     * then preview the mapping so columns can be left out
+     */
+    private async promptColumnMapping(parsed: ParsedDataFile, columns: ColumnInfo[]): Promise<ColumnMapping[] | undefined> {
+        const normalize = (name: string) => name.toLowerCase().replace(/[\s_-]/g, '');
+        const mappings: ColumnMapping[] = [];
+        const unmatched: string[] = [];
+
+        for (const source of parsed.columns) {
+            const column = columns.find(c => c.name === source) || columns.find(c => normalize(c.name) === normalize(source));
+            if (column && !mappings.some(mapping => mapping.column === column)) {
+                mappings.push({ source, column });
+            } else {
+                unmatched.push(source);
+            }
+        }
+
+        for (const source of unmatched) {
+            const free = columns.filter(column => !mappings.some(mapping => mapping.column === column));
+            if (free.length === 0) {
+                break;
+            }
+            const choice = await vscode.window.showQuickPick(
+                [
+                    { label: '$(circle-slash) Skip', column: undefined as ColumnInfo | undefined },
+                    ...free.map(column => ({ label: column.name, description: column.type, column }))
+                ],
+                { placeHolder: `File column "${source}" matches no table column; import it into...`, ignoreFocusOut: true }
+            );
+            if (!choice) {
+                return undefined;
+            }
+            if (choice.column) {
+                mappings.push({ source, column: choice.column });
+            }
+        }
+
+        if (mappings.length === 0) {
+            vscode.window.showErrorMessage('None of the file columns match a column of the table');
+            return undefined;
+        }
+
+        const sample = parsed.rows[0];
+        const preview = await vscode.window.showQuickPick(
+            mappings.map(mapping => ({
+                label: `${mapping.source} → ${mapping.column.name}`,
+                description: `${mapping.column.type}${mapping.column.nullable ? '' : ' NOT NULL'}`,
+                detail: sample[mapping.source] !== undefined ? `e.g. ${previewValue(sample[mapping.source])}` : undefined,
+                picked: true,
+                mapping
+            })),
+            { canPickMany: true, placeHolder: 'Columns to import (file column → table column)', ignoreFocusOut: true }
+        );
+        if (!preview || preview.length === 0) {
+            return undefined;
+        }
+        return preview.map(item => item.mapping);
+    }
+
+    /**
+     * Write the error report for rejected rows and confirm the import
+     * Returns undefined when nothing can be imported or the user declines
+     */
+    private async prepareImport(
+        table: string,
+        parsed: ParsedDataFile,
+        format: DataFileFormat,
+        file: vscode.Uri,
+        acceptedCount: number,
+        rejected: RejectedRow[],
+        warning?: string
+    ): Promise<{ uri?: vscode.Uri } | undefined> {
+        const uri = rejected.length > 0 ? await this.writeErrorReport(file, format, parsed.columns, rejected) : undefined;
+
+        if (acceptedCount === 0) {
+            const action = await vscode.window.showErrorMessage(
+                `None of the ${rejected.length} rows could be converted for ${table}`,
+                ...(uri ? ['Open Error Report'] : [])
+            );
+            if (action && uri) {
+                await vscode.window.showTextDocument(uri);
+            }
+            return undefined;
+        }
+
+        const details = [
+            rejected.length > 0 ? `${rejected.length} rows cannot be converted and will be skipped (see ${uri ? path.basename(uri.fsPath) : 'the log'}).` : '',
+            warning || ''
+        ].filter(Boolean).join(' ');
+        const answer = await vscode.window.showInformationMessage(
+            `Import ${acceptedCount} rows into ${table}?`,
+            { modal: true, detail: details || undefined },
+            'Import'
+        );
+        return answer === 'Import' ? { uri } : undefined;
+    }
+
+    /**
+     * Run the batches with a cancellable progress notification
+     * Cancelling throws from the batch callback, which rolls the transaction back
+     */
+    private async runBatches(
+        table: string,
+        rowCount: number,
+        batchSize: number,
+        run: (onBatch: (index: number) => void) => Promise<TransactionResult>
+    ): Promise<{ result: TransactionResult; cancelled: boolean }> {
+        const batchCount = Math.ceil(rowCount / batchSize);
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Importing into ${table}`,
+            cancellable: true
+        }, async (progress, token) => {
+            const result = await run(index => {
+                if (token.isCancellationRequested) {
+                    throw new Error('Import cancelled');
+                }
+                progress.report({
+                    increment: 100 / batchCount,
+                    message: `${Math.min((index + 1) * batchSize, rowCount)} of ${rowCount} rows`
+                });
+            });
+            return { result, cancelled: token.isCancellationRequested };
+        });
+    }
+
+    /**
+     * Report how the import ended
+     */
+    private async showOutcome(
+        table: string,
+        result: TransactionResult,
+        cancelled: boolean,
+        batchSize: number,
+        acceptedRows: number[],
+        reportUri?: vscode.Uri
+    ): Promise<void> {
+        const kept = result.affectedRows > 0 ? `${result.affectedRows} rows inserted before it stopped were kept` : 'No rows were imported';
+        const actions = reportUri ? ['Open Error Report'] : [];
+        let action: string | undefined;
+
+        if (result.success) {
+            const skipped = reportUri ? `; rows that could not be converted were skipped` : '';
+            action = await vscode.window.showInformationMessage(`Imported ${result.affectedRows} rows into ${table}${skipped}`, ...actions);
+        } else if (cancelled) {
+            action = await vscode.window.showWarningMessage(`Import cancelled. ${kept}.`, ...actions);
+        } else {
+            let rows = '';
+            if (result.failedIndex !== undefined) {
+                const first = acceptedRows[result.failedIndex * batchSize];
+                const last = acceptedRows[Math.min((result.failedIndex + 1) * batchSize, acceptedRows.length) - 1];
+                rows = ` in file rows ${first}-${last}`;
+            }
+            action = await vscode.window.showErrorMessage(`Import failed${rows}: ${result.error}. ${kept}.`, ...actions);
+        }
+
+        if (action && reportUri) {
+            await vscode.window.showTextDocument(reportUri);
+        }
+    }
+
+    /**
+     * Write rejected rows next to the imported file
+     * CSV imports get a CSV report with the original columns; JSON imports an NDJSON report
+     */
+    private async writeErrorReport(
+        file: vscode.Uri,
+        format: DataFileFormat,
+        columns: string[],
+        rejected: RejectedRow[]
+    ): Promise<vscode.Uri | undefined> {
+        const base = file.fsPath.replace(/\.[^./\\]+$/, '');
+        const uri = vscode.Uri.file(`${base}.errors.${format === 'csv' ? 'csv' : 'ndjson'}`);
+        const content = format === 'csv'
+            ? formatRows(ExportFormat.CSV, rejected.map(entry => ({ row: entry.row, error: entry.error, ...entry.record })), ['row', 'error', ...columns])
+            : formatRows(ExportFormat.NDJSON, rejected, []);
+
+        try {
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+            return uri;
+        } catch (error) {
+            Logger.error('Failed to write import error report', error as Error);
+            rejected.forEach(entry => Logger.warn(`Import row ${entry.row} rejected: ${entry.error}`));
+            return undefined;
+        }
+    }
+
+    /**
+     * Rows per statement: the configured batch size, capped by the dialect's parameter limit
+     */
+    private getBatchSize(dbType: DatabaseType, columnCount: number): number {
+        const configured = vscode.workspace.getConfiguration('dbConnector').get<number>('importBatchSize', 500);
+        let size = Math.max(1, configured);
+        const maxParams = MAX_PARAMS[dbType];
+        if (maxParams) {
+            size = Math.min(size, Math.max(1, Math.floor(maxParams / Math.max(1, columnCount))));
+        }
+        if (dbType === DatabaseType.MSSQL) {
+            size = Math.min(size, MSSQL_MAX_ROWS);
+        }
+        return size;
+    }
+}
+
+/**
+ * Convert a file value to what the column type expects
+ * Empty CSV values become NULL, except in NOT NULL text columns; throws for values that do not fit
+ */
+function toColumnValue(value: any, column: ColumnInfo): any {
+    const type = column.type.toLowerCase();
+    const isText = /char|text|clob|uuid|uniqueidentifier|xml|^enum|^set\b|^$/.test(type);
+
+    if (value === '' && !(isText && !column.nullable)) {
+        value = null;
+    }
+    if (value === null || value === undefined) {
+        if (!column.nullable && column.defaultValue === undefined && !column.isPrimaryKey) {
+            throw new Error(`${column.name} is required`);
+        }
+        return null;
+    }
+
+    const text = typeof value === 'string' ? value.trim() : value;
+    if (/^(bool|boolean|bit)\b/.test(type) || type === 'tinyint(1)') {
+        if (typeof text === 'boolean') {
+            return text;
+        }
+        const normalized = String(text).toLowerCase();
+        if (['true', 't', 'yes', 'y', '1'].includes(normalized)) {
+            return true;
+        }
+        if (['false', 'f', 'no', 'n', '0'].includes(normalized)) {
+            return false;
+        }
+        throw new Error(`${column.name}: "${value}" is not a boolean`);
+    }
+    if (/int|serial/.test(type) && !/interval|point/.test(type)) {
+        if (typeof text === 'number' && Number.isInteger(text)) {
+            return text;
+        }
+        if (!/^[+-]?\d+$/.test(String(text))) {
+            throw new Error(`${column.name}: "${value}" is not an integer`);
+        }
+        const number = Number(text);
+        // Integers beyond double precision are bound as text so no digits are lost
+        return Number.isSafeInteger(number) ? number : String(text);
+    }
+    if (/^(decimal|numeric|number|money|smallmoney)/.test(type)) {
+        if (typeof text === 'number') {
+            return text;
+        }
+        if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(String(text))) {
+            throw new Error(`${column.name}: "${value}" is not a number`);
+        }
+        // Decimals are bound as text to keep their precision
+        return String(text);
+    }
+    if (/float|real|double/.test(type)) {
+        const number = Number(text);
+        if (text === '' || !isFinite(number)) {
+            throw new Error(`${column.name}: "${value}" is not a number`);
+        }
+        return number;
+    }
+    if (/date|timestamp/.test(type)) {
+        if (isNaN(Date.parse(String(text)))) {
+            throw new Error(`${column.name}: "${value}" is not a date`);
+        }
+        return String(text);
+    }
+    if (type.includes('json')) {
+        if (typeof value === 'string') {
+            try {
+                JSON.parse(value);
+            } catch {
+                throw new Error(`${column.name}: value is not valid JSON`);
+            }
+        }
+        return value;
+    }
+    if (/binary|blob|bytea|image/.test(type)) {
+        // Buffers exported as JSON look like { type: 'Buffer', data: [...] }
+        if (typeof value === 'object' && value.type === 'Buffer' && Array.isArray(value.data)) {
+            return Buffer.from(value.data);
+        }
+        if (typeof value !== 'string' || !/^(0x|\\x)?([0-9a-f]{2})*$/i.test(value)) {
+            throw new Error(`${column.name}: binary values must be hex strings`);
+        }
+        return value;
+    }
+
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Build the document for a record
+ * CSV values are typed by inference; JSON values go through Extended JSON so $oid, $date etc. become BSON values
+ */
+function toDocument(record: Record<string, any>, fields: string[], format: DataFileFormat): Record<string, any> {
+    const document: Record<string, any> = {};
+    for (const field of fields) {
+        const value = record[field];
+        if (value === undefined) {
+            continue;
+        }
+        document[field] = format === 'csv' ? inferCsvValue(value) : value;
+    }
+    return format === 'csv' ? document : BSON.EJSON.deserialize(document, { relaxed: true });
+}
+
+/**
+ * Type a CSV value: empty is null, true/false are booleans and plain numbers are numbers
+ * Numbers with leading zeros (zip codes, ids) stay text
+ */
+function inferCsvValue(value: string): any {
+    if (value === '') {
+        return null;
+    }
+    if (value === 'true' || value === 'false') {
+        return value === 'true';
+    }
+    if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(value)) {
+        const number = Number(value);
+        if (isFinite(number) && (!Number.isInteger(number) || Number.isSafeInteger(number))) {
+            return number;
+        }
+    }
+    return value;
+}
+
+/**
+ * Short one-line form of a sample value for the mapping preview
+ */
+function previewValue(value: any): string {
+    const text = value === null ? 'NULL' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return text.length > 60 ? `${text.substring(0, 57)}...` : text;
+}
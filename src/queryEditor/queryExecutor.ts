@@ -1,8 +1,12 @@
 import * as vscode from 'vscode';
 import { ConnectionManager } from '../connectionManager';
-import { QueryResult, QueryHistoryEntry, DatabaseType, ConnectionState } from '../types';
+import { QueryResult, QueryHistoryEntry, QueryResultSnapshot, DatabaseType, ConnectionState, IDatabaseProvider, QueryCursor, ConnectionConfig } from '../types';
 import { Logger } from '../utils/logger';
+import { getQueryTimeout, QueryTimeoutError, withQueryTimeout } from '../utils/timeouts';
 import { ResultsPanel } from './resultsPanel';
+import { QueryHistoryStore } from './queryHistoryStore';
+import { toCellText } from './resultGrid';
+import { applyQueryParams, getQueryParams, parseQueryHeader, promptQueryParams } from './savedQueries';
 
 /**
  * Multi-query result with query text
@@ -16,15 +20,16 @@ export interface MultiQueryResult {
  * Query executor for running database queries
  */
 export class QueryExecutor {
-    private queryHistory: QueryHistoryEntry[] = [];
-    private maxHistorySize: number = 100;
+    public readonly history: QueryHistoryStore;
+    private activeProvider: IDatabaseProvider | undefined;
+    private activeCursor: QueryCursor | undefined;
+    private cancelRequested = false;
 
     constructor(
         private connectionManager: ConnectionManager,
         private context: vscode.ExtensionContext
     ) {
-        this.loadQueryHistory();
-        this.maxHistorySize = vscode.workspace.getConfiguration('dbConnector').get('maxQueryHistorySize', 100);
+        this.history = new QueryHistoryStore(context);
     }
 
     /**
@@ -115,7 +120,12 @@ export class QueryExecutor {
             }
         }
 
-        await this.executeQuery(selectedConnection.id, query, database);
+        const filledQuery = await this.fillQueryParams(query, fullText);
+        if (filledQuery === undefined) {
+            return;
+        }
+
+        await this.executeQuery(selectedConnection.id, filledQuery, database);
     }
 
     /**
@@ -197,24 +207,45 @@ export class QueryExecutor {
         editor.selection = new vscode.Selection(range.start, range.end);
         editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
 
-        await this.executeQuery(selectedConnection.id, query, database);
+        const filledQuery = await this.fillQueryParams(query, fullText);
+        if (filledQuery === undefined) {
+            return;
+        }
+
+        await this.executeQuery(selectedConnection.id, filledQuery, database);
+    }
+
+    /**
+     * Ask for the {{name}} parameters used in a query and fill them in
+     * Defaults come from the Param: header comments of the document, as in saved queries
+     * @returns The query to run, or undefined when the user cancelled
+     */
+    private async fillQueryParams(query: string, fullText: string): Promise<string | undefined> {
+        const declared = parseQueryHeader(fullText).params;
+        const params = getQueryParams(query).map(param => declared.find(d => d.name === param.name) ?? param);
+        if (params.length === 0) {
+            return query;
+        }
+
+        const values = await promptQueryParams(params);
+        return values ? applyQueryParams(query, values) : undefined;
     }
 
     /**
      * Detect connection name from file header comments
-     * Looks for: -- Connection: ConnectionName
+     * Looks for: -- Connection: ConnectionName (or // Connection: ConnectionName in MongoDB files)
      */
     private detectConnectionFromHeader(text: string): string | undefined {
-        const match = text.match(/^--\s*Connection:\s*(.+?)$/im);
+        const match = text.match(/^(?:--|\/\/)\s*Connection:\s*(.+?)$/im);
         return match ? match[1].trim() : undefined;
     }
 
     /**
      * Detect database name from file header comments
-     * Looks for: -- Database: DatabaseName
+     * Looks for: -- Database: DatabaseName (or // Database: DatabaseName in MongoDB files)
      */
     private detectDatabaseFromHeader(text: string): string | undefined {
-        const match = text.match(/^--\s*Database:\s*(.+?)$/im);
+        const match = text.match(/^(?:--|\/\/)\s*Database:\s*(.+?)$/im);
         return match ? match[1].trim() : undefined;
     }
 
@@ -293,6 +324,120 @@ export class QueryExecutor {
         return queries;
     }
 
+    /**
+     * Cancel the query that is currently executing, if any
+     */
+    public async cancelActiveQuery(): Promise<void> {
+        // Set even between statements of a batch, so the next one is not started
+        this.cancelRequested = true;
+        if (!this.activeProvider) {
+            return;
+        }
+
+        try {
+            await Promise.all([this.activeProvider.cancel(), this.activeCursor?.close()]);
+        } catch (error) {
+            Logger.error('Failed to cancel query', error as Error);
+            vscode.window.showErrorMessage(`Failed to cancel query: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Run a statement while tracking it as the active, cancellable query
+     * Shows a placeholder results panel with a Cancel button if it takes more than a second
+     */
+    private async runCancellable<T>(provider: IDatabaseProvider, query: string, work: () => Promise<T>): Promise<T> {
+        this.activeProvider = provider;
+        await vscode.commands.executeCommand('setContext', 'dbConnector.queryRunning', true);
+
+        const placeholderTimer = setTimeout(() => {
+            ResultsPanel.showExecuting(this.context, query, () => this.cancelActiveQuery());
+        }, 1000);
+
+        try {
+            return await work();
+        } finally {
+            clearTimeout(placeholderTimer);
+            this.activeProvider = undefined;
+            await vscode.commands.executeCommand('setContext', 'dbConnector.queryRunning', false);
+        }
+    }
+
+    /**
+     * Check whether a statement returns rows and can be read through a cursor
+     */
+    private canUseCursor(query: string, dbType: DatabaseType): boolean {
+        if (dbType === DatabaseType.MongoDB) {
+            return /\.(find|aggregate)\s*\(/.test(query);
+        }
+
+        const stripped = query.replace(/--.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '').trim();
+        if (/^select\b/i.test(stripped)) {
+            // SELECT ... INTO creates a table or writes a file instead of returning rows
+            return !/\binto\b/i.test(stripped);
+        }
+        return /^with\b/i.test(stripped) && !/\b(insert|update|delete|merge)\b/i.test(stripped);
+    }
+
+    /**
+     * Open a cursor for a row-returning query and fetch its first page
+     * The cursor is handed back while more rows remain so the results panel can load them on demand
+     */
+    private async fetchFirstPage(
+        provider: IDatabaseProvider,
+        connection: ConnectionConfig,
+        query: string,
+        database?: string
+    ): Promise<{ result: QueryResult; cursor?: QueryCursor }> {
+        const pageSize = vscode.workspace.getConfiguration('dbConnector').get<number>('resultPageSize', 1000);
+        const startTime = Date.now();
+        let cursor: QueryCursor | undefined;
+
+        try {
+            cursor = await provider.openCursor(query, database);
+            this.activeCursor = cursor;
+            const openCursor = cursor;
+            const rows = await withQueryTimeout(
+                openCursor.fetch(pageSize),
+                getQueryTimeout(connection),
+                () => openCursor.close()
+            );
+
+            if (this.cancelRequested) {
+                await cursor.close();
+                return { result: { rowCount: 0, executionTime: Date.now() - startTime, error: 'Query was cancelled', cancelled: true } };
+            }
+
+            const result: QueryResult = {
+                rows,
+                rowCount: rows.length,
+                fields: cursor.fields,
+                executionTime: Date.now() - startTime,
+                hasMore: !cursor.isDone()
+            };
+
+            if (!result.hasMore) {
+                await cursor.close();
+                return { result };
+            }
+            return { result, cursor };
+        } catch (error) {
+            await cursor?.close().catch(() => undefined);
+            const executionTime = Date.now() - startTime;
+
+            if (error instanceof QueryTimeoutError) {
+                return { result: { rowCount: 0, executionTime, error: error.message, timedOutAfter: error.timeoutMs } };
+            }
+            if (this.cancelRequested) {
+                return { result: { rowCount: 0, executionTime, error: 'Query was cancelled', cancelled: true } };
+            }
+            Logger.error('Query execution failed', error as Error);
+            return { result: { rowCount: 0, executionTime, error: (error as Error).message } };
+        } finally {
+            this.activeCursor = undefined;
+        }
+    }
+
     /**
      * Execute a query on a specific connection
      */
@@ -317,28 +462,49 @@ export class QueryExecutor {
             return;
         }
 
+        if (this.activeProvider) {
+            vscode.window.showWarningMessage('A query is already running. Cancel it or wait for it to finish.');
+            return;
+        }
+
+        this.cancelRequested = false;
+
         try {
             // Single query - use simple execution
             if (queries.length === 1) {
                 await vscode.window.withProgress({
                     location: vscode.ProgressLocation.Notification,
                     title: 'Executing query...',
-                    cancellable: false
-                }, async () => {
-                    const result = await provider.executeQuery(queries[0], database);
+                    cancellable: true
+                }, async (_progress, token) => {
+                    token.onCancellationRequested(() => this.cancelActiveQuery());
+
+                    // Row-returning statements are read page by page through a cursor
+                    const { result, cursor } = await this.runCancellable(provider, queries[0], async () =>
+                        this.canUseCursor(queries[0], connection.type)
+                            ? this.fetchFirstPage(provider, connection, queries[0], database)
+                            : { result: await provider.executeQuery(queries[0], database), cursor: undefined }
+                    );
 
                     // Add to history
-                    this.addToHistory(connectionId, queries[0], result);
+                    this.addToHistory(connection, queries[0], result, database);
 
                     // Show results with connection info for editing
-                    ResultsPanel.show(this.context, result, queries[0], connectionId, database);
+                    ResultsPanel.show(this.context, result, queries[0], connectionId, database, cursor);
 
-                    if (result.error) {
+                    if (result.cancelled) {
+                        vscode.window.showWarningMessage('Query cancelled');
+                    } else if (result.timedOutAfter !== undefined) {
+                        vscode.window.showErrorMessage(`Query timed out after ${result.timedOutAfter} ms`);
+                    } else if (result.error) {
                         vscode.window.showErrorMessage(`Query failed: ${result.error}`);
                     } else {
-                        const message = result.rows
+                        let message = result.rows
                             ? `Query executed successfully. ${result.rowCount} rows returned in ${result.executionTime}ms.`
                             : `Query executed successfully. ${result.rowCount} rows affected in ${result.executionTime}ms.`;
+                        if (result.hasMore) {
+                            message += ' More rows can be loaded from the results panel.';
+                        }
                         vscode.window.showInformationMessage(message);
                     }
                 });
@@ -355,8 +521,10 @@ export class QueryExecutor {
                 title: `Executing ${queries.length} queries...`,
                 cancellable: true
             }, async (progress, token) => {
+                token.onCancellationRequested(() => this.cancelActiveQuery());
+
                 for (let i = 0; i < queries.length; i++) {
-                    if (token.isCancellationRequested) {
+                    if (token.isCancellationRequested || this.cancelRequested) {
                         vscode.window.showWarningMessage(`Execution cancelled after ${i} queries`);
                         break;
                     }
@@ -368,12 +536,18 @@ export class QueryExecutor {
 
                     const q = queries[i];
                     try {
-                        const result = await provider.executeQuery(q, database);
+                        const result = await this.runCancellable(provider, q, () => provider.executeQuery(q, database));
                         results.push({ query: q, result });
                         totalTime += result.executionTime;
 
                         // Add each query to history
-                        this.addToHistory(connectionId, q, result);
+                        this.addToHistory(connection, q, result, database);
+
+                        if (result.cancelled) {
+                            vscode.window.showWarningMessage(`Execution cancelled during query ${i + 1}`);
+                            hasError = true;
+                            break;
+                        }
 
                         if (result.error) {
                             hasError = true;
@@ -386,13 +560,13 @@ export class QueryExecutor {
                         };
                         results.push({ query: q, result: errorResult });
                         hasError = true;
-                        this.addToHistory(connectionId, q, errorResult);
+                        this.addToHistory(connection, q, errorResult, database);
                     }
                 }
             });
 
             // Show combined results
-            ResultsPanel.showMultiple(this.context, results);
+            ResultsPanel.showMultiple(this.context, results, connectionId, database);
 
             // Summary message
             const successCount = results.filter(r => !r.result.error).length;
@@ -414,114 +588,68 @@ export class QueryExecutor {
         }
     }
 
-    /**
-     * Show query history
-     */
-    public async showQueryHistory(): Promise<void> {
-        if (this.queryHistory.length === 0) {
-            vscode.window.showInformationMessage('No query history available');
-            return;
-        }
-
-        const selected = await vscode.window.showQuickPick(
-            this.queryHistory.slice().reverse().map(entry => {
-                const connection = this.connectionManager.getConnection(entry.connectionId);
-                const statusIcon = entry.success ? '✓' : '✗';
-                return {
-                    label: `${statusIcon} ${entry.query.substring(0, 60)}${entry.query.length > 60 ? '...' : ''}`,
-                    description: `${connection?.name || 'Unknown'} - ${new Date(entry.timestamp).toLocaleString()}`,
-                    detail: `Execution time: ${entry.executionTime}ms${entry.error ? ` - Error: ${entry.error}` : ''}`,
-                    entry
-                };
-            }),
-            { placeHolder: 'Select a query from history' }
-        );
-
-        if (!selected) {
-            return;
-        }
-
-        // Create a new untitled document with the query
-        const doc = await vscode.workspace.openTextDocument({
-            content: selected.entry.query,
-            language: 'sql'
-        });
-        await vscode.window.showTextDocument(doc);
-    }
-
     /**
      * Clear query history
      */
     public async clearQueryHistory(): Promise<void> {
-        const confirm = await vscode.window.showWarningMessage(
-            'Are you sure you want to clear all query history?',
-            'Yes', 'No'
+        const choice = await vscode.window.showWarningMessage(
+            'Are you sure you want to clear the query history?',
+            { modal: true },
+            'Keep Pinned', 'Clear All'
         );
 
-        if (confirm === 'Yes') {
-            this.queryHistory = [];
-            await this.saveQueryHistory();
+        if (choice) {
+            this.history.clear(choice === 'Keep Pinned');
             vscode.window.showInformationMessage('Query history cleared');
         }
     }
 
     /**
-     * Get query history
+     * Get query history, oldest first
      */
     public getQueryHistory(): QueryHistoryEntry[] {
-        return this.queryHistory;
+        return this.history.getAll();
     }
 
     /**
      * Add query to history
      */
-    private addToHistory(connectionId: string, query: string, result: QueryResult): void {
-        const entry: QueryHistoryEntry = {
+    private addToHistory(connection: ConnectionConfig, query: string, result: QueryResult, database?: string): void {
+        this.history.add({
             id: this.generateHistoryId(),
-            connectionId,
+            connectionId: connection.id,
+            database,
+            language: connection.type === DatabaseType.MongoDB ? 'mongodb' : 'sql',
             query,
             timestamp: new Date(),
             executionTime: result.executionTime,
             success: !result.error,
-            error: result.error
-        };
-
-        this.queryHistory.push(entry);
-
-        // Limit history size
-        if (this.queryHistory.length > this.maxHistorySize) {
-            this.queryHistory = this.queryHistory.slice(-this.maxHistorySize);
-        }
-
-        this.saveQueryHistory();
+            error: result.error,
+            rowsReturned: !result.error && result.rows ? result.rowCount : undefined,
+            rowsAffected: !result.error && !result.rows ? result.rowCount : undefined,
+            hasMore: result.hasMore || undefined,
+            snapshot: this.takeSnapshot(result)
+        });
     }
 
     /**
-     * Load query history from storage
+     * First rows of a result for the history, as configured by dbConnector.queryHistorySnapshotRows
+     * Long cell values are cut so entries stay small
      */
-    private async loadQueryHistory(): Promise<void> {
-        try {
-            const stored = this.context.globalState.get<QueryHistoryEntry[]>('queryHistory', []);
-            // Convert timestamp strings back to Date objects
-            this.queryHistory = stored.map(entry => ({
-                ...entry,
-                timestamp: new Date(entry.timestamp)
-            }));
-            Logger.debug(`Loaded ${this.queryHistory.length} query history entries`);
-        } catch (error) {
-            Logger.error('Failed to load query history', error as Error);
+    private takeSnapshot(result: QueryResult): QueryResultSnapshot | undefined {
+        const maxRows = vscode.workspace.getConfiguration('dbConnector').get<number>('queryHistorySnapshotRows', 0);
+        if (maxRows <= 0 || result.error || !result.rows || result.rows.length === 0) {
+            return undefined;
         }
-    }
 
-    /**
-     * Save query history to storage
-     */
-    private async saveQueryHistory(): Promise<void> {
-        try {
-            await this.context.globalState.update('queryHistory', this.queryHistory);
-        } catch (error) {
-            Logger.error('Failed to save query history', error as Error);
-        }
+        const columns = result.fields?.map(f => f.name) || Object.keys(result.rows[0] || {});
+        return {
+            columns,
+            rows: result.rows.slice(0, maxRows).map(row => columns.map(column => {
+                const text = toCellText(row[column]);
+                return text !== null && text.length > 200 ? `${text.substring(0, 200)}…` : text;
+            }))
+        };
     }
 
     /**
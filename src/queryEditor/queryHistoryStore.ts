@@ -0,0 +1,299 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { QueryHistoryEntry } from '../types';
+import { Logger } from '../utils/logger';
+
+/**
+ * Criteria for searching the query history; every given criterion must match
+ */
+export interface HistoryFilter {
+    /** Whitespace-separated terms, all of which must appear in the query, error, connection or database */
+    text?: string;
+    connectionId?: string;
+    database?: string;
+    success?: boolean;
+    /** Only entries that ran at least this many milliseconds */
+    minDuration?: number;
+    since?: Date;
+    until?: Date;
+    pinned?: boolean;
+}
+
+/**
+ * File-backed query history
+ *
+ * Entries live in memory and in an NDJSON file under the extension's global
+ * storage. New entries are appended to the file; deleting, pinning and trimming
+ * rewrite it. Trimming drops the oldest unpinned entries once the history grows
+ * past dbConnector.maxQueryHistorySize, and the file is only compacted when it
+ * carries a sizeable number of dropped lines, so a large history costs one
+ * append per query.
+ */
+export class QueryHistoryStore {
+    private static readonly FILE_NAME = 'queryHistory.ndjson';
+    private static readonly LEGACY_STATE_KEY = 'queryHistory';
+
+    private entries: QueryHistoryEntry[] = [];
+    private fileLines = 0;
+    private pendingAppends: QueryHistoryEntry[] = [];
+    private rewritePending = false;
+    private writes: Promise<void> = Promise.resolve();
+    private loaded: Promise<void>;
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.loaded = this.load();
+        this.writes = this.loaded;
+    }
+
+    /**
+     * Resolve once the history has been read from disk
+     */
+    public ready(): Promise<void> {
+        return this.loaded;
+    }
+
+    /**
+     * All entries, oldest first
+     */
+    public getAll(): QueryHistoryEntry[] {
+        return this.entries;
+    }
+
+    public get(id: string): QueryHistoryEntry | undefined {
+        return this.entries.find(entry => entry.id === id);
+    }
+
+    /**
+     * Entries matching a filter, newest first
+     * @param limit Stop after this many matches
+     */
+    public query(filter: HistoryFilter, limit: number = Number.MAX_SAFE_INTEGER, connectionNames?: Map<string, string>): QueryHistoryEntry[] {
+        const terms = (filter.text || '').toLowerCase().split(/\s+/).filter(term => term.length > 0);
+        const matches: QueryHistoryEntry[] = [];
+
+        for (let i = this.entries.length - 1; i >= 0 && matches.length < limit; i--) {
+            const entry = this.entries[i];
+            if (filter.connectionId !== undefined && entry.connectionId !== filter.connectionId) {
+                continue;
+            }
+            if (filter.database !== undefined && entry.database !== filter.database) {
+                continue;
+            }
+            if (filter.success !== undefined && entry.success !== filter.success) {
+                continue;
+            }
+            if (filter.pinned !== undefined && !!entry.pinned !== filter.pinned) {
+                continue;
+            }
+            if (filter.minDuration !== undefined && entry.executionTime < filter.minDuration) {
+                continue;
+            }
+            if (filter.since && entry.timestamp < filter.since) {
+                continue;
+            }
+            if (filter.until && entry.timestamp > filter.until) {
+                continue;
+            }
+            if (terms.length > 0) {
+                const haystack = [
+                    entry.query,
+                    entry.error || '',
+                    entry.database || '',
+                    connectionNames?.get(entry.connectionId) || ''
+                ].join('\n').toLowerCase();
+                if (!terms.every(term => haystack.includes(term))) {
+                    continue;
+                }
+            }
+            matches.push(entry);
+        }
+
+        return matches;
+    }
+
+    /**
+     * Append an entry and trim the history to the configured size
+     */
+    public add(entry: QueryHistoryEntry): void {
+        this.entries.push(entry);
+        const trimmed = this.trim();
+        if (trimmed && this.fileLines > this.entries.length + Math.max(100, this.entries.length / 10)) {
+            this.rewrite();
+        } else {
+            this.append(entry);
+        }
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Remove a single entry
+     */
+    public delete(id: string): void {
+        const before = this.entries.length;
+        this.entries = this.entries.filter(entry => entry.id !== id);
+        if (this.entries.length !== before) {
+            this.rewrite();
+            this._onDidChange.fire();
+        }
+    }
+
+    /**
+     * Pin or unpin an entry; pinned entries are never trimmed
+     */
+    public setPinned(id: string, pinned: boolean): void {
+        const entry = this.get(id);
+        if (!entry) {
+            return;
+        }
+        entry.pinned = pinned || undefined;
+        this.rewrite();
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Remove every entry
+     * @param keepPinned Leave pinned entries in place
+     */
+    public clear(keepPinned: boolean = false): void {
+        this.entries = keepPinned ? this.entries.filter(entry => entry.pinned) : [];
+        this.rewrite();
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Wait for pending writes to reach the disk
+     */
+    public flush(): Promise<void> {
+        return this.writes;
+    }
+
+    public dispose(): void {
+        this._onDidChange.dispose();
+    }
+
+    /**
+     * Drop the oldest unpinned entries beyond dbConnector.maxQueryHistorySize
+     * @returns Whether anything was dropped
+     */
+    private trim(): boolean {
+        const maxSize = vscode.workspace.getConfiguration('dbConnector').get<number>('maxQueryHistorySize', 10000);
+        let excess = this.entries.length - maxSize;
+        if (excess <= 0) {
+            return false;
+        }
+
+        const kept: QueryHistoryEntry[] = [];
+        for (const entry of this.entries) {
+            if (excess > 0 && !entry.pinned) {
+                excess--;
+            } else {
+                kept.push(entry);
+            }
+        }
+        const trimmed = kept.length !== this.entries.length;
+        this.entries = kept;
+        return trimmed;
+    }
+
+    private getFilePath(): string {
+        return path.join(this.context.globalStorageUri.fsPath, QueryHistoryStore.FILE_NAME);
+    }
+
+    private async load(): Promise<void> {
+        const filePath = this.getFilePath();
+        const stored: QueryHistoryEntry[] = [];
+        try {
+            const content = await fs.promises.readFile(filePath, 'utf8');
+            for (const line of content.split('\n')) {
+                if (!line.trim()) {
+                    continue;
+                }
+                this.fileLines++;
+                try {
+                    stored.push(this.deserialize(JSON.parse(line)));
+                } catch {
+                    Logger.warn('Skipping unreadable query history line');
+                }
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                Logger.error('Failed to load query history', error as Error);
+            }
+        }
+
+        // Entries added before the history moved to a file
+        const legacy = this.context.globalState.get<QueryHistoryEntry[]>(QueryHistoryStore.LEGACY_STATE_KEY);
+        if (legacy && legacy.length > 0) {
+            stored.unshift(...legacy.map(entry => this.deserialize(entry)));
+            try {
+                await this.writeFile(stored);
+                await this.context.globalState.update(QueryHistoryStore.LEGACY_STATE_KEY, undefined);
+                Logger.info(`Migrated ${legacy.length} query history entries to ${filePath}`);
+            } catch (error) {
+                Logger.error('Failed to migrate query history', error as Error);
+            }
+        }
+
+        // Queries run while the file was being read are queued behind the load and appended afterwards
+        this.entries = [...stored, ...this.entries];
+        this.trim();
+        Logger.debug(`Loaded ${this.entries.length} query history entries`);
+        this._onDidChange.fire();
+    }
+
+    private deserialize(raw: QueryHistoryEntry): QueryHistoryEntry {
+        // Timestamps are stored as ISO strings
+        return { ...raw, timestamp: new Date(raw.timestamp) };
+    }
+
+    private append(entry: QueryHistoryEntry): void {
+        this.pendingAppends.push(entry);
+        this.scheduleWrite();
+    }
+
+    /**
+     * Replace the file with the current entries
+     */
+    private rewrite(): void {
+        this.rewritePending = true;
+        this.pendingAppends = [];
+        this.scheduleWrite();
+    }
+
+    /**
+     * Queue a write of whatever is pending when it runs, so appends never interleave with a
+     * rewrite and nothing is written before the existing file has been read
+     */
+    private scheduleWrite(): void {
+        this.writes = this.writes.then(async () => {
+            if (this.rewritePending) {
+                this.rewritePending = false;
+                this.pendingAppends = [];
+                await this.writeFile(this.entries.slice());
+            } else if (this.pendingAppends.length > 0) {
+                const batch = this.pendingAppends;
+                this.pendingAppends = [];
+                await fs.promises.mkdir(path.dirname(this.getFilePath()), { recursive: true });
+                await fs.promises.appendFile(this.getFilePath(), batch.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf8');
+                this.fileLines += batch.length;
+            }
+        }).catch(error => {
+            Logger.error('Failed to save query history', error as Error);
+        });
+    }
+
+    /**
+     * Write entries to a temp file, then rename it over the history file
+     */
+    private async writeFile(entries: QueryHistoryEntry[]): Promise<void> {
+        const filePath = this.getFilePath();
+        const tempPath = `${filePath}.tmp`;
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(tempPath, entries.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf8');
+        await fs.promises.rename(tempPath, filePath);
+        this.fileLines = entries.length;
+    }
+}
@@ -0,0 +1,172 @@
+import { DatabaseType, ExportFormat } from '../types';
+import { DataEditor } from './dataEditor';
+import { escapeXml } from '../utils/xml';
+
+/**
+ * Export format shown in the results panel menu and the export command
+ */
+export interface ExportFormatOption {
+    format: ExportFormat;
+    label: string;
+    extension: string;
+    /** Save dialog filter name */
+    filter: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatOption[] = [
+    { format: ExportFormat.CSV, label: 'CSV', extension: 'csv', filter: 'CSV' },
+    { format: ExportFormat.JSON, label: 'JSON', extension: 'json', filter: 'JSON' },
+    { format: ExportFormat.NDJSON, label: 'NDJSON (JSON Lines)', extension: 'ndjson', filter: 'NDJSON' },
+    { format: ExportFormat.Excel, label: 'Excel', extension: 'xlsx', filter: 'Excel Workbook' },
+    { format: ExportFormat.SqlInsert, label: 'SQL INSERT statements', extension: 'sql', filter: 'SQL' },
+    { format: ExportFormat.Markdown, label: 'Markdown table', extension: 'md', filter: 'Markdown' },
+    { format: ExportFormat.XML, label: 'XML', extension: 'xml', filter: 'XML' }
+];
+
+/**
+ * Look up a format by its id
+ */
+export function getExportFormat(format: string): ExportFormatOption | undefined {
+    return EXPORT_FORMATS.find(option => option.format === format);
+}
+
+/**
+ * Target of an INSERT script: the (unquoted) table name parts and the SQL dialect
+ */
+export interface InsertTarget {
+    table: string[];
+    dbType: DatabaseType;
+    dataEditor: DataEditor;
+}
+
+/**
+ * Convert rows to the given text format
+ * INSERT scripts need the target table and dialect
+ */
+export function formatRows(format: ExportFormat, rows: any[], columns: string[], insertTarget?: InsertTarget): string {
+    switch (format) {
+        case ExportFormat.JSON:
+            return JSON.stringify(rows, null, 2);
+        case ExportFormat.NDJSON:
+            return toNdjson(rows);
+        case ExportFormat.Markdown:
+            return toMarkdown(rows, columns);
+        case ExportFormat.XML:
+            return toXml(rows, columns);
+        case ExportFormat.SqlInsert:
+            if (!insertTarget) {
+                throw new Error('No target table for the INSERT statements');
+            }
+            return toSqlInserts(rows, columns, insertTarget);
+        default:
+            return toCsv(rows, columns);
+    }
+}
+
+/**
+ * Convert rows to CSV format
+ */
+function toCsv(rows: any[], columns: string[]): string {
+    const header = columns.map(col => escapeCsvValue(col)).join(',');
+
+    const dataRows = rows.map(row =>
+        columns.map(col => {
+            const value = row[col];
+            return escapeCsvValue(value === null || value === undefined ? '' : String(value));
+        }).join(',')
+    );
+
+    return [header, ...dataRows].join('\n');
+}
+
+/**
+ * Convert rows to newline-delimited JSON, one object per line
+ */
+function toNdjson(rows: any[]): string {
+    return rows.map(row => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : '');
+}
+
+/**
+ * Convert rows to a GitHub-flavored Markdown table
+ */
+function toMarkdown(rows: any[], columns: string[]): string {
+    const escapeCell = (text: string) => text
+        .replace(/\\/g, '\\\\')
+        .replace(/\|/g, '\\|')
+        .replace(/\r?\n/g, '<br>');
+
+    const lines = [
+        `| ${columns.map(col => escapeCell(col)).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${columns.map(col => {
+            const value = row[col];
+            return value === null || value === undefined ? 'NULL' : escapeCell(toText(value));
+        }).join(' | ')} |`)
+    ];
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Convert rows to XML: <results><row><column name="...">value</column></row></results>
+ * NULL values are written as empty elements with null="true"
+ */
+function toXml(rows: any[], columns: string[]): string {
+    const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<results>'];
+
+    for (const row of rows) {
+        lines.push('  <row>');
+        for (const col of columns) {
+            const value = row[col];
+            const name = escapeXml(col);
+            if (value === null || value === undefined) {
+                lines.push(`    <column name="${name}" null="true"/>`);
+            } else {
+                lines.push(`    <column name="${name}">${escapeXml(toText(value))}</column>`);
+            }
+        }
+        lines.push('  </row>');
+    }
+
+    lines.push('</results>');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Convert rows to one INSERT statement per row in the target dialect
+ */
+function toSqlInserts(rows: any[], columns: string[], target: InsertTarget): string {
+    const { dataEditor, dbType } = target;
+    const table = target.table.map(part => dataEditor.quoteIdentifier(part, dbType)).join('.');
+    const columnList = columns.map(col => dataEditor.quoteIdentifier(col, dbType)).join(', ');
+
+    return rows.map(row =>
+        `INSERT INTO ${table} (${columnList}) VALUES (${columns.map(col => dataEditor.formatValue(row[col], dbType)).join(', ')});`
+    ).join('\n') + (rows.length > 0 ? '\n' : '');
+}
+
+/**
+ * Escape CSV value
+ */
+function escapeCsvValue(value: string): string {
+    if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+        return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+}
+
+/**
+ * Text form of a value for text-based formats
+ */
+function toText(value: any): string {
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (Buffer.isBuffer(value)) {
+        return `0x${value.toString('hex')}`;
+    }
+    if (typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+    return String(value);
+}
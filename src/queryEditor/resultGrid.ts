@@ -0,0 +1,922 @@
+/**
+ * Client-side view settings of a results grid: sort, filters, search and column layout
+ * Column numbers are indexes into the result columns, whatever order they are shown in
+ */
+export interface GridState {
+    /** Sort keys in priority order */
+    sort: { column: number; descending: boolean }[];
+    /** Filter expression per column */
+    filters: Record<number, string>;
+    search: string;
+    hidden: number[];
+    /** Display order of the columns; empty keeps the order of the query */
+    order: number[];
+    /** Column widths in pixels */
+    widths: Record<number, number>;
+}
+
+/**
+ * Row as posted to the grid: cell texts in result column order (null for NULL)
+ */
+export interface GridRow {
+    /** Position of the row in the panel's row list, used to address edits */
+    index: number;
+    values: (string | null)[];
+    /** Pending insert or delete in edit mode */
+    status?: 'new' | 'deleted';
+    /** Columns with a pending update in edit mode */
+    modified?: number[];
+}
+
+/**
+ * Options of the grid script
+ */
+export interface GridOptions {
+    columns: string[];
+    /** Edit mode: cells are edited on double-click and rows get delete buttons */
+    editable: boolean;
+    /** Key columns, read-only in edit mode; matched case-insensitively */
+    primaryKeys: string[];
+    /** Row whose statement made the last save roll back */
+    failedRow?: { rowIndex: number; error: string };
+    /** State to restore, e.g. when the grid is re-rendered for edit mode */
+    state?: GridState;
+    /** Render of the panel the grid belongs to; rows of an older render are ignored */
+    version: number;
+    /** Result tab of a page with several grids; suffixes the element ids and is sent with every message */
+    tab?: number;
+}
+
+/**
+ * Id of a grid element, suffixed with the result tab on a page with several grids
+ */
+function gridElementId(name: string, tab?: number): string {
+    return tab === undefined ? name : `${name}-${tab}`;
+}
+
+/**
+ * Text of a cell value as the grid shows it
+ */
+export function toCellText(value: any): string | null {
+    return value === null || value === undefined ? null : String(value);
+}
+
+/**
+ * Styles of the grid and its controls, added to the page styles
+ */
+export function getGridStyles(): string {
+    return `
+        .grid-viewport {
+            flex: 1;
+            min-height: 150px;
+            overflow: auto;
+            border: 1px solid var(--vscode-panel-border);
+        }
+        table.results-grid {
+            table-layout: fixed;
+            border-collapse: collapse;
+        }
+        table.results-grid th,
+        table.results-grid td {
+            border: 1px solid var(--vscode-panel-border);
+            padding: 0 8px;
+            text-align: left;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        table.results-grid td {
+            height: 28px;
+        }
+        table.results-grid thead {
+            position: sticky;
+            top: 0;
+            z-index: 1;
+        }
+        table.results-grid th {
+            position: relative;
+            height: 30px;
+            background-color: var(--vscode-editor-selectionBackground);
+            font-weight: bold;
+        }
+        table.results-grid th[data-column-index] {
+            cursor: pointer;
+            user-select: none;
+        }
+        table.results-grid th.pk {
+            background-color: var(--vscode-editorGutter-modifiedBackground);
+        }
+        table.results-grid th.drop-target {
+            box-shadow: inset 2px 0 0 var(--vscode-focusBorder);
+        }
+        table.results-grid tr.grid-row.alternate {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+        table.results-grid tr.grid-row:hover {
+            background-color: var(--vscode-list-activeSelectionBackground);
+        }
+        table.results-grid tr.grid-spacer td {
+            height: auto;
+            padding: 0;
+            border: none;
+        }
+        table.results-grid tr.deleted {
+            background-color: var(--vscode-diffEditor-removedTextBackground) !important;
+            text-decoration: line-through;
+            opacity: 0.6;
+        }
+        table.results-grid tr.new-row {
+            background-color: var(--vscode-diffEditor-insertedTextBackground) !important;
+        }
+        table.results-grid tr.failed {
+            outline: 2px solid var(--vscode-inputValidation-errorBorder);
+            background-color: var(--vscode-inputValidation-errorBackground) !important;
+        }
+        table.results-grid td.editable {
+            cursor: pointer;
+        }
+        table.results-grid td.editable:hover {
+            background-color: var(--vscode-editor-hoverHighlightBackground);
+        }
+        table.results-grid td.modified {
+            background-color: var(--vscode-editorGutter-modifiedBackground) !important;
+        }
+        table.results-grid td.pk-cell {
+            background-color: var(--vscode-editorGutter-background);
+            font-weight: bold;
+        }
+        table.results-grid td.row-actions {
+            padding: 0 4px;
+        }
+        table.results-grid td.row-actions button {
+            padding: 1px 8px;
+            font-size: 12px;
+        }
+        table.results-grid button.delete-btn {
+            background-color: var(--vscode-testing-iconFailed);
+        }
+        .null-value {
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+        }
+        .cell-input {
+            width: 100%;
+            box-sizing: border-box;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            padding: 2px 4px;
+            font-family: inherit;
+            font-size: inherit;
+        }
+        .sort-indicator {
+            margin-left: 4px;
+            font-size: 0.8em;
+            color: var(--vscode-descriptionForeground);
+        }
+        .grid-resizer {
+            position: absolute;
+            top: 0;
+            right: 0;
+            width: 6px;
+            height: 100%;
+            cursor: col-resize;
+        }
+        tr.grid-filter-row th {
+            padding: 3px 4px;
+            font-weight: normal;
+            cursor: default;
+        }
+        tr.grid-filter-row input,
+        .grid-search {
+            width: 100%;
+            box-sizing: border-box;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            padding: 2px 4px;
+            font-family: inherit;
+            font-size: 0.9em;
+        }
+        .grid-search {
+            width: 200px;
+            padding: 5px 6px;
+        }
+        .grid-columns {
+            position: relative;
+        }
+        button.grid-columns-button {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        .grid-columns-menu {
+            display: none;
+            position: absolute;
+            top: 100%;
+            left: 0;
+            z-index: 2;
+            min-width: 180px;
+            max-height: 300px;
+            overflow: auto;
+            padding: 6px;
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+        }
+        .grid-columns-menu.open {
+            display: block;
+        }
+        .grid-columns-menu label {
+            display: block;
+            padding: 2px 0;
+            white-space: nowrap;
+        }
+        .grid-status {
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.9em;
+        }
+        mark {
+            background-color: var(--vscode-editor-findMatchHighlightBackground);
+            color: inherit;
+        }`;
+}
+
+/**
+ * Search box, column menu and filtered row count, placed in the toolbar
+ */
+export function getGridControlsHtml(tab?: number): string {
+    return `<input type="search" class="grid-search" id="${gridElementId('gridSearch', tab)}" placeholder="Search..." title="Show rows containing the text in any visible column">
+        <div class="grid-columns">
+            <button class="grid-columns-button" id="${gridElementId('gridColumnsButton', tab)}" title="Show, hide or reset columns">Columns</button>
+            <div class="grid-columns-menu" id="${gridElementId('gridColumnsMenu', tab)}"></div>
+        </div>
+        <span class="grid-status" id="${gridElementId('gridStatus', tab)}"></span>`;
+}
+
+/**
+ * Scrolling container of the grid table
+ */
+export function getGridTableHtml(tab?: number): string {
+    return `<div class="grid-viewport" id="${gridElementId('gridViewport', tab)}">
+        <table class="results-grid" id="${gridElementId('gridTable', tab)}">
+            <colgroup></colgroup>
+            <thead></thead>
+            <tbody></tbody>
+        </table>
+    </div>`;
+}
+
+/**
+ * Webview script of the results grid, an expression evaluating to the grid object
+ * Keeps every row posted by the panel in memory and renders only the rows in view, so sorting,
+ * filtering and search run on the data rather than the DOM. Needs the vscode API object in the page;
+ * the grid asks for its rows with a gridReady message and posts each view change as gridState
+ */
+export function getGridScript(options: GridOptions): string {
+    const id = (name: string) => JSON.stringify(gridElementId(name, options.tab));
+    return `(() => {
+            const tab = ${JSON.stringify(options.tab ?? null)};
+            const columns = ${JSON.stringify(options.columns)};
+            const editable = ${options.editable};
+            const primaryKeys = ${JSON.stringify(options.primaryKeys.map(key => key.toLowerCase()))};
+            const failedRow = ${JSON.stringify(options.failedRow || null)};
+            const state = Object.assign({ sort: [], filters: {}, search: '', hidden: [], order: [], widths: {} }, ${JSON.stringify(options.state || {})});
+            const viewport = document.getElementById(${id('gridViewport')});
+            const table = document.getElementById(${id('gridTable')});
+            const colgroup = table.querySelector('colgroup');
+            const thead = table.tHead;
+            const tbody = table.tBodies[0];
+            const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+            const overscan = 10;
+            const actionsWidth = 60;
+            const rows = [];
+            let view = [];
+            let defaultWidths = columns.map(column => Math.min(300, Math.max(80, column.length * 8 + 40)));
+            let rowHeight = 0;
+            let renderPending = false;
+            let editing = null;
+            let applyTimer;
+            let draggedColumn;
+            let resizing = false;
+
+            function getOrder() {
+                const order = state.order.filter(column => column < columns.length);
+                columns.forEach((_, column) => {
+                    if (!order.includes(column)) {
+                        order.push(column);
+                    }
+                });
+                return order;
+            }
+
+            function getVisibleColumns() {
+                return getOrder().filter(column => !state.hidden.includes(column));
+            }
+
+            function isKey(column) {
+                return primaryKeys.includes(columns[column].toLowerCase());
+            }
+
+            function toNumber(value) {
+                return value !== null && value.trim() !== '' ? Number(value) : NaN;
+            }
+
+            function toDate(value) {
+                return /\\d{4}/.test(value) && /[-:/]/.test(value) ? Date.parse(value) : NaN;
+            }
+
+            function compareValues(a, b) {
+                const x = toNumber(a);
+                const y = toNumber(b);
+                if (!isNaN(x) && !isNaN(y)) {
+                    return x - y;
+                }
+                const dx = toDate(a);
+                const dy = toDate(b);
+                if (!isNaN(dx) && !isNaN(dy)) {
+                    return dx - dy;
+                }
+                return collator.compare(a, b);
+            }
+
+            // Filters: text (contains), =, !=, >, >=, <, <= a value, min..max, null, not null
+            function parseFilter(text) {
+                const expression = (text || '').trim();
+                const lower = expression.toLowerCase();
+                if (!expression) {
+                    return undefined;
+                }
+                if (lower === 'null' || lower === 'is null') {
+                    return value => value === null;
+                }
+                if (lower === 'not null' || lower === '!null' || lower === 'is not null') {
+                    return value => value !== null;
+                }
+                const range = expression.match(/^(-?[\\d.]+)\\s*\\.\\.\\s*(-?[\\d.]+)$/);
+                if (range) {
+                    const min = Number(range[1]);
+                    const max = Number(range[2]);
+                    return value => toNumber(value) >= min && toNumber(value) <= max;
+                }
+                const comparison = expression.match(/^(>=|<=|!=|>|<|=)\\s*(.*)$/);
+                if (comparison) {
+                    const operator = comparison[1];
+                    const operand = comparison[2];
+                    return value => {
+                        if (value === null) {
+                            return false;
+                        }
+                        const result = isNaN(toNumber(operand)) || isNaN(toNumber(value))
+                            ? collator.compare(value, operand)
+                            : toNumber(value) - toNumber(operand);
+                        switch (operator) {
+                            case '=': return result === 0;
+                            case '!=': return result !== 0;
+                            case '>': return result > 0;
+                            case '>=': return result >= 0;
+                            case '<': return result < 0;
+                            default: return result <= 0;
+                        }
+                    };
+                }
+                return value => value !== null && value.toLowerCase().includes(lower);
+            }
+
+            // Filter and sort the rows into the view, then render the window
+            function apply() {
+                const filters = Object.keys(state.filters)
+                    .map(column => ({ column: Number(column), test: parseFilter(state.filters[column]) }))
+                    .filter(filter => filter.test);
+                const search = state.search.trim().toLowerCase();
+                view = [];
+                rows.forEach((row, position) => {
+                    const visible = filters.every(filter => filter.test(row.values[filter.column]))
+                        && (!search || row.values.some((value, column) =>
+                            value !== null && !state.hidden.includes(column) && value.toLowerCase().includes(search)));
+                    if (visible) {
+                        view.push(position);
+                    }
+                });
+
+                if (state.sort.length > 0) {
+                    view.sort((a, b) => {
+                        for (const key of state.sort) {
+                            const x = rows[a].values[key.column];
+                            const y = rows[b].values[key.column];
+                            if (x === y) {
+                                continue;
+                            }
+                            // NULLs go last in both directions
+                            if (x === null || y === null) {
+                                return x === null ? 1 : -1;
+                            }
+                            const result = compareValues(x, y);
+                            if (result !== 0) {
+                                return key.descending ? -result : result;
+                            }
+                        }
+                        return a - b;
+                    });
+                }
+
+                document.getElementById(${id('gridStatus')}).textContent = view.length < rows.length
+                    ? 'Showing ' + view.length + ' of ' + rows.length + ' rows'
+                    : '';
+                updateSortIndicators();
+                render();
+            }
+
+            function scheduleApply() {
+                clearTimeout(applyTimer);
+                applyTimer = setTimeout(() => {
+                    apply();
+                    save();
+                }, 150);
+            }
+
+            function scheduleRender() {
+                if (renderPending) {
+                    return;
+                }
+                renderPending = true;
+                requestAnimationFrame(() => {
+                    renderPending = false;
+                    render();
+                });
+            }
+
+            function save() {
+                vscode.postMessage({ command: 'gridState', state: state, tab: tab });
+            }
+
+            function getWidth(column) {
+                return state.widths[column] || defaultWidths[column];
+            }
+
+            function renderLayout() {
+                const visible = getVisibleColumns();
+                colgroup.innerHTML = '';
+                if (editable) {
+                    const col = document.createElement('col');
+                    col.style.width = actionsWidth + 'px';
+                    colgroup.appendChild(col);
+                }
+                visible.forEach(column => {
+                    const col = document.createElement('col');
+                    col.style.width = getWidth(column) + 'px';
+                    colgroup.appendChild(col);
+                });
+                table.style.width = visible.reduce((sum, column) => sum + getWidth(column), editable ? actionsWidth : 0) + 'px';
+            }
+
+            function renderHeader() {
+                const visible = getVisibleColumns();
+                thead.innerHTML = '';
+                const headerRow = thead.insertRow();
+                const filterRow = thead.insertRow();
+                filterRow.className = 'grid-filter-row';
+                if (editable) {
+                    const th = document.createElement('th');
+                    th.textContent = 'Actions';
+                    headerRow.appendChild(th);
+                    filterRow.appendChild(document.createElement('th'));
+                }
+                visible.forEach(column => {
+                    headerRow.appendChild(createHeaderCell(column));
+                    const cell = document.createElement('th');
+                    const input = document.createElement('input');
+                    cell.dataset.columnIndex = column;
+                    input.placeholder = 'Filter';
+                    input.title = 'Text to find, =, !=, >, >=, <, <= a value, min..max, null or not null';
+                    input.value = state.filters[column] || '';
+                    input.addEventListener('input', () => {
+                        state.filters[column] = input.value;
+                        scheduleApply();
+                    });
+                    cell.appendChild(input);
+                    filterRow.appendChild(cell);
+                });
+                renderLayout();
+                updateSortIndicators();
+            }
+
+            function createHeaderCell(column) {
+                const th = document.createElement('th');
+                const key = editable && isKey(column);
+                th.dataset.columnIndex = column;
+                th.className = key ? 'pk' : '';
+                th.textContent = (key ? '🔑 ' : '') + columns[column];
+                th.title = (key ? 'Primary Key - ' : '') + 'Click to sort, Shift+click to add a sort column, drag to move';
+                const indicator = document.createElement('span');
+                indicator.className = 'sort-indicator';
+                th.appendChild(indicator);
+
+                th.addEventListener('click', event => {
+                    if (!resizing) {
+                        toggleSort(column, event.shiftKey);
+                    }
+                });
+                th.draggable = true;
+                th.addEventListener('dragstart', event => {
+                    if (resizing) {
+                        event.preventDefault();
+                        return;
+                    }
+                    draggedColumn = column;
+                    event.dataTransfer.effectAllowed = 'move';
+                });
+                th.addEventListener('dragover', event => {
+                    if (draggedColumn !== undefined && draggedColumn !== column) {
+                        event.preventDefault();
+                        th.classList.add('drop-target');
+                    }
+                });
+                th.addEventListener('dragleave', () => th.classList.remove('drop-target'));
+                th.addEventListener('drop', event => {
+                    event.preventDefault();
+                    th.classList.remove('drop-target');
+                    if (draggedColumn === undefined || draggedColumn === column) {
+                        return;
+                    }
+                    const order = getOrder().filter(c => c !== draggedColumn);
+                    order.splice(order.indexOf(column), 0, draggedColumn);
+                    state.order = order;
+                    draggedColumn = undefined;
+                    renderHeader();
+                    render();
+                    save();
+                });
+                th.addEventListener('dragend', () => {
+                    draggedColumn = undefined;
+                });
+
+                const resizer = document.createElement('span');
+                resizer.className = 'grid-resizer';
+                resizer.addEventListener('click', event => event.stopPropagation());
+                resizer.addEventListener('mousedown', event => {
+                    event.preventDefault();
+                    resizing = true;
+                    const startX = event.clientX;
+                    const startWidth = getWidth(column);
+                    const onMove = moveEvent => {
+                        state.widths[column] = Math.max(40, startWidth + moveEvent.clientX - startX);
+                        renderLayout();
+                    };
+                    const onUp = () => {
+                        // Let the click that ends the drag pass without sorting
+                        setTimeout(() => {
+                            resizing = false;
+                        });
+                        document.removeEventListener('mousemove', onMove);
+                        document.removeEventListener('mouseup', onUp);
+                        save();
+                    };
+                    document.addEventListener('mousemove', onMove);
+                    document.addEventListener('mouseup', onUp);
+                });
+                th.appendChild(resizer);
+                return th;
+            }
+
+            function updateSortIndicators() {
+                thead.querySelectorAll('th[data-column-index] .sort-indicator').forEach(indicator => {
+                    const position = state.sort.findIndex(key => key.column === Number(indicator.parentElement.dataset.columnIndex));
+                    const key = state.sort[position];
+                    indicator.textContent = key ? (key.descending ? '▼' : '▲') + (state.sort.length > 1 ? position + 1 : '') : '';
+                });
+            }
+
+            function toggleSort(column, additive) {
+                const key = state.sort.find(k => k.column === column);
+                if (!additive) {
+                    // Ascending, descending, then unsorted
+                    state.sort = key && state.sort.length === 1
+                        ? (key.descending ? [] : [{ column: column, descending: true }])
+                        : [{ column: column, descending: false }];
+                } else if (!key) {
+                    state.sort.push({ column: column, descending: false });
+                } else if (!key.descending) {
+                    key.descending = true;
+                } else {
+                    state.sort = state.sort.filter(k => k !== key);
+                }
+                apply();
+                save();
+            }
+
+            function appendText(cell, text, term) {
+                const lower = text.toLowerCase();
+                let index = term ? lower.indexOf(term) : -1;
+                let last = 0;
+                while (index >= 0) {
+                    cell.append(text.substring(last, index));
+                    const mark = document.createElement('mark');
+                    mark.textContent = text.substring(index, index + term.length);
+                    cell.append(mark);
+                    last = index + term.length;
+                    index = lower.indexOf(term, last);
+                }
+                cell.append(text.substring(last));
+            }
+
+            function createRow(row, position, search) {
+                const tr = document.createElement('tr');
+                const isFailed = failedRow !== null && failedRow.rowIndex === row.index;
+                // Striped by position in the view, since the rendered window starts anywhere
+                tr.className = ['grid-row', position % 2 === 1 ? 'alternate' : '', row.status === 'deleted' ? 'deleted' : '', row.status === 'new' ? 'new-row' : '', isFailed ? 'failed' : '']
+                    .filter(Boolean).join(' ');
+                tr.dataset.rowIndex = row.index;
+                if (isFailed) {
+                    tr.title = failedRow.error;
+                }
+                if (editable) {
+                    const actions = document.createElement('td');
+                    const button = document.createElement('button');
+                    actions.className = 'row-actions';
+                    button.className = row.status === 'deleted' ? 'undo-btn' : 'delete-btn';
+                    button.textContent = row.status === 'deleted' ? '↩️' : '🗑️';
+                    button.title = row.status === 'deleted' ? 'Undo delete' : 'Delete row';
+                    actions.appendChild(button);
+                    tr.appendChild(actions);
+                }
+                getVisibleColumns().forEach(column => {
+                    const td = document.createElement('td');
+                    const value = row.values[column];
+                    const key = editable && isKey(column);
+                    td.dataset.columnIndex = column;
+                    td.className = [
+                        value === null ? 'null-value' : '',
+                        key ? 'pk-cell' : '',
+                        editable && !key && row.status !== 'deleted' ? 'editable' : '',
+                        row.modified.has(column) ? 'modified' : ''
+                    ].filter(Boolean).join(' ');
+                    if (value === null) {
+                        td.textContent = 'NULL';
+                    } else {
+                        appendText(td, value, search);
+                        td.title = value;
+                    }
+                    tr.appendChild(td);
+                });
+                return tr;
+            }
+
+            function createSpacer(height) {
+                const tr = document.createElement('tr');
+                const td = document.createElement('td');
+                tr.className = 'grid-spacer';
+                td.colSpan = getVisibleColumns().length + (editable ? 1 : 0);
+                td.style.height = height + 'px';
+                tr.appendChild(td);
+                return tr;
+            }
+
+            // Render only the rows in view, with spacers standing in for the rest
+            function render() {
+                if (editing) {
+                    finishEdit(true);
+                }
+                const height = rowHeight || 29;
+                const first = Math.max(0, Math.floor(viewport.scrollTop / height) - overscan);
+                const last = Math.min(view.length, first + Math.ceil(viewport.clientHeight / height) + overscan * 2);
+                const search = state.search.trim().toLowerCase();
+                const fragment = document.createDocumentFragment();
+                fragment.appendChild(createSpacer(first * height));
+                for (let position = first; position < last; position++) {
+                    fragment.appendChild(createRow(rows[view[position]], position, search));
+                }
+                fragment.appendChild(createSpacer((view.length - last) * height));
+                tbody.innerHTML = '';
+                tbody.appendChild(fragment);
+
+                // A grid in a hidden tab has no height to measure yet
+                if (!rowHeight && last > first && viewport.clientHeight > 0) {
+                    rowHeight = tbody.rows[1].getBoundingClientRect().height || height;
+                    if (rowHeight !== height) {
+                        render();
+                    }
+                }
+            }
+
+            function reveal(position) {
+                const height = rowHeight || 29;
+                const top = position * height;
+                const headerHeight = thead.getBoundingClientRect().height;
+                if (top < viewport.scrollTop) {
+                    viewport.scrollTop = top;
+                } else if (top + height > viewport.scrollTop + viewport.clientHeight - headerHeight) {
+                    viewport.scrollTop = top + height - viewport.clientHeight + headerHeight;
+                }
+                render();
+            }
+
+            function addRows(gridRows, revealAdded) {
+                const start = rows.length;
+                gridRows.forEach(row => rows.push({
+                    index: row.index,
+                    values: row.values,
+                    status: row.status,
+                    modified: new Set(row.modified || [])
+                }));
+                if (start === 0 && rows.length > 0) {
+                    // Size columns to the header and the first rows unless resized
+                    defaultWidths = columns.map((column, i) => {
+                        const longest = rows.slice(0, 200).reduce((max, row) => Math.max(max, (row.values[i] || 'NULL').length), column.length);
+                        return Math.min(300, Math.max(80, longest * 8 + 24));
+                    });
+                    renderLayout();
+                }
+                apply();
+                if (revealAdded && gridRows.length > 0) {
+                    const position = view.indexOf(rows.length - 1);
+                    if (position >= 0) {
+                        reveal(position);
+                    }
+                }
+            }
+
+            function startEdit(td) {
+                if (editing) {
+                    finishEdit(true);
+                }
+                const row = rows.find(r => r.index === Number(td.parentElement.dataset.rowIndex));
+                const column = Number(td.dataset.columnIndex);
+                const input = document.createElement('input');
+                input.type = 'text';
+                input.className = 'cell-input';
+                input.value = row.values[column] === null ? '' : row.values[column];
+                td.textContent = '';
+                td.appendChild(input);
+                input.focus();
+                input.select();
+                editing = { td: td, input: input, row: row, column: column };
+
+                input.addEventListener('blur', () => {
+                    if (editing && editing.input === input) {
+                        finishEdit(true);
+                        render();
+                    }
+                });
+                input.addEventListener('keydown', event => {
+                    if (event.key === 'Enter') {
+                        finishEdit(true);
+                        render();
+                    } else if (event.key === 'Escape') {
+                        finishEdit(false);
+                        render();
+                    } else if (event.key === 'Tab') {
+                        event.preventDefault();
+                        finishEdit(true);
+                        editNext(row, column, event.shiftKey);
+                    }
+                });
+            }
+
+            // An empty input means NULL, the only way the grid offers to enter one
+            function finishEdit(commit) {
+                const current = editing;
+                editing = null;
+                const oldValue = current.row.values[current.column];
+                const newValue = current.input.value === '' ? null : current.input.value;
+                if (!commit || oldValue === newValue) {
+                    return;
+                }
+                current.row.values[current.column] = newValue;
+                current.row.modified.add(current.column);
+                vscode.postMessage({
+                    command: 'cellChanged',
+                    change: {
+                        rowIndex: current.row.index,
+                        column: columns[current.column],
+                        oldValue: oldValue,
+                        newValue: newValue
+                    }
+                });
+            }
+
+            function editNext(row, column, backwards) {
+                const visible = getVisibleColumns().filter(c => !isKey(c));
+                const step = backwards ? -1 : 1;
+                let position = view.indexOf(rows.indexOf(row));
+                let columnPosition = visible.indexOf(column) + step;
+                while (position >= 0 && position < view.length) {
+                    if (columnPosition < 0 || columnPosition >= visible.length) {
+                        position += step;
+                        columnPosition = backwards ? visible.length - 1 : 0;
+                        continue;
+                    }
+                    if (rows[view[position]].status === 'deleted') {
+                        position += step;
+                        continue;
+                    }
+                    reveal(position);
+                    const index = rows[view[position]].index;
+                    const td = tbody.querySelector('tr[data-row-index="' + index + '"] td[data-column-index="' + visible[columnPosition] + '"]');
+                    if (td) {
+                        startEdit(td);
+                    }
+                    return;
+                }
+                render();
+            }
+
+            function renderColumnsMenu() {
+                const menu = document.getElementById(${id('gridColumnsMenu')});
+                menu.innerHTML = '';
+                getOrder().forEach(column => {
+                    const label = document.createElement('label');
+                    const checkbox = document.createElement('input');
+                    checkbox.type = 'checkbox';
+                    checkbox.checked = !state.hidden.includes(column);
+                    checkbox.addEventListener('change', () => {
+                        state.hidden = checkbox.checked ? state.hidden.filter(c => c !== column) : [...state.hidden, column];
+                        renderHeader();
+                        apply();
+                        save();
+                    });
+                    label.append(checkbox, ' ' + columns[column]);
+                    menu.appendChild(label);
+                });
+                const reset = document.createElement('button');
+                reset.className = 'grid-columns-button';
+                reset.textContent = 'Reset columns';
+                reset.addEventListener('click', () => {
+                    state.hidden = [];
+                    state.order = [];
+                    state.widths = {};
+                    renderColumnsMenu();
+                    renderHeader();
+                    apply();
+                    save();
+                });
+                menu.appendChild(reset);
+            }
+
+            // Rows in view order and visible columns as tab-separated text
+            function getText() {
+                const visible = getVisibleColumns();
+                const lines = [visible.map(column => columns[column]).join('\\t')];
+                view.forEach(position => {
+                    lines.push(visible.map(column => {
+                        const value = rows[position].values[column];
+                        return value === null ? 'NULL' : value;
+                    }).join('\\t'));
+                });
+                return lines.join('\\n');
+            }
+
+            tbody.addEventListener('dblclick', event => {
+                const td = event.target.closest('td.editable');
+                if (td && !td.querySelector('input')) {
+                    startEdit(td);
+                }
+            });
+            tbody.addEventListener('click', event => {
+                const button = event.target.closest('.row-actions button');
+                if (!button) {
+                    return;
+                }
+                const index = Number(button.closest('tr').dataset.rowIndex);
+                if (button.classList.contains('undo-btn')) {
+                    // Deletes are not tracked one by one; undoing one discards all changes
+                    vscode.postMessage({ command: 'discardChanges' });
+                    return;
+                }
+                rows.find(row => row.index === index).status = 'deleted';
+                vscode.postMessage({ command: 'deleteRow', rowIndex: index });
+                render();
+            });
+            viewport.addEventListener('scroll', scheduleRender);
+            window.addEventListener('resize', scheduleRender);
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                if (message.command === 'rows' && message.version === ${options.version} && (message.tab ?? null) === tab) {
+                    addRows(message.rows, message.reveal);
+                }
+            });
+
+            const search = document.getElementById(${id('gridSearch')});
+            search.value = state.search;
+            search.addEventListener('input', () => {
+                state.search = search.value;
+                scheduleApply();
+            });
+
+            const menu = document.getElementById(${id('gridColumnsMenu')});
+            document.getElementById(${id('gridColumnsButton')}).addEventListener('click', () => {
+                renderColumnsMenu();
+                menu.classList.toggle('open');
+            });
+            document.addEventListener('click', event => {
+                if (event.target.closest('.grid-columns') !== menu.parentElement) {
+                    menu.classList.remove('open');
+                }
+            });
+
+            renderHeader();
+            apply();
+            vscode.postMessage({ command: 'gridReady', version: ${options.version}, tab: tab });
+            return { addRows: addRows, getText: getText, render: render };
+        })();`;
+}
@@ -1,9 +1,13 @@
 import * as vscode from 'vscode';
-import { QueryResult } from '../types';
+import { QueryResult, QueryCursor, ExportFormat, DatabaseType, ForeignKeyInfo } from '../types';
 import { Logger } from '../utils/logger';
+import { getQueryTimeout, withQueryTimeout } from '../utils/timeouts';
+import { buildXlsx } from '../utils/xlsxWriter';
 import { MultiQueryResult } from './queryExecutor';
-import { DataEditor, EditableTableInfo, CellChange, NewRow, DeletedRow } from './dataEditor';
+import { DataEditor, EditableTableInfo, CellChange, NewRow, DeletedRow, RowConflict } from './dataEditor';
 import { ConnectionManager } from '../connectionManager';
+import { EXPORT_FORMATS, formatRows, getExportFormat, InsertTarget } from './resultFormatters';
+import { GridRow, GridState, getGridControlsHtml, getGridScript, getGridStyles, getGridTableHtml, toCellText } from './resultGrid';
 
 /**
  * Edit mode state
@@ -17,6 +21,39 @@ interface EditModeState {
     connectionId: string;
     database?: string;
     query: string;
+    /** Row whose statement made the last save roll back */
+    failedRow?: { rowIndex: number; error: string };
+    /** Row that failed the optimistic concurrency check on the last save */
+    conflict?: RowConflict;
+}
+
+/**
+ * Foreign key that a result column takes part in
+ */
+interface ForeignKeyLink {
+    foreignKey: ForeignKeyInfo;
+    /** Qualified, quoted name of the referenced table */
+    table: string;
+    /** Result columns holding the key, in constraint order */
+    columns: string[];
+}
+
+/**
+ * Rows per message when the grid is filled
+ */
+const GRID_CHUNK_SIZE = 1000;
+
+/**
+ * Options for exporting the results shown in the panel
+ */
+export interface ResultExportOptions {
+    format: ExportFormat;
+    /** Result tab of a multi-statement run (zero-based); Excel exports every tab when omitted */
+    index?: number;
+    /** File to write; a save dialog is shown when omitted */
+    destination?: vscode.Uri;
+    /** Target table of INSERT scripts, e.g. "schema.table"; asked for when omitted */
+    table?: string;
 }
 
 /**
@@ -28,6 +65,13 @@ export class ResultsPanel {
     private readonly panel: vscode.WebviewPanel;
     private currentResult: QueryResult | undefined;
     private currentResults: MultiQueryResult[] | undefined;
+    private cancelHandler: (() => void) | undefined;
+    private cursor: QueryCursor | undefined;
+    /** Foreign key links per result tab (0 for a single result), keyed by column index */
+    private foreignKeyLinks = new Map<number, Map<number, ForeignKeyLink>>();
+    /** Sort, filters and column layout per result tab (0 for a single result), restored when the grid is re-rendered */
+    private gridStates = new Map<number, GridState>();
+    private gridVersion = 0;
     private editState: EditModeState = {
         enabled: false,
         tableInfo: null,
@@ -53,7 +97,7 @@ export class ResultsPanel {
             async message => {
                 switch (message.command) {
                     case 'export':
-                        this.exportResults(message.format, message.index);
+                        this.exportToFile({ format: message.format, index: message.index });
                         break;
                     case 'copy':
                         this.copyToClipboard(message.data);
@@ -76,6 +120,24 @@ export class ResultsPanel {
                     case 'discardChanges':
                         this.handleDiscardChanges();
                         break;
+                    case 'resolveConflict':
+                        await this.resolveConflict(message.action);
+                        break;
+                    case 'cancelQuery':
+                        this.cancelHandler?.();
+                        break;
+                    case 'loadMore':
+                        await this.loadMoreRows();
+                        break;
+                    case 'gridReady':
+                        await this.postGridRows(message.version, message.tab ?? undefined);
+                        break;
+                    case 'gridState':
+                        this.gridStates.set(message.tab ?? 0, message.state);
+                        break;
+                    case 'openForeignKey':
+                        await this.openForeignKey(message.index, message.rowIndex, message.columnIndex);
+                        break;
                 }
             },
             undefined,
@@ -85,6 +147,7 @@ export class ResultsPanel {
         // Clean up when panel is closed
         this.panel.onDidDispose(() => {
             ResultsPanel.currentPanel = undefined;
+            this.closeCursor();
         });
     }
 
@@ -96,7 +159,8 @@ export class ResultsPanel {
         result: QueryResult, 
         query: string,
         connectionId?: string,
-        database?: string
+        database?: string,
+        cursor?: QueryCursor
     ): void {
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
@@ -105,7 +169,7 @@ export class ResultsPanel {
         // If panel already exists, reveal it
         if (ResultsPanel.currentPanel) {
             ResultsPanel.currentPanel.panel.reveal(column);
-            ResultsPanel.currentPanel.updateResults(result, query, connectionId, database);
+            ResultsPanel.currentPanel.updateResults(result, query, connectionId, database, cursor);
             return;
         }
 
@@ -121,13 +185,47 @@ export class ResultsPanel {
         );
 
         ResultsPanel.currentPanel = new ResultsPanel(panel, context);
-        ResultsPanel.currentPanel.updateResults(result, query, connectionId, database);
+        ResultsPanel.currentPanel.updateResults(result, query, connectionId, database, cursor);
+    }
+
+    /**
+     * Show a running query with a Cancel button
+     * The placeholder is replaced by the next show/showMultiple call
+     */
+    public static showExecuting(context: vscode.ExtensionContext, query: string, onCancel: () => void): void {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (!ResultsPanel.currentPanel) {
+            const panel = vscode.window.createWebviewPanel(
+                'dbConnectorResults',
+                'Query Results',
+                column || vscode.ViewColumn.Two,
+                {
+                    enableScripts: true,
+                    retainContextWhenHidden: true
+                }
+            );
+            ResultsPanel.currentPanel = new ResultsPanel(panel, context);
+        } else {
+            ResultsPanel.currentPanel.panel.reveal(column, true);
+        }
+
+        ResultsPanel.currentPanel.closeCursor();
+        ResultsPanel.currentPanel.cancelHandler = onCancel;
+        ResultsPanel.currentPanel.panel.webview.html = ResultsPanel.currentPanel.getExecutingHtml(query);
     }
 
     /**
      * Show multiple results in the panel with tabs
      */
-    public static showMultiple(context: vscode.ExtensionContext, results: MultiQueryResult[]): void {
+    public static showMultiple(
+        context: vscode.ExtensionContext,
+        results: MultiQueryResult[],
+        connectionId?: string,
+        database?: string
+    ): void {
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
             : undefined;
@@ -135,7 +233,7 @@ export class ResultsPanel {
         // If panel already exists, reveal it
         if (ResultsPanel.currentPanel) {
             ResultsPanel.currentPanel.panel.reveal(column);
-            ResultsPanel.currentPanel.updateMultipleResults(results);
+            ResultsPanel.currentPanel.updateMultipleResults(results, connectionId, database);
             return;
         }
 
@@ -151,13 +249,44 @@ export class ResultsPanel {
         );
 
         ResultsPanel.currentPanel = new ResultsPanel(panel, context);
-        ResultsPanel.currentPanel.updateMultipleResults(results);
+        ResultsPanel.currentPanel.updateMultipleResults(results, connectionId, database);
+    }
+
+    /**
+     * Export the results shown in the panel without going through the webview
+     * Returns the file written, or undefined if nothing was exported
+     */
+    public static async exportResults(options: ResultExportOptions): Promise<vscode.Uri | undefined> {
+        if (!ResultsPanel.currentPanel) {
+            vscode.window.showWarningMessage('No results to export');
+            return undefined;
+        }
+        return ResultsPanel.currentPanel.exportToFile(options);
+    }
+
+    /**
+     * Queries of the result tabs of a multi-statement run
+     * Returns undefined when the panel is closed or shows a single result
+     */
+    public static getResultTabs(): string[] | undefined {
+        return ResultsPanel.currentPanel?.currentResults?.map(entry => entry.query);
     }
 
     /**
      * Update results in the panel (single query)
      */
-    private updateResults(result: QueryResult, query: string, connectionId?: string, database?: string): void {
+    private updateResults(
+        result: QueryResult,
+        query: string,
+        connectionId?: string,
+        database?: string,
+        cursor?: QueryCursor
+    ): void {
+        this.cancelHandler = undefined;
+        if (this.cursor !== cursor) {
+            this.closeCursor();
+            this.cursor = cursor;
+        }
         this.currentResult = result;
         this.currentResults = undefined;
         this.editState = {
@@ -170,13 +299,25 @@ export class ResultsPanel {
             database,
             query: query
         };
+        this.foreignKeyLinks = new Map();
+        this.gridStates = new Map();
         this.panel.webview.html = this.getHtmlContent(result, query);
+        void this.loadForeignKeyLinks(0, query, result);
     }
 
     /**
      * Update results in the panel (multiple queries)
+     * gridStates carries the grid layouts of tabs that are shown again, e.g. when a tab is added
      */
-    private updateMultipleResults(results: MultiQueryResult[]): void {
+    private updateMultipleResults(
+        results: MultiQueryResult[],
+        connectionId?: string,
+        database?: string,
+        activeIndex: number = 0,
+        gridStates: Map<number, GridState> = new Map()
+    ): void {
+        this.cancelHandler = undefined;
+        this.closeCursor();
         this.currentResults = results;
         this.currentResult = results[0]?.result;
         this.editState = {
@@ -185,10 +326,237 @@ export class ResultsPanel {
             dataEditor: null,
             originalRows: [],
             currentRows: [],
-            connectionId: '',
+            connectionId: connectionId || '',
+            database,
             query: ''
         };
-        this.panel.webview.html = this.getMultipleResultsHtml(results);
+        this.foreignKeyLinks = new Map();
+        this.gridStates = gridStates;
+        this.panel.webview.html = this.getMultipleResultsHtml(results, activeIndex);
+        results.forEach((entry, index) => void this.loadForeignKeyLinks(index, entry.query, entry.result));
+    }
+
+    /**
+     * Look up the foreign keys of the table a result was selected from and mark their columns as links
+     * Only single-table SELECTs qualify, the same ones that can be edited
+     */
+    private async loadForeignKeyLinks(index: number, query: string, result: QueryResult): Promise<void> {
+        const { connectionId, database } = this.editState;
+        const manager = ResultsPanel.connectionManager;
+        const connection = connectionId ? manager?.getConnection(connectionId) : undefined;
+        const provider = connectionId ? manager?.getProvider(connectionId) : undefined;
+        if (!manager || !connection || !provider || connection.type === DatabaseType.MongoDB || !result.rows?.length) {
+            return;
+        }
+
+        const dataEditor = new DataEditor(manager, connectionId);
+        const tableInfo = dataEditor.parseQueryForTable(query);
+        if (!tableInfo?.isEditable) {
+            return;
+        }
+
+        const links = this.foreignKeyLinks;
+        try {
+            const source = this.resolveSourceTable(tableInfo, connection.type, database);
+            const foreignKeys = await provider.getForeignKeys(source.database, tableInfo.tableName, source.schema);
+            if (links !== this.foreignKeyLinks) {
+                // The panel moved on to other results meanwhile
+                return;
+            }
+
+            const columns = result.fields?.map(f => f.name) || Object.keys(result.rows[0] || {});
+            const findColumn = (name: string) => columns.find(column => column.toLowerCase() === name.toLowerCase());
+            const columnLinks = new Map<number, ForeignKeyLink>();
+            for (const foreignKey of foreignKeys) {
+                const keyColumns = foreignKey.columns.map(findColumn);
+                if (keyColumns.some(column => column === undefined)) {
+                    continue;
+                }
+
+                const parts = [foreignKey.referencedSchema || source.qualifier, foreignKey.referencedTable];
+                if (connection.type === DatabaseType.MSSQL && tableInfo.database) {
+                    parts.unshift(tableInfo.database);
+                }
+                const link: ForeignKeyLink = {
+                    foreignKey,
+                    table: parts.filter((part): part is string => !!part).map(part => dataEditor.quoteIdentifier(part, connection.type)).join('.'),
+                    columns: keyColumns as string[]
+                };
+                for (const column of link.columns) {
+                    const columnIndex = columns.indexOf(column);
+                    if (!columnLinks.has(columnIndex)) {
+                        columnLinks.set(columnIndex, link);
+                    }
+                }
+            }
+
+            if (columnLinks.size === 0) {
+                return;
+            }
+            links.set(index, columnLinks);
+            this.panel.webview.postMessage({
+                command: 'foreignKeys',
+                index,
+                columns: Array.from(columnLinks, ([columnIndex, link]) => ({
+                    index: columnIndex,
+                    target: `${link.foreignKey.referencedTable}(${link.foreignKey.referencedColumns.join(', ')})`
+                }))
+            });
+        } catch (error) {
+            Logger.error('Failed to load foreign keys of the result', error as Error);
+        }
+    }
+
+    /**
+     * Database and schema to look a selected table up in
+     * MySQL and SQLite read a two-part name as database.table; qualifier is the part to repeat on referenced tables
+     */
+    private resolveSourceTable(
+        tableInfo: EditableTableInfo,
+        dbType: DatabaseType,
+        database?: string
+    ): { database: string; schema?: string; qualifier?: string } {
+        switch (dbType) {
+            case DatabaseType.MySQL:
+            case DatabaseType.MariaDB:
+            case DatabaseType.SQLite: {
+                const qualifier = tableInfo.database || tableInfo.schema;
+                return { database: qualifier || database || '', qualifier };
+            }
+            default:
+                return { database: tableInfo.database || database || '', schema: tableInfo.schema };
+        }
+    }
+
+    /**
+     * Select the row a foreign key cell references and show it in a new result tab
+     */
+    private async openForeignKey(index: number, rowIndex: number, columnIndex: number): Promise<void> {
+        const link = this.foreignKeyLinks.get(index)?.get(columnIndex);
+        const tabs: MultiQueryResult[] = this.currentResults
+            ?? (this.currentResult ? [{ query: this.editState.query, result: this.currentResult }] : []);
+        const row = tabs[index]?.result.rows?.[rowIndex];
+        const { connectionId, database } = this.editState;
+        const connection = ResultsPanel.connectionManager?.getConnection(connectionId);
+        const provider = ResultsPanel.connectionManager?.getProvider(connectionId);
+        if (!link || !row || !connection || !provider) {
+            return;
+        }
+
+        const dataEditor = new DataEditor(ResultsPanel.connectionManager!, connectionId);
+        const conditions = link.foreignKey.referencedColumns.map((column, i) => {
+            const value = row[link.columns[i]];
+            const target = dataEditor.quoteIdentifier(column, connection.type);
+            return value === null || value === undefined
+                ? `${target} IS NULL`
+                : `${target} = ${dataEditor.formatValue(value, connection.type)}`;
+        });
+        const query = `SELECT * FROM ${link.table} WHERE ${conditions.join(' AND ')}`;
+
+        try {
+            const result = await provider.executeQuery(query, database);
+            this.updateMultipleResults([...tabs, { query, result }], connectionId, database, tabs.length, this.gridStates);
+        } catch (error) {
+            Logger.error('Failed to open referenced row', error as Error);
+            vscode.window.showErrorMessage(`Failed to open referenced row: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Fetch the next page from the open cursor and append it to the table
+     * @returns Whether a page was read
+     */
+    private async loadMoreRows(): Promise<boolean> {
+        if (!this.cursor || !this.currentResult) {
+            return false;
+        }
+
+        const pageSize = vscode.workspace.getConfiguration('dbConnector').get<number>('resultPageSize', 1000);
+        const connection = ResultsPanel.connectionManager?.getConnection(this.editState.connectionId);
+        const cursor = this.cursor;
+        try {
+            const rows = await withQueryTimeout(cursor.fetch(pageSize), getQueryTimeout(connection), () => cursor.close());
+            const hasMore = !this.cursor.isDone();
+
+            this.currentResult.rows = [...(this.currentResult.rows || []), ...rows];
+            this.currentResult.rowCount = this.currentResult.rows.length;
+            this.currentResult.hasMore = hasMore;
+            this.editState.originalRows.push(...rows);
+            this.editState.currentRows.push(...rows);
+
+            if (!hasMore) {
+                this.closeCursor();
+            }
+
+            this.panel.webview.postMessage({
+                command: 'appendRows',
+                rows: this.toGridRows(rows, this.currentResult.rows.length - rows.length),
+                rowCount: this.currentResult.rowCount,
+                hasMore
+            });
+            return true;
+        } catch (error) {
+            Logger.error('Failed to load more rows', error as Error);
+            vscode.window.showErrorMessage(`Failed to load more rows: ${(error as Error).message}`);
+            this.closeCursor();
+            this.currentResult.hasMore = false;
+            this.panel.webview.postMessage({ command: 'appendRows', rows: [], rowCount: this.currentResult.rowCount, hasMore: false });
+            return false;
+        }
+    }
+
+    /**
+     * Post the rows of a grid in chunks: the single result, or a result tab
+     * Stops when the panel shows another page meanwhile; the edit grid shows the rows with pending edits
+     */
+    private async postGridRows(version: number, tab?: number): Promise<void> {
+        const result = tab !== undefined ? this.currentResults?.[tab]?.result : this.currentResult;
+        const rows = this.editState.enabled ? this.editState.currentRows : result?.rows || [];
+        for (let start = 0; start < rows.length; start += GRID_CHUNK_SIZE) {
+            if (ResultsPanel.currentPanel !== this || version !== this.gridVersion) {
+                return;
+            }
+            await this.panel.webview.postMessage({
+                command: 'rows',
+                version,
+                tab,
+                rows: this.toGridRows(rows.slice(start, start + GRID_CHUNK_SIZE), start, result)
+            });
+        }
+    }
+
+    /**
+     * Convert rows of a result (the current one by default) to grid rows; start is the index of the first row
+     */
+    private toGridRows(rows: any[], start: number, result: QueryResult | undefined = this.currentResult): GridRow[] {
+        const columns = result ? this.getResultColumns(result) : [];
+        const updates = this.editState.enabled ? this.editState.dataEditor?.getPendingChanges().updates || [] : [];
+        return rows.map((row, i) => {
+            const index = start + i;
+            const modified = updates.filter(update => update.rowIndex === index).map(update => columns.indexOf(update.column));
+            return {
+                index,
+                values: columns.map(column => toCellText(row[column])),
+                status: row._isNew ? 'new' : row._isDeleted ? 'deleted' : undefined,
+                modified: modified.length > 0 ? modified : undefined
+            };
+        });
+    }
+
+    /**
+     * Column names of a result, from the field list or the first row
+     */
+    private getResultColumns(result: QueryResult): string[] {
+        return result.fields?.map(f => f.name) || Object.keys(result.rows?.[0] || {});
+    }
+
+    /**
+     * Release the cursor of the current result, if any
+     */
+    private closeCursor(): void {
+        const cursor = this.cursor;
+        this.cursor = undefined;
+        cursor?.close().catch(error => Logger.error('Failed to close cursor', error as Error));
     }
 
     /**
@@ -229,7 +597,7 @@ export class ResultsPanel {
 
         // Refresh the view with edit mode enabled
         if (this.currentResult) {
-            this.panel.webview.html = this.getEditableHtmlContent(this.currentResult, query);
+            this.panel.webview.html = this.getGridHtml(this.currentResult, query);
         }
 
         vscode.window.showInformationMessage(`Edit mode enabled for table: ${tableInfo.tableName}`);
@@ -265,6 +633,12 @@ export class ResultsPanel {
 
         this.editState.dataEditor.addNewRow(newRow);
         this.editState.currentRows.push({ ...rowData, _tempId: tempId, _isNew: true });
+        this.panel.webview.postMessage({
+            command: 'rows',
+            version: this.gridVersion,
+            rows: this.toGridRows(this.editState.currentRows.slice(-1), this.editState.currentRows.length - 1),
+            reveal: true
+        });
 
         this.updateEditStatus();
     }
@@ -300,6 +674,7 @@ export class ResultsPanel {
             return;
         }
 
+        const detectConflicts = vscode.workspace.getConfiguration('dbConnector').get<boolean>('detectEditConflicts', false);
         const result = await vscode.window.withProgress(
             {
                 location: vscode.ProgressLocation.Notification,
@@ -310,21 +685,68 @@ export class ResultsPanel {
                 return await this.editState.dataEditor!.executeChanges(
                     this.editState.tableInfo!,
                     this.editState.originalRows,
-                    this.editState.database
+                    this.editState.database,
+                    detectConflicts
                 );
             }
         );
 
+        this.editState.failedRow = undefined;
+        this.editState.conflict = result.conflict;
+
         if (result.success) {
             vscode.window.showInformationMessage(result.message);
             
             // Refresh the data
             await this.refreshData();
         } else {
+            const failed = result.failedChange;
+            if (failed) {
+                const rowIndex = failed.type === 'insert'
+                    ? this.editState.currentRows.findIndex(row => row._tempId === failed.tempId)
+                    : failed.rowIndex!;
+                this.editState.failedRow = { rowIndex, error: failed.error };
+            }
+            if (this.currentResult) {
+                this.panel.webview.html = this.getGridHtml(this.currentResult, this.editState.query);
+                this.updateEditStatus();
+            }
             vscode.window.showErrorMessage(result.message);
         }
     }
 
+    /**
+     * Resolve a save conflict
+     * 'overwrite' takes the database values as the new baseline and saves again, so the edits win;
+     * 'discard' drops the edits to the conflicting row and shows what is stored now
+     */
+    private async resolveConflict(action: 'overwrite' | 'discard'): Promise<void> {
+        const conflict = this.editState.conflict;
+        if (!conflict || !this.editState.dataEditor) {
+            return;
+        }
+
+        this.editState.conflict = undefined;
+        this.editState.failedRow = undefined;
+        if (conflict.current) {
+            this.editState.originalRows[conflict.rowIndex] = conflict.current;
+        }
+
+        if (action === 'overwrite' && conflict.current) {
+            await this.handleSaveChanges();
+            return;
+        }
+
+        this.editState.dataEditor.discardRowChanges(conflict.rowIndex);
+        if (conflict.current) {
+            this.editState.currentRows[conflict.rowIndex] = JSON.parse(JSON.stringify(conflict.current));
+        }
+        if (this.currentResult) {
+            this.panel.webview.html = this.getGridHtml(this.currentResult, this.editState.query);
+            this.updateEditStatus();
+        }
+    }
+
     /**
      * Handle discard changes
      */
@@ -332,6 +754,8 @@ export class ResultsPanel {
         if (!this.editState.dataEditor) return;
 
         this.editState.dataEditor.clearChanges();
+        this.editState.failedRow = undefined;
+        this.editState.conflict = undefined;
         this.editState.currentRows = JSON.parse(JSON.stringify(this.editState.originalRows));
         this.editState.enabled = false;
 
@@ -353,13 +777,28 @@ export class ResultsPanel {
             const provider = ResultsPanel.connectionManager.getProvider(this.editState.connectionId);
             if (!provider) return;
 
-            const result = await provider.executeQuery(this.editState.query, this.editState.database);
+            let result: QueryResult;
+            if (this.cursor || this.currentResult?.hasMore) {
+                // Paged result: re-read as many rows as were loaded instead of the whole table
+                this.closeCursor();
+                const pageSize = vscode.workspace.getConfiguration('dbConnector').get<number>('resultPageSize', 1000);
+                const cursor = await provider.openCursor(this.editState.query, this.editState.database);
+                const rows = await cursor.fetch(Math.max(this.editState.originalRows.length, pageSize));
+                result = { rows, rowCount: rows.length, fields: cursor.fields, executionTime: 0, hasMore: !cursor.isDone() };
+                if (result.hasMore) {
+                    this.cursor = cursor;
+                } else {
+                    await cursor.close();
+                }
+            } else {
+                result = await provider.executeQuery(this.editState.query, this.editState.database);
+            }
             this.currentResult = result;
             this.editState.originalRows = result.rows ? [...result.rows] : [];
             this.editState.currentRows = result.rows ? JSON.parse(JSON.stringify(result.rows)) : [];
             this.editState.dataEditor?.clearChanges();
 
-            this.panel.webview.html = this.getEditableHtmlContent(result, this.editState.query);
+            this.panel.webview.html = this.getGridHtml(result, this.editState.query);
         } catch (error) {
             Logger.error('Failed to refresh data', error as Error);
         }
@@ -385,18 +824,20 @@ export class ResultsPanel {
 
     /**
      * Generate HTML content for multiple results with tabs
+     * Each tab with rows gets its own grid; like the single result grid, the rows are posted once the page has loaded
      */
-    private getMultipleResultsHtml(results: MultiQueryResult[]): string {
+    private getMultipleResultsHtml(results: MultiQueryResult[], activeIndex: number = 0): string {
         const showRowCount = vscode.workspace.getConfiguration('dbConnector').get('showRowCount', true);
+        this.gridVersion++;
 
         const tabs = results.map((r, i) => {
             const statusIcon = r.result.error ? '❌' : '✓';
             const preview = r.query.substring(0, 30).replace(/\n/g, ' ');
-            return `<button class="tab ${i === 0 ? 'active' : ''}" onclick="showTab(${i})">${statusIcon} Query ${i + 1}: ${this.escapeHtml(preview)}...</button>`;
+            return `<button class="tab ${i === activeIndex ? 'active' : ''}" onclick="showTab(${i})">${statusIcon} Query ${i + 1}: ${this.escapeHtml(preview)}...</button>`;
         }).join('');
 
         const tabContents = results.map((r, i) => {
-            return `<div class="tab-content ${i === 0 ? 'active' : ''}" id="tab-${i}">
+            return `<div class="tab-content ${i === activeIndex ? 'active' : ''}" id="tab-${i}">
                 ${this.getResultContent(r.result, r.query, showRowCount, i)}
             </div>`;
         }).join('');
@@ -408,10 +849,15 @@ export class ResultsPanel {
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>Query Results</title>
     <style>
+        html, body {
+            height: 100%;
+        }
         body {
             font-family: var(--vscode-font-family);
             padding: 0;
             margin: 0;
+            display: flex;
+            flex-direction: column;
             color: var(--vscode-foreground);
             background-color: var(--vscode-editor-background);
         }
@@ -446,10 +892,13 @@ export class ResultsPanel {
         }
         .tab-content {
             display: none;
+            flex: 1;
+            min-height: 0;
+            flex-direction: column;
             padding: 20px;
         }
         .tab-content.active {
-            display: block;
+            display: flex;
         }
         .summary {
             background-color: var(--vscode-textCodeBlock-background);
@@ -457,19 +906,33 @@ export class ResultsPanel {
             margin: 0;
             font-size: 13px;
         }
+        .summary-export {
+            float: right;
+            margin-top: -3px;
+        }
         .summary-success {
             color: var(--vscode-testing-iconPassed);
         }
         .summary-error {
             color: var(--vscode-testing-iconFailed);
         }
+        .export-menu {
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            padding: 5px 6px;
+            border-radius: 2px;
+            cursor: pointer;
+        }
         .toolbar {
             margin-bottom: 15px;
             display: flex;
             gap: 10px;
             align-items: center;
+            flex-wrap: wrap;
         }
-        button.action {
+        button.action,
+        button.grid-columns-button {
             background-color: var(--vscode-button-background);
             color: var(--vscode-button-foreground);
             border: none;
@@ -485,32 +948,6 @@ export class ResultsPanel {
             color: var(--vscode-descriptionForeground);
             font-size: 0.9em;
         }
-        table {
-            width: 100%;
-            border-collapse: collapse;
-            margin-top: 10px;
-        }
-        th, td {
-            border: 1px solid var(--vscode-panel-border);
-            padding: 8px;
-            text-align: left;
-        }
-        th {
-            background-color: var(--vscode-editor-selectionBackground);
-            font-weight: bold;
-            position: sticky;
-            top: 0;
-        }
-        tr:nth-child(even) {
-            background-color: var(--vscode-list-hoverBackground);
-        }
-        tr:hover {
-            background-color: var(--vscode-list-activeSelectionBackground);
-        }
-        .null-value {
-            color: var(--vscode-descriptionForeground);
-            font-style: italic;
-        }
         .error-container {
             background-color: var(--vscode-inputValidation-errorBackground);
             border: 1px solid var(--vscode-inputValidation-errorBorder);
@@ -534,6 +971,7 @@ export class ResultsPanel {
             max-height: 150px;
             overflow: auto;
         }
+        ${getGridStyles()}
     </style>
 </head>
 <body>
@@ -541,6 +979,7 @@ export class ResultsPanel {
         <span class="summary-success">✓ ${results.filter(r => !r.result.error).length} successful</span> | 
         <span class="summary-error">❌ ${results.filter(r => r.result.error).length} failed</span> | 
         Total: ${results.reduce((sum, r) => sum + r.result.executionTime, 0)}ms
+        ${results.some(r => r.result.rows && r.result.rows.length > 0) ? `<button class="action summary-export" onclick="exportResults('excel')">Export All to Excel</button>` : ''}
     </div>
     <div class="tabs-container">
         ${tabs}
@@ -549,6 +988,7 @@ export class ResultsPanel {
 
     <script>
         const vscode = acquireVsCodeApi();
+        const grids = {};
 
         function showTab(index) {
             // Hide all tabs and contents
@@ -558,6 +998,11 @@ export class ResultsPanel {
             // Show selected tab and content
             document.querySelectorAll('.tab')[index].classList.add('active');
             document.getElementById('tab-' + index).classList.add('active');
+
+            // A grid only renders the rows in view, which a hidden tab has none of
+            if (grids[index]) {
+                grids[index].render();
+            }
         }
 
         function exportResults(format, index) {
@@ -565,20 +1010,93 @@ export class ResultsPanel {
         }
 
         function copyTable(index) {
-            const table = document.querySelector('#tab-' + index + ' table');
-            if (!table) return;
-            const text = Array.from(table.querySelectorAll('tr'))
-                .map(row => Array.from(row.querySelectorAll('th, td'))
-                    .map(cell => cell.textContent)
-                    .join('\\t'))
-                .join('\\n');
-            vscode.postMessage({ command: 'copy', data: text });
+            if (grids[index]) {
+                vscode.postMessage({ command: 'copy', data: grids[index].getText() });
+            }
         }
+
+        ${this.getForeignKeyScript()}
+
+        ${results.map((r, i) => r.result.error || !r.result.rows?.length ? '' : `grids[${i}] = ${getGridScript({
+            columns: this.getResultColumns(r.result),
+            editable: false,
+            primaryKeys: [],
+            state: this.gridStates.get(i),
+            version: this.gridVersion,
+            tab: i
+        })};`).join('\n')}
     </script>
 </body>
 </html>`;
     }
 
+    /**
+     * Webview script that turns foreign key cells into links once the panel reports the key columns
+     * Styling by column keeps rows appended later clickable too; grid cells carry their result
+     * column and row since sorting and reordering move them
+     */
+    private getForeignKeyScript(): string {
+        return `const foreignKeyColumns = {};
+        const foreignKeyStyle = document.createElement('style');
+        document.head.appendChild(foreignKeyStyle);
+
+        function getForeignKeyColumn(cell) {
+            if (!cell || cell.classList.contains('null-value') || cell.dataset.columnIndex === undefined) {
+                return undefined;
+            }
+            const container = cell.closest('.tab-content');
+            const index = container ? Number(container.id.substring(4)) : 0;
+            const columnIndex = Number(cell.dataset.columnIndex);
+            const column = (foreignKeyColumns[index] || []).find(c => c.index === columnIndex);
+            return column ? { index, column } : undefined;
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command !== 'foreignKeys') {
+                return;
+            }
+            foreignKeyColumns[message.index] = message.columns;
+            const tabbed = document.querySelector('.tab-content') !== null;
+            const selectors = Object.keys(foreignKeyColumns).flatMap(index => foreignKeyColumns[index].map(c =>
+                (tabbed ? '#tab-' + index + ' ' : '') + 'tbody td[data-column-index="' + c.index + '"]:not(.null-value)'));
+            foreignKeyStyle.textContent = selectors.join(', ')
+                + ' { color: var(--vscode-textLink-foreground); text-decoration: underline; cursor: pointer; }';
+        });
+
+        document.addEventListener('mouseover', event => {
+            const cell = event.target.closest('tbody td');
+            const link = getForeignKeyColumn(cell);
+            if (link) {
+                cell.title = 'Open referenced row in ' + link.column.target;
+            }
+        });
+
+        document.addEventListener('click', event => {
+            const cell = event.target.closest('tbody td');
+            const link = getForeignKeyColumn(cell);
+            if (link) {
+                vscode.postMessage({
+                    command: 'openForeignKey',
+                    index: link.index,
+                    rowIndex: Number(cell.parentElement.dataset.rowIndex),
+                    columnIndex: link.column.index
+                });
+            }
+        });`;
+    }
+
+    /**
+     * Export format menu; the selection is reset so the same format can be picked again
+     */
+    private getExportMenuHtml(index?: number): string {
+        const target = index !== undefined ? `, ${index}` : '';
+        return `<select class="export-menu" onchange="exportResults(this.value${target}); this.selectedIndex = 0;">
+            <option value="" disabled selected>Export...</option>
+            ${EXPORT_FORMATS.map(option => `<option value="${option.format}">${option.label}</option>`).join('')}
+        </select>`;
+    }
+
     /**
      * Get content for a single result (used in tabs)
      */
@@ -586,7 +1104,7 @@ export class ResultsPanel {
         if (result.error) {
             return `
                 <div class="error-container">
-                    <div class="error-title">Error:</div>
+                    <div class="error-title">${this.getErrorLabel(result)}:</div>
                     <div>${this.escapeHtml(result.error)}</div>
                 </div>
                 <div class="query-container">${this.escapeHtml(query)}</div>
@@ -602,31 +1120,14 @@ export class ResultsPanel {
             `;
         }
 
-        const columns = result.fields?.map(f => f.name) || Object.keys(result.rows[0] || {});
-
         return `
             <div class="toolbar">
-                <button class="action" onclick="exportResults('csv', ${index})">Export CSV</button>
-                <button class="action" onclick="exportResults('json', ${index})">Export JSON</button>
+                ${this.getExportMenuHtml(index)}
                 <button class="action" onclick="copyTable(${index})">Copy</button>
+                ${getGridControlsHtml(index)}
                 <span class="info">${showRowCount ? `${result.rowCount} rows` : ''} | ${result.executionTime}ms</span>
             </div>
-            <table>
-                <thead>
-                    <tr>${columns.map(col => `<th>${this.escapeHtml(col)}</th>`).join('')}</tr>
-                </thead>
-                <tbody>
-                    ${result.rows.map(row => `
-                        <tr>${columns.map(col => {
-                            const value = row[col];
-                            if (value === null || value === undefined) {
-                                return '<td class="null-value">NULL</td>';
-                            }
-                            return `<td>${this.escapeHtml(String(value))}</td>`;
-                        }).join('')}</tr>
-                    `).join('')}
-                </tbody>
-            </table>
+            ${getGridTableHtml(index)}
             <details style="margin-top: 15px;">
                 <summary style="cursor: pointer; color: var(--vscode-descriptionForeground);">Show Query</summary>
                 <div class="query-container">${this.escapeHtml(query)}</div>
@@ -638,23 +1139,34 @@ export class ResultsPanel {
      * Generate HTML content for the webview
      */
     private getHtmlContent(result: QueryResult, query: string): string {
-        const showRowCount = vscode.workspace.getConfiguration('dbConnector').get('showRowCount', true);
-
         if (result.error) {
-            return this.getErrorHtml(result.error, query);
+            return this.getErrorHtml(result.error, query, `Query ${this.getErrorLabel(result)}`);
         }
 
         if (!result.rows || result.rows.length === 0) {
             return this.getEmptyResultHtml(result, query);
         }
 
-        return this.getTableHtml(result, query, showRowCount);
+        return this.getGridHtml(result, query);
+    }
+
+    /**
+     * Label an error result as a cancellation, a timeout or a plain error
+     */
+    private getErrorLabel(result: QueryResult): string {
+        if (result.cancelled) {
+            return 'Cancelled';
+        }
+        if (result.timedOutAfter !== undefined) {
+            return 'Timed Out';
+        }
+        return 'Error';
     }
 
     /**
      * Generate error HTML
      */
-    private getErrorHtml(error: string, query: string): string {
+    private getErrorHtml(error: string, query: string, title: string = 'Query Error'): string {
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -691,7 +1203,7 @@ export class ResultsPanel {
     </style>
 </head>
 <body>
-    <h2>Query Error</h2>
+    <h2>${title}</h2>
     <div class="error-container">
         <div class="error-title">Error:</div>
         <div>${this.escapeHtml(error)}</div>
@@ -705,9 +1217,9 @@ export class ResultsPanel {
     }
 
     /**
-     * Generate empty result HTML
+     * Generate HTML for a query that is still running
      */
-    private getEmptyResultHtml(result: QueryResult, _query: string): string {
+    private getExecutingHtml(query: string): string {
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -724,24 +1236,58 @@ export class ResultsPanel {
         .info {
             color: var(--vscode-descriptionForeground);
         }
+        button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 14px;
+            cursor: pointer;
+            border-radius: 2px;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .query-container {
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 10px;
+            border-radius: 4px;
+            margin-top: 20px;
+            font-family: var(--vscode-editor-font-family);
+            white-space: pre-wrap;
+        }
     </style>
 </head>
 <body>
-    <h2>Query Results</h2>
-    <p class="info">Query executed successfully.</p>
-    <p><strong>Rows affected:</strong> ${result.rowCount}</p>
-    <p><strong>Execution time:</strong> ${result.executionTime}ms</p>
+    <h2>Executing Query</h2>
+    <p class="info">Running for <span id="elapsed">0</span>s...</p>
+    <button id="cancelButton" onclick="cancelQuery()">Cancel</button>
+    <div class="query-container">${this.escapeHtml(query)}</div>
+    <script>
+        const vscode = acquireVsCodeApi();
+        const started = Date.now();
+        setInterval(() => {
+            document.getElementById('elapsed').textContent = Math.floor((Date.now() - started) / 1000);
+        }, 1000);
+
+        function cancelQuery() {
+            const button = document.getElementById('cancelButton');
+            button.disabled = true;
+            button.textContent = 'Cancelling...';
+            vscode.postMessage({ command: 'cancelQuery' });
+        }
+    </script>
 </body>
 </html>`;
     }
 
     /**
-     * Generate table HTML
+     * Generate empty result HTML
      */
-    private getTableHtml(result: QueryResult, _query: string, showRowCount: boolean): string {
-        const columns = result.fields?.map(f => f.name) || Object.keys(result.rows![0] || {});
-        const canEdit = this.canEnableEditMode(_query);
-
+    private getEmptyResultHtml(result: QueryResult, _query: string): string {
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -755,167 +1301,66 @@ export class ResultsPanel {
             color: var(--vscode-foreground);
             background-color: var(--vscode-editor-background);
         }
-        .toolbar {
-            margin-bottom: 15px;
-            display: flex;
-            gap: 10px;
-            align-items: center;
-            flex-wrap: wrap;
-        }
-        button {
-            background-color: var(--vscode-button-background);
-            color: var(--vscode-button-foreground);
-            border: none;
-            padding: 6px 14px;
-            cursor: pointer;
-            border-radius: 2px;
-        }
-        button:hover {
-            background-color: var(--vscode-button-hoverBackground);
-        }
-        button.edit-btn {
-            background-color: var(--vscode-button-secondaryBackground);
-            color: var(--vscode-button-secondaryForeground);
-        }
-        button.edit-btn:hover {
-            background-color: var(--vscode-button-secondaryHoverBackground);
-        }
-        button:disabled {
-            opacity: 0.5;
-            cursor: not-allowed;
-        }
-        .info {
-            margin-left: auto;
-            color: var(--vscode-descriptionForeground);
-            font-size: 0.9em;
-        }
-        table {
-            width: 100%;
-            border-collapse: collapse;
-            margin-top: 10px;
-        }
-        th, td {
-            border: 1px solid var(--vscode-panel-border);
-            padding: 8px;
-            text-align: left;
-        }
-        th {
-            background-color: var(--vscode-editor-selectionBackground);
-            font-weight: bold;
-            position: sticky;
-            top: 0;
-        }
-        tr:nth-child(even) {
-            background-color: var(--vscode-list-hoverBackground);
-        }
-        tr:hover {
-            background-color: var(--vscode-list-activeSelectionBackground);
-        }
-        .null-value {
-            color: var(--vscode-descriptionForeground);
-            font-style: italic;
+        .info {
+            color: var(--vscode-descriptionForeground);
         }
     </style>
 </head>
 <body>
     <h2>Query Results</h2>
-    <div class="toolbar">
-        <button onclick="exportResults('csv')">Export CSV</button>
-        <button onclick="exportResults('json')">Export JSON</button>
-        <button onclick="copyTable()">Copy</button>
-        ${canEdit ? `<button class="edit-btn" onclick="enableEditMode()">✏️ Edit Data</button>` : ''}
-        <span class="info">
-            ${showRowCount ? `${result.rowCount} rows` : ''} | ${result.executionTime}ms
-        </span>
-    </div>
-    <table>
-        <thead>
-            <tr>
-                ${columns.map(col => `<th>${this.escapeHtml(col)}</th>`).join('')}
-            </tr>
-        </thead>
-        <tbody>
-            ${result.rows!.map(row => `
-                <tr>
-                    ${columns.map(col => {
-                        const value = row[col];
-                        if (value === null || value === undefined) {
-                            return '<td class="null-value">NULL</td>';
-                        }
-                        return `<td>${this.escapeHtml(String(value))}</td>`;
-                    }).join('')}
-                </tr>
-            `).join('')}
-        </tbody>
-    </table>
-
-    <script>
-        const vscode = acquireVsCodeApi();
-
-        function exportResults(format) {
-            vscode.postMessage({ command: 'export', format: format });
-        }
-
-        function copyTable() {
-            const table = document.querySelector('table');
-            const text = Array.from(table.querySelectorAll('tr'))
-                .map(row => Array.from(row.querySelectorAll('th, td'))
-                    .map(cell => cell.textContent)
-                    .join('\\t'))
-                .join('\\n');
-            vscode.postMessage({ command: 'copy', data: text });
-        }
-
-        function enableEditMode() {
-            vscode.postMessage({ 
-                command: 'enableEditMode',
-                connectionId: '${this.editState.connectionId}',
-                database: '${this.editState.database || ''}',
-                query: \`${_query.replace(/`/g, '\\`').replace(/\\/g, '\\\\')}\`
-            });
-        }
-    </script>
+    <p class="info">Query executed successfully.</p>
+    <p><strong>Rows affected:</strong> ${result.rowCount}</p>
+    <p><strong>Execution time:</strong> ${result.executionTime}ms</p>
 </body>
 </html>`;
     }
 
     /**
-     * Check if edit mode can be enabled for this query
-     */
-    private canEnableEditMode(query: string): boolean {
-        const normalized = query.trim().toLowerCase();
-        if (!normalized.startsWith('select')) return false;
-        if (/\bjoin\b/i.test(query)) return false;
-        if (/\bunion\b/i.test(query)) return false;
-        if (/\bgroup\s+by\b/i.test(query)) return false;
-        if ((query.match(/select/gi) || []).length > 1) return false;
-        return true;
-    }
-
-    /**
-     * Generate editable HTML content
+     * Generate the grid page of a result, read-only or in edit mode
+     * The page carries no rows: the grid asks for them once loaded and they are posted in chunks.
+     * Each call starts a new grid version, so rows still being posted to an older page are dropped
      */
-    private getEditableHtmlContent(result: QueryResult, _query: string): string {
+    private getGridHtml(result: QueryResult, query: string): string {
         const showRowCount = vscode.workspace.getConfiguration('dbConnector').get('showRowCount', true);
-        const columns = result.fields?.map(f => f.name) || Object.keys(result.rows![0] || {});
-        const primaryKeys = this.editState.tableInfo?.primaryKeys || [];
+        const pageSize = vscode.workspace.getConfiguration('dbConnector').get<number>('resultPageSize', 1000);
+        const columns = this.getResultColumns(result);
+        const editing = this.editState.enabled;
+        const primaryKeys = editing ? this.editState.tableInfo?.primaryKeys || [] : [];
         const tableName = this.editState.tableInfo?.tableName || 'Unknown';
+        const failedRow = editing ? this.editState.failedRow : undefined;
+        const canEdit = !editing && this.canEnableEditMode(query);
+        this.gridVersion++;
 
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Edit Data - ${this.escapeHtml(tableName)}</title>
+    <title>${editing ? `Edit Data - ${this.escapeHtml(tableName)}` : 'Query Results'}</title>
     <style>
+        html, body {
+            height: 100%;
+        }
         body {
             font-family: var(--vscode-font-family);
             padding: 20px;
+            margin: 0;
+            box-sizing: border-box;
+            display: flex;
+            flex-direction: column;
             color: var(--vscode-foreground);
             background-color: var(--vscode-editor-background);
         }
+        .export-menu {
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            padding: 5px 6px;
+            border-radius: 2px;
+            cursor: pointer;
+        }
         .toolbar {
-            margin-bottom: 15px;
+            margin-bottom: 10px;
             display: flex;
             gap: 10px;
             align-items: center;
@@ -936,16 +1381,20 @@ export class ResultsPanel {
         button:hover {
             background-color: var(--vscode-button-hoverBackground);
         }
+        button.edit-btn,
+        button.add-btn {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        button.edit-btn:hover {
+            background-color: var(--vscode-button-secondaryHoverBackground);
+        }
         button.save-btn {
             background-color: var(--vscode-testing-iconPassed);
         }
         button.discard-btn {
             background-color: var(--vscode-testing-iconFailed);
         }
-        button.add-btn {
-            background-color: var(--vscode-button-secondaryBackground);
-            color: var(--vscode-button-secondaryForeground);
-        }
         button:disabled {
             opacity: 0.5;
             cursor: not-allowed;
@@ -972,90 +1421,54 @@ export class ResultsPanel {
             align-items: center;
             gap: 10px;
         }
-        table {
-            width: 100%;
+        .save-error {
+            background-color: var(--vscode-inputValidation-errorBackground);
+            border: 1px solid var(--vscode-inputValidation-errorBorder);
+            padding: 8px 12px;
+            margin-bottom: 10px;
+            border-radius: 4px;
+        }
+        .conflict {
+            border: 1px solid var(--vscode-inputValidation-warningBorder);
+            padding: 8px 12px;
+            margin-bottom: 10px;
+            border-radius: 4px;
+        }
+        .conflict table {
             border-collapse: collapse;
-            margin-top: 10px;
         }
-        th, td {
+        .conflict th, .conflict td {
             border: 1px solid var(--vscode-panel-border);
-            padding: 8px;
+            padding: 4px 8px;
             text-align: left;
         }
-        th {
-            background-color: var(--vscode-editor-selectionBackground);
-            font-weight: bold;
-            position: sticky;
-            top: 0;
-        }
-        th.pk {
-            background-color: var(--vscode-editorGutter-modifiedBackground);
-        }
-        tr:nth-child(even) {
-            background-color: var(--vscode-list-hoverBackground);
-        }
-        tr:hover {
-            background-color: var(--vscode-list-activeSelectionBackground);
+        .conflict td.theirs {
+            background-color: var(--vscode-diffEditor-removedTextBackground);
         }
-        tr.deleted {
-            background-color: var(--vscode-diffEditor-removedTextBackground) !important;
-            text-decoration: line-through;
-            opacity: 0.6;
+        .conflict td.mine {
+            background-color: var(--vscode-diffEditor-insertedTextBackground);
         }
-        tr.new-row {
-            background-color: var(--vscode-diffEditor-insertedTextBackground) !important;
-        }
-        td.editable {
-            cursor: pointer;
-            position: relative;
-        }
-        td.editable:hover {
-            background-color: var(--vscode-editor-hoverHighlightBackground);
-        }
-        td.editable:hover::after {
-            content: '✏️';
-            position: absolute;
-            right: 4px;
-            top: 50%;
-            transform: translateY(-50%);
-            font-size: 10px;
-            opacity: 0.5;
-        }
-        td.modified {
-            background-color: var(--vscode-editorGutter-modifiedBackground) !important;
-        }
-        td.pk-cell {
-            background-color: var(--vscode-editorGutter-background);
-            font-weight: bold;
-        }
-        .null-value {
-            color: var(--vscode-descriptionForeground);
-            font-style: italic;
-        }
-        .cell-input {
-            width: 100%;
-            background-color: var(--vscode-input-background);
-            color: var(--vscode-input-foreground);
-            border: 1px solid var(--vscode-input-border);
-            padding: 4px;
-            font-family: inherit;
-            font-size: inherit;
-        }
-        .row-actions {
-            white-space: nowrap;
+        .conflict-actions {
+            margin-top: 8px;
+            display: flex;
+            gap: 5px;
         }
-        .row-actions button {
-            padding: 2px 8px;
-            font-size: 12px;
+        .load-more {
+            margin-top: 10px;
+            display: flex;
+            gap: 10px;
+            align-items: center;
         }
-        .delete-btn {
-            background-color: var(--vscode-testing-iconFailed);
+        .load-more .info {
+            margin-left: 0;
         }
+        ${getGridStyles()}
     </style>
 </head>
 <body>
+    ${editing ? `
     <h2>✏️ Edit Data - ${this.escapeHtml(tableName)}</h2>
-    
+
     <div class="edit-mode-banner">
         <span>📝 Edit Mode Active</span>
         <span class="edit-status" id="changeStatus">No changes</span>
@@ -1064,69 +1477,50 @@ export class ResultsPanel {
             Primary Key: ${primaryKeys.map(pk => this.escapeHtml(pk)).join(', ')}
         </span>
     </div>
-    
+
+    ${failedRow ? `
+    <div class="save-error">
+        <strong>Save rolled back - no changes were applied.</strong>
+        Row ${failedRow.rowIndex + 1} failed: ${this.escapeHtml(failedRow.error)}
+    </div>` : ''}
+    ${this.editState.conflict ? this.getConflictHtml(this.editState.conflict) : ''}
+
     <div class="toolbar">
         <div class="toolbar-group">
-            <button class="save-btn" id="saveBtn" onclick="saveChanges()" disabled>💾 Save Changes</button>
+            <button class="save-btn" id="saveBtn" onclick="saveChanges()" ${this.editState.dataEditor?.hasChanges() ? '' : 'disabled'}>💾 Save Changes</button>
             <button class="discard-btn" onclick="discardChanges()">↩️ Discard</button>
         </div>
         <div class="toolbar-group">
             <button class="add-btn" onclick="addNewRow()">➕ Add Row</button>
         </div>
+        ${getGridControlsHtml()}
         <span class="info">
             ${showRowCount ? `${result.rowCount} rows` : ''} | ${result.executionTime}ms
         </span>
-    </div>
-    
-    <table id="dataTable">
-        <thead>
-            <tr>
-                <th class="row-actions">Actions</th>
-                ${columns.map(col => {
-                    const isPk = primaryKeys.includes(col);
-                    return `<th class="${isPk ? 'pk' : ''}" title="${isPk ? 'Primary Key' : ''}">${isPk ? '🔑 ' : ''}${this.escapeHtml(col)}</th>`;
-                }).join('')}
-            </tr>
-        </thead>
-        <tbody>
-            ${this.editState.currentRows.map((row, rowIndex) => {
-                const isDeleted = row._isDeleted;
-                const isNew = row._isNew;
-                return `
-                <tr data-row-index="${rowIndex}" class="${isDeleted ? 'deleted' : ''} ${isNew ? 'new-row' : ''}">
-                    <td class="row-actions">
-                        ${!isDeleted ? `<button class="delete-btn" onclick="deleteRow(${rowIndex})" title="Delete row">🗑️</button>` : 
-                          `<button onclick="undeleteRow(${rowIndex})" title="Undo delete">↩️</button>`}
-                    </td>
-                    ${columns.map(col => {
-                        const value = row[col];
-                        const isPk = primaryKeys.includes(col);
-                        const isEditable = !isPk && !isDeleted;
-                        const displayValue = value === null || value === undefined 
-                            ? '<span class="null-value">NULL</span>' 
-                            : this.escapeHtml(String(value));
-                        
-                        return `<td 
-                            class="${isPk ? 'pk-cell' : ''} ${isEditable ? 'editable' : ''}"
-                            data-row="${rowIndex}" 
-                            data-col="${col}"
-                            data-value="${this.escapeHtml(String(value ?? ''))}"
-                            ${isEditable ? `ondblclick="startEdit(this)"` : ''}
-                        >${displayValue}</td>`;
-                    }).join('')}
-                </tr>`;
-            }).join('')}
-        </tbody>
-    </table>
+    </div>` : `
+    <h2>Query Results</h2>
+    <div class="toolbar">
+        ${this.getExportMenuHtml()}
+        <button onclick="copyTable()">Copy</button>
+        ${canEdit ? `<button class="edit-btn" onclick="enableEditMode()">✏️ Edit Data</button>` : ''}
+        ${getGridControlsHtml()}
+        <span class="info">
+            ${showRowCount ? `<span id="rowCount">${result.rowCount}${result.hasMore ? '+' : ''}</span> rows` : ''} | ${result.executionTime}ms
+        </span>
+    </div>`}
+
+    ${getGridTableHtml()}
+
+    ${editing ? '' : `
+    <div class="load-more" id="loadMoreBar" ${result.hasMore ? '' : 'style="display: none;"'}>
+        <button id="loadMoreButton" onclick="loadMore()">Load next ${pageSize} rows</button>
+        <span class="info">More rows are available on the server</span>
+    </div>`}
 
     <script>
         const vscode = acquireVsCodeApi();
-        const columns = ${JSON.stringify(columns)};
-        const primaryKeys = ${JSON.stringify(primaryKeys)};
-        let editingCell = null;
-        let hasChanges = false;
 
-        // Listen for messages from extension
+        ${editing ? `
         window.addEventListener('message', event => {
             const message = event.data;
             if (message.command === 'updateEditStatus') {
@@ -1137,7 +1531,7 @@ export class ResultsPanel {
         function updateStatus(hasChanges, changeCount) {
             const status = document.getElementById('changeStatus');
             const saveBtn = document.getElementById('saveBtn');
-            
+
             if (hasChanges) {
                 const parts = [];
                 if (changeCount.updates > 0) parts.push(changeCount.updates + ' modified');
@@ -1153,93 +1547,12 @@ export class ResultsPanel {
             }
         }
 
-        function startEdit(cell) {
-            if (editingCell) {
-                finishEdit(editingCell, false);
-            }
-
-            const value = cell.dataset.value;
-            const input = document.createElement('input');
-            input.type = 'text';
-            input.className = 'cell-input';
-            input.value = value === 'null' || value === 'undefined' ? '' : value;
-            
-            cell.innerHTML = '';
-            cell.appendChild(input);
-            input.focus();
-            input.select();
-
-            editingCell = cell;
-
-            input.addEventListener('blur', () => finishEdit(cell, true));
-            input.addEventListener('keydown', (e) => {
-                if (e.key === 'Enter') {
-                    finishEdit(cell, true);
-                } else if (e.key === 'Escape') {
-                    finishEdit(cell, false);
-                } else if (e.key === 'Tab') {
-                    e.preventDefault();
-                    finishEdit(cell, true);
-                    // Move to next editable cell
-                    const nextCell = findNextEditableCell(cell, e.shiftKey);
-                    if (nextCell) startEdit(nextCell);
-                }
-            });
-        }
-
-        function finishEdit(cell, save) {
-            const input = cell.querySelector('input');
-            if (!input) return;
-
-            const oldValue = cell.dataset.value;
-            const newValue = save ? input.value : oldValue;
-            
-            cell.dataset.value = newValue;
-            cell.innerHTML = newValue === '' ? '<span class="null-value">NULL</span>' : escapeHtml(newValue);
-            
-            editingCell = null;
-
-            if (save && oldValue !== newValue) {
-                cell.classList.add('modified');
-                const rowIndex = parseInt(cell.dataset.row);
-                const column = cell.dataset.col;
-                
-                vscode.postMessage({
-                    command: 'cellChanged',
-                    change: {
-                        rowIndex: rowIndex,
-                        column: column,
-                        oldValue: oldValue === '' ? null : oldValue,
-                        newValue: newValue === '' ? null : newValue
-                    }
-                });
-            }
-        }
-
-        function findNextEditableCell(currentCell, backwards) {
-            const cells = Array.from(document.querySelectorAll('td.editable'));
-            const currentIndex = cells.indexOf(currentCell);
-            const nextIndex = backwards ? currentIndex - 1 : currentIndex + 1;
-            return cells[nextIndex];
-        }
-
-        function deleteRow(rowIndex) {
-            const row = document.querySelector('tr[data-row-index="' + rowIndex + '"]');
-            if (row) {
-                row.classList.add('deleted');
-                vscode.postMessage({ command: 'deleteRow', rowIndex: rowIndex });
-            }
-        }
-
-        function undeleteRow(rowIndex) {
-            // Would need to track and restore - for now, just discard all changes
-            discardChanges();
-        }
-
         function addNewRow() {
+            const columns = ${JSON.stringify(columns)};
+            const primaryKeys = ${JSON.stringify(primaryKeys)};
             const newRowData = {};
             columns.forEach(col => {
-                if (!primaryKeys.includes(col)) {
+                if (!primaryKeys.includes(col.toLowerCase())) {
                     newRowData[col] = null;
                 }
             });
@@ -1254,95 +1567,311 @@ export class ResultsPanel {
             vscode.postMessage({ command: 'discardChanges' });
         }
 
-        function escapeHtml(text) {
-            const div = document.createElement('div');
-            div.textContent = text;
-            return div.innerHTML;
+        function resolveConflict(action) {
+            vscode.postMessage({ command: 'resolveConflict', action: action });
+        }` : `
+        function exportResults(format) {
+            vscode.postMessage({ command: 'export', format: format });
         }
+
+        function loadMore() {
+            const button = document.getElementById('loadMoreButton');
+            button.disabled = true;
+            button.textContent = 'Loading...';
+            vscode.postMessage({ command: 'loadMore' });
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command !== 'appendRows') {
+                return;
+            }
+
+            grid.addRows(message.rows);
+
+            const rowCount = document.getElementById('rowCount');
+            if (rowCount) {
+                rowCount.textContent = message.rowCount + (message.hasMore ? '+' : '');
+            }
+
+            const button = document.getElementById('loadMoreButton');
+            button.disabled = false;
+            button.textContent = 'Load next ${pageSize} rows';
+            document.getElementById('loadMoreBar').style.display = message.hasMore ? '' : 'none';
+        });
+
+        function copyTable() {
+            vscode.postMessage({ command: 'copy', data: grid.getText() });
+        }
+
+        function enableEditMode() {
+            vscode.postMessage({
+                command: 'enableEditMode',
+                connectionId: '${this.editState.connectionId}',
+                database: '${this.editState.database || ''}',
+                query: \`${query.replace(/`/g, '\\`').replace(/\\/g, '\\\\')}\`
+            });
+        }
+
+        ${this.getForeignKeyScript()}`}
+
+        const grid = ${getGridScript({ columns, editable: editing, primaryKeys, failedRow, state: this.gridStates.get(0), version: this.gridVersion })};
     </script>
 </body>
 </html>`;
     }
 
     /**
-     * Export results to file
+     * Check if edit mode can be enabled for this query
      */
-    private async exportResults(format: string, index?: number): Promise<void> {
-        // Get the result to export
-        let resultToExport: QueryResult | undefined;
-        
-        if (this.currentResults && index !== undefined) {
-            // Multiple results - export specific one
-            resultToExport = this.currentResults[index]?.result;
-        } else {
-            // Single result
-            resultToExport = this.currentResult;
+    private canEnableEditMode(query: string): boolean {
+        const normalized = query.trim().toLowerCase();
+        if (!normalized.startsWith('select')) return false;
+        if (/\bjoin\b/i.test(query)) return false;
+        if (/\bunion\b/i.test(query)) return false;
+        if (/\bgroup\s+by\b/i.test(query)) return false;
+        if ((query.match(/select/gi) || []).length > 1) return false;
+        return true;
+    }
+
+    /**
+     * Generate the conflict diff: loaded values, pending edits and the values now in the database
+     */
+    private getConflictHtml(conflict: RowConflict): string {
+        const format = (value: any): string => {
+            if (value === null || value === undefined) {
+                return '<span class="null-value">NULL</span>';
+            }
+            if (value instanceof Date) {
+                return this.escapeHtml(value.toISOString());
+            }
+            if (typeof value === 'object') {
+                return this.escapeHtml(JSON.stringify(value));
+            }
+            return this.escapeHtml(String(value));
+        };
+        const same = (a: any, b: any) => format(a) === format(b);
+
+        const columns = Object.keys({ ...conflict.original, ...conflict.current }).filter(col => !col.startsWith('_'));
+        const yours = (col: string) => conflict.edited ? format(conflict.edited[col]) : '<span class="null-value">deleted</span>';
+        const database = (col: string) => conflict.current ? format(conflict.current[col]) : '<span class="null-value">deleted</span>';
+
+        return `
+    <div class="conflict">
+        <strong>⚠️ Row ${conflict.rowIndex + 1} ${conflict.current ? 'was changed' : 'was deleted'} by another session since it was loaded.</strong>
+        <table>
+            <thead>
+                <tr><th>Column</th><th>Loaded</th><th>Yours</th><th>Database now</th></tr>
+            </thead>
+            <tbody>
+                ${columns.map(col => {
+                    const mine = conflict.edited !== null && !same(conflict.edited[col], conflict.original[col]);
+                    const theirs = conflict.current === null || !same(conflict.current[col], conflict.original[col]);
+                    return `<tr>
+                    <td>${this.escapeHtml(col)}</td>
+                    <td>${format(conflict.original[col])}</td>
+                    <td class="${mine ? 'mine' : ''}">${yours(col)}</td>
+                    <td class="${theirs ? 'theirs' : ''}">${database(col)}</td>
+                </tr>`;
+                }).join('')}
+            </tbody>
+        </table>
+        <div class="conflict-actions">
+            <button onclick="resolveConflict('overwrite')" ${conflict.current ? '' : 'disabled'}>Overwrite with my changes</button>
+            <button class="discard-btn" onclick="resolveConflict('discard')">Discard my changes to this row</button>
+        </div>
+    </div>`;
+    }
+
+    /**
+     * Export results to a file
+     * Returns the file written, or undefined if there was nothing to export or the user cancelled
+     */
+    private async exportToFile(options: ResultExportOptions): Promise<vscode.Uri | undefined> {
+        const { index } = options;
+        const option = getExportFormat(options.format);
+        if (!option) {
+            vscode.window.showErrorMessage(`Unknown export format: ${options.format}`);
+            return undefined;
         }
 
-        if (!resultToExport || !resultToExport.rows) {
+        const results = this.getResultsToExport(option.format, index);
+        if (results.length === 0) {
             vscode.window.showWarningMessage('No results to export');
-            return;
+            return undefined;
         }
 
-        const fileExtension = format === 'json' ? 'json' : 'csv';
-        const fileName = index !== undefined ? `query_${index + 1}_results` : 'query_results';
-        const uri = await vscode.window.showSaveDialog({
-            filters: {
-                [format.toUpperCase()]: [fileExtension]
-            },
-            defaultUri: vscode.Uri.file(`${fileName}.${fileExtension}`)
-        });
+        let insertTarget: InsertTarget | undefined;
+        if (option.format === ExportFormat.SqlInsert) {
+            insertTarget = await this.getInsertTarget(index, options.table);
+            if (!insertTarget) {
+                return undefined;
+            }
+        }
 
+        let uri = options.destination;
         if (!uri) {
-            return;
+            const fileName = index !== undefined ? `query_${index + 1}_results` : 'query_results';
+            uri = await vscode.window.showSaveDialog({
+                filters: {
+                    [option.filter]: [option.extension]
+                },
+                defaultUri: vscode.Uri.file(`${fileName}.${option.extension}`)
+            });
+
+            if (!uri) {
+                return undefined;
+            }
         }
 
         try {
-            let content: string;
-
-            if (format === 'json') {
-                content = JSON.stringify(resultToExport.rows, null, 2);
-            } else {
-                content = this.convertToCSV(resultToExport.rows);
+            for (const entry of results) {
+                const complete = await this.readAllRows(entry);
+                if (!complete) {
+                    vscode.window.showWarningMessage('Export cancelled');
+                    return undefined;
+                }
+                entry.result = complete;
             }
 
-            await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+            const content = option.format === ExportFormat.Excel
+                ? buildXlsx(results.map(({ name, result }) => ({ name, columns: this.getExportColumns(result), rows: result.rows || [] })))
+                : Buffer.from(formatRows(option.format, results[0].result.rows || [], this.getExportColumns(results[0].result), insertTarget), 'utf8');
+            await vscode.workspace.fs.writeFile(uri, content);
             vscode.window.showInformationMessage(`Results exported to ${uri.fsPath}`);
+            return uri;
         } catch (error) {
             Logger.error('Failed to export results', error as Error);
             vscode.window.showErrorMessage(`Export failed: ${(error as Error).message}`);
+            return undefined;
         }
     }
 
     /**
-     * Convert rows to CSV format
+     * Results to export, named after their tab
+     * Without an index, Excel takes every tab of a multi-statement run (one sheet each)
+     * while the other formats take the first one
      */
-    private convertToCSV(rows: any[]): string {
-        if (rows.length === 0) {
-            return '';
+    private getResultsToExport(format: ExportFormat, index?: number): { name: string; query: string; result: QueryResult }[] {
+        if (!this.currentResults) {
+            return this.currentResult?.rows ? [{ name: 'Results', query: this.editState.query, result: this.currentResult }] : [];
         }
 
-        const columns = Object.keys(rows[0]);
-        const header = columns.map(col => this.escapeCsvValue(col)).join(',');
+        const allTabs = index === undefined && format === ExportFormat.Excel;
+        const tabs = allTabs ? this.currentResults.map((_entry, i) => i) : [index ?? 0];
+        return tabs
+            .map(tab => ({ name: `Query ${tab + 1}`, query: this.currentResults![tab]?.query, result: this.currentResults![tab]?.result }))
+            .filter(entry => entry.result?.rows && (!allTabs || entry.result.rows.length > 0));
+    }
 
-        const dataRows = rows.map(row =>
-            columns.map(col => {
-                const value = row[col];
-                return this.escapeCsvValue(value === null || value === undefined ? '' : String(value));
-            }).join(',')
-        );
+    /**
+     * Every row of a result, for export
+     * A paged result is read to the end from its open cursor, which also fills the grid, or run
+     * again when the cursor is gone (e.g. once the result moved into a tab)
+     * @returns undefined when the user cancelled
+     */
+    private async readAllRows(entry: { query: string; result: QueryResult }): Promise<QueryResult | undefined> {
+        if (!entry.result.hasMore) {
+            return entry.result;
+        }
+
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Reading all rows to export',
+            cancellable: true
+        }, async (progress, token) => {
+            if (!this.currentResults && entry.result === this.currentResult && this.cursor) {
+                let complete = true;
+                while (this.currentResult.hasMore) {
+                    if (token.isCancellationRequested) {
+                        return undefined;
+                    }
+                    // A cursor that fails (e.g. closed while idle) leaves the result partial; it is run again below
+                    if (!await this.loadMoreRows()) {
+                        complete = false;
+                        break;
+                    }
+                    progress.report({ message: `${this.currentResult.rowCount} rows` });
+                }
+                if (complete) {
+                    return this.currentResult;
+                }
+            }
+
+            const provider = ResultsPanel.connectionManager?.getProvider(this.editState.connectionId);
+            if (!provider) {
+                throw new Error('Not connected; run the query again to export all of its rows');
+            }
+            token.onCancellationRequested(() => void provider.cancel());
+            const result = await provider.executeQuery(entry.query, this.editState.database);
+            if (result.cancelled) {
+                return undefined;
+            }
+            if (result.error) {
+                throw new Error(result.error);
+            }
+            return result;
+        });
+    }
+
+    /**
+     * Column names for export: the result fields, or every key seen in the rows
+     */
+    private getExportColumns(result: QueryResult): string[] {
+        if (result.fields && result.fields.length > 0) {
+            return result.fields.map(field => field.name);
+        }
 
-        return [header, ...dataRows].join('\n');
+        const columns = new Set<string>();
+        for (const row of result.rows || []) {
+            Object.keys(row).forEach(key => columns.add(key));
+        }
+        return Array.from(columns);
     }
 
     /**
-     * Escape CSV value
+     * Resolve the table and dialect of an INSERT script, asking for whatever is not known
+     * The table name defaults to the one the query selected from
      */
-    private escapeCsvValue(value: string): string {
-        if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-            return `"${value.replace(/"/g, '""')}"`;
+    private async getInsertTarget(index?: number, table?: string): Promise<InsertTarget | undefined> {
+        if (!ResultsPanel.connectionManager) {
+            vscode.window.showErrorMessage('Connection manager not available');
+            return undefined;
+        }
+
+        let dbType = ResultsPanel.connectionManager.getConnection(this.editState.connectionId)?.type;
+        if (dbType === DatabaseType.MongoDB) {
+            vscode.window.showWarningMessage('INSERT scripts are not available for MongoDB results');
+            return undefined;
+        }
+        if (!dbType) {
+            const dialect = await vscode.window.showQuickPick(
+                Object.values(DatabaseType)
+                    .filter(type => type !== DatabaseType.MongoDB)
+                    .map(type => ({ label: type, type })),
+                { placeHolder: 'SQL dialect for the INSERT statements' }
+            );
+            if (!dialect) {
+                return undefined;
+            }
+            dbType = dialect.type;
+        }
+
+        const dataEditor = new DataEditor(ResultsPanel.connectionManager, this.editState.connectionId);
+        if (!table) {
+            const query = this.currentResults ? this.currentResults[index ?? 0]?.query ?? '' : this.editState.query;
+            const parsed = dataEditor.parseQueryForTable(query);
+            table = await vscode.window.showInputBox({
+                prompt: 'Table name for the INSERT statements',
+                value: parsed?.tableName ? [parsed.database, parsed.schema, parsed.tableName].filter(Boolean).join('.') : '',
+                validateInput: value => value.trim() ? null : 'Table name is required'
+            });
+            if (!table) {
+                return undefined;
+            }
         }
-        return value;
+
+        return { table: table.trim().split('.'), dbType, dataEditor };
     }
 
     /**
@@ -0,0 +1,317 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { QueryLanguage, SavedQuery, SavedQueryParam } from '../types';
+import { Logger } from '../utils/logger';
+
+const EXTENSIONS: Record<QueryLanguage, string> = {
+    sql: '.sql',
+    mongodb: '.mongodb'
+};
+
+/**
+ * Header comment line: -- Key: value (SQL) or // Key: value (MongoDB)
+ */
+const HEADER_LINE = /^\s*(?:--|\/\/)\s*([A-Za-z]+):\s*(.*?)\s*$/;
+
+/**
+ * Parameter placeholder in a saved query body
+ */
+const PARAM_PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Header comments at the top of a query and the text after them
+ */
+export interface QueryHeader {
+    connection?: string;
+    database?: string;
+    description?: string;
+    /** Param: name = default lines, in order */
+    params: SavedQueryParam[];
+    body: string;
+}
+
+/**
+ * Split the leading header comments (Connection, Database, Description, Param) from a query
+ * Other leading comments are kept as part of the body.
+ */
+export function parseQueryHeader(text: string): QueryHeader {
+    const header: QueryHeader = { params: [], body: '' };
+    const lines = text.split(/\r?\n/);
+    let i = 0;
+    for (; i < lines.length; i++) {
+        const match = lines[i].match(HEADER_LINE);
+        const key = match?.[1].toLowerCase();
+        const value = match?.[2] || '';
+        if (key === 'connection') {
+            header.connection = value;
+        } else if (key === 'database') {
+            header.database = value;
+        } else if (key === 'description') {
+            header.description = value;
+        } else if (key === 'param') {
+            const separator = value.indexOf('=');
+            const name = (separator >= 0 ? value.substring(0, separator) : value).trim();
+            if (name) {
+                header.params.push({
+                    name,
+                    defaultValue: separator >= 0 ? value.substring(separator + 1).trim() : undefined
+                });
+            }
+        } else {
+            break;
+        }
+    }
+    header.body = lines.slice(i).join('\n').trim();
+    return header;
+}
+
+/**
+ * Parameters of a query: the declared ones, then any other {{name}} placeholders in order of appearance
+ */
+export function getQueryParams(body: string, declared: SavedQueryParam[] = []): SavedQueryParam[] {
+    const params = [...declared];
+    for (const match of body.matchAll(PARAM_PLACEHOLDER)) {
+        if (!params.some(param => param.name === match[1])) {
+            params.push({ name: match[1] });
+        }
+    }
+    return params;
+}
+
+/**
+ * Replace {{name}} placeholders with their values, inserted as typed
+ */
+export function applyQueryParams(body: string, values: Map<string, string>): string {
+    return body.replace(PARAM_PLACEHOLDER, (placeholder, name: string) => values.get(name) ?? placeholder);
+}
+
+/**
+ * Ask for the value of each parameter, offering its default
+ * @returns Values by parameter name, or undefined when the user cancelled
+ */
+export async function promptQueryParams(params: SavedQueryParam[]): Promise<Map<string, string> | undefined> {
+    const values = new Map<string, string>();
+    for (const param of params) {
+        const value = await vscode.window.showInputBox({
+            prompt: `Value for {{${param.name}}} (inserted as typed, so quote strings)`,
+            value: param.defaultValue
+        });
+        if (value === undefined) {
+            return undefined;
+        }
+        values.set(param.name, value);
+    }
+    return values;
+}
+
+/**
+ * Library of saved queries
+ *
+ * Queries are plain .sql / .mongodb files in the dbConnector.savedQueriesFolder folder
+ * (relative to the first workspace folder), so the library can be committed with the
+ * project. Each connection has a sub-folder named after it; any folders below that are
+ * shown as folders in the tree. The connection, database, description and parameters
+ * of a query are kept in its header comments, which also bind the file to its
+ * connection when it is opened and run from the editor.
+ */
+export class SavedQueryLibrary implements vscode.Disposable {
+    private watcher: vscode.FileSystemWatcher | undefined;
+    private disposables: vscode.Disposable[] = [];
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor() {
+        this.watch();
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('dbConnector.savedQueriesFolder')) {
+                    this.watch();
+                    this._onDidChange.fire();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => {
+                this.watch();
+                this._onDidChange.fire();
+            })
+        );
+    }
+
+    /**
+     * Absolute path of the library, or undefined when a relative folder is configured and no workspace is open
+     */
+    public getRoot(): string | undefined {
+        const folder = vscode.workspace.getConfiguration('dbConnector').get<string>('savedQueriesFolder', '.vscode/queries');
+        if (path.isAbsolute(folder)) {
+            return folder;
+        }
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder ? path.join(workspaceFolder.uri.fsPath, folder) : undefined;
+    }
+
+    /**
+     * Folder holding the saved queries of a connection
+     */
+    public getConnectionFolder(connectionName: string): string | undefined {
+        const root = this.getRoot();
+        return root ? path.join(root, this.toFileName(connectionName)) : undefined;
+    }
+
+    /**
+     * Sub-folders and saved queries directly inside a folder, sorted by name
+     */
+    public async list(folder: string): Promise<{ folders: string[]; queries: SavedQuery[] }> {
+        let dirents: fs.Dirent[];
+        try {
+            dirents = await fs.promises.readdir(folder, { withFileTypes: true });
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                Logger.error(`Failed to list saved queries in ${folder}`, error as Error);
+            }
+            return { folders: [], queries: [] };
+        }
+
+        const byName = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base' });
+        const folders = dirents
+            .filter(dirent => dirent.isDirectory())
+            .map(dirent => dirent.name)
+            .sort(byName)
+            .map(name => path.join(folder, name));
+        const files = dirents
+            .filter(dirent => dirent.isFile() && this.getLanguage(dirent.name) !== undefined)
+            .map(dirent => dirent.name)
+            .sort(byName);
+
+        const queries: SavedQuery[] = [];
+        for (const file of files) {
+            try {
+                queries.push(await this.read(path.join(folder, file)));
+            } catch (error) {
+                Logger.error(`Failed to read saved query ${file}`, error as Error);
+            }
+        }
+        return { folders, queries };
+    }
+
+    /**
+     * Read and parse a saved query file
+     */
+    public async read(filePath: string): Promise<SavedQuery> {
+        const text = await fs.promises.readFile(filePath, 'utf8');
+        const header = parseQueryHeader(text);
+        return {
+            name: path.basename(filePath, path.extname(filePath)),
+            filePath,
+            language: this.getLanguage(filePath) || 'sql',
+            connection: header.connection,
+            database: header.database,
+            description: header.description,
+            params: getQueryParams(header.body, header.params),
+            body: header.body
+        };
+    }
+
+    /**
+     * Write a saved query, replacing any file of the same name
+     * @returns Path of the written file
+     */
+    public async save(query: {
+        connection: string;
+        name: string;
+        language: QueryLanguage;
+        database?: string;
+        description?: string;
+        params: SavedQueryParam[];
+        body: string;
+    }): Promise<string> {
+        const filePath = this.getFilePath(query.connection, query.name, query.language);
+        if (!filePath) {
+            throw new Error('Open a folder (or set dbConnector.savedQueriesFolder to an absolute path) to save queries');
+        }
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, this.format(query), 'utf8');
+        this._onDidChange.fire();
+        return filePath;
+    }
+
+    /**
+     * Delete a saved query file
+     */
+    public async delete(filePath: string): Promise<void> {
+        await fs.promises.unlink(filePath);
+        this._onDidChange.fire();
+    }
+
+    public async exists(filePath: string): Promise<boolean> {
+        try {
+            await fs.promises.access(filePath);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Path a query is saved to; "/" in the name separates folders below the connection folder
+     */
+    public getFilePath(connection: string, name: string, language: QueryLanguage): string | undefined {
+        const connectionFolder = this.getConnectionFolder(connection);
+        if (!connectionFolder) {
+            return undefined;
+        }
+        const segments = name.split('/').map(segment => segment.trim()).filter(segment => segment.length > 0);
+        return path.join(connectionFolder, ...segments.map(segment => this.toFileName(segment))) + EXTENSIONS[language];
+    }
+
+    public dispose(): void {
+        this.watcher?.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this._onDidChange.dispose();
+    }
+
+    /**
+     * Header comments followed by the query
+     */
+    private format(query: { connection: string; language: QueryLanguage; database?: string; description?: string; params: SavedQueryParam[]; body: string }): string {
+        const comment = query.language === 'mongodb' ? '//' : '--';
+        const lines = [`${comment} Connection: ${query.connection}`];
+        if (query.database) {
+            lines.push(`${comment} Database: ${query.database}`);
+        }
+        if (query.description) {
+            lines.push(`${comment} Description: ${query.description}`);
+        }
+        for (const param of query.params) {
+            lines.push(`${comment} Param: ${param.name}${param.defaultValue !== undefined ? ` = ${param.defaultValue}` : ''}`);
+        }
+        return `${lines.join('\n')}\n\n${query.body.trim()}\n`;
+    }
+
+    private getLanguage(fileName: string): QueryLanguage | undefined {
+        const extension = path.extname(fileName).toLowerCase();
+        return (Object.keys(EXTENSIONS) as QueryLanguage[]).find(language => EXTENSIONS[language] === extension);
+    }
+
+    /**
+     * Replace characters that are not allowed in file names
+     */
+    private toFileName(name: string): string {
+        return name.replace(/[\\/:*?"<>|]/g, '_').replace(/^\.+/, '_').trim();
+    }
+
+    /**
+     * Watch the library folder so edits made outside the tree show up in it
+     */
+    private watch(): void {
+        this.watcher?.dispose();
+        this.watcher = undefined;
+        const root = this.getRoot();
+        if (!root) {
+            return;
+        }
+        this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(root), '**/*'));
+        this.watcher.onDidCreate(() => this._onDidChange.fire());
+        this.watcher.onDidDelete(() => this._onDidChange.fire());
+        this.watcher.onDidChange(() => this._onDidChange.fire());
+    }
+}
@@ -0,0 +1,278 @@
+import * as vscode from 'vscode';
+import { ColumnInfo, DatabaseType } from '../types';
+import { ConnectionManager } from '../connectionManager';
+import { DataEditor } from './dataEditor';
+import { buildMigrationScript, compareSchemas, ColumnDiff, ColumnDifference, normalizeDefault, SchemaDiff, TableDiff, TableSchema } from '../utils/schemaDiff';
+import { Logger } from '../utils/logger';
+
+/**
+ * One side of a schema comparison
+ */
+export interface SchemaEndpoint {
+    connectionId: string;
+    database: string;
+}
+
+/**
+ * Panel showing the differences between two schemas and the migration script for the target
+ */
+export class SchemaComparePanel {
+    private script = '';
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private connectionManager: ConnectionManager,
+        private source: SchemaEndpoint,
+        private target: SchemaEndpoint
+    ) {
+        this.panel.webview.onDidReceiveMessage(async message => {
+            switch (message.command) {
+                case 'refresh':
+                    await this.compare();
+                    break;
+                case 'openScript':
+                    await this.openScript();
+                    break;
+                case 'copyScript':
+                    await vscode.env.clipboard.writeText(this.script);
+                    vscode.window.showInformationMessage('Migration script copied to clipboard');
+                    break;
+            }
+        });
+    }
+
+    /**
+     * Compare the source schema with the target and show the result in a new panel
+     */
+    public static async show(connectionManager: ConnectionManager, source: SchemaEndpoint, target: SchemaEndpoint): Promise<void> {
+        const panel = vscode.window.createWebviewPanel(
+            'dbConnectorSchemaCompare',
+            `Compare: ${source.database} → ${target.database}`,
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        const comparePanel = new SchemaComparePanel(panel, connectionManager, source, target);
+        await comparePanel.compare();
+    }
+
+    /**
+     * Read both schemas and render the differences
+     */
+    private async compare(): Promise<void> {
+        try {
+            const [source, target] = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Comparing schemas'
+            }, async progress => {
+                progress.report({ message: this.describe(this.source) });
+                const sourceSchema = await this.loadSchema(this.source);
+                progress.report({ message: this.describe(this.target) });
+                const targetSchema = await this.loadSchema(this.target);
+                return [sourceSchema, targetSchema];
+            });
+
+            const diff = compareSchemas(source.tables, target.tables, source.type, target.type);
+            const editor = new DataEditor(this.connectionManager, this.target.connectionId);
+            this.script = `-- Migration of ${this.describe(this.target)} to match ${this.describe(this.source)}\n`
+                + `-- Generated ${new Date().toISOString()}; review before running\n\n`
+                + buildMigrationScript(diff, name => editor.quoteIdentifier(name, target.type));
+            this.panel.webview.html = this.getHtml(diff);
+        } catch (error) {
+            Logger.error('Schema comparison failed', error as Error);
+            vscode.window.showErrorMessage(`Schema comparison failed: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Tables and columns of a database
+     */
+    private async loadSchema(endpoint: SchemaEndpoint): Promise<{ type: DatabaseType; tables: TableSchema[] }> {
+        const provider = this.connectionManager.getProvider(endpoint.connectionId);
+        const config = this.connectionManager.getConnection(endpoint.connectionId);
+        if (!provider || !config) {
+            throw new Error(`${config?.name ?? 'Connection'} is not connected`);
+        }
+
+        const tables = await provider.getTables(endpoint.database);
+        const schemas: TableSchema[] = [];
+        for (const table of tables) {
+            const columns = await provider.getColumns(endpoint.database, table.name, table.schema);
+            schemas.push({ name: table.name, schema: table.schema, columns });
+        }
+        return { type: config.type, tables: schemas };
+    }
+
+    private async openScript(): Promise<void> {
+        const doc = await vscode.workspace.openTextDocument({
+            content: this.script,
+            language: 'sql'
+        });
+        await vscode.window.showTextDocument(doc);
+    }
+
+    private describe(endpoint: SchemaEndpoint): string {
+        const name = this.connectionManager.getConnection(endpoint.connectionId)?.name ?? endpoint.connectionId;
+        return `${name} / ${endpoint.database}`;
+    }
+
+    /**
+     * Generate HTML for the comparison
+     */
+    private getHtml(diff: SchemaDiff): string {
+        const count = (status: string) => diff.tables.filter(table => table.status === status).length;
+        const sections = diff.tables.map(table => this.getTableHtml(table, diff)).join('');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Schema Compare</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            padding: 20px;
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+        }
+        .info {
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 10px;
+        }
+        .toolbar {
+            margin: 10px 0 20px;
+        }
+        button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 14px;
+            cursor: pointer;
+            border-radius: 2px;
+            margin-right: 6px;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        h3 {
+            margin: 20px 0 6px;
+        }
+        table {
+            border-collapse: collapse;
+            width: 100%;
+            font-size: 13px;
+        }
+        th, td {
+            border: 1px solid var(--vscode-panel-border);
+            padding: 4px 8px;
+            text-align: left;
+        }
+        th {
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+        }
+        .added {
+            color: var(--vscode-gitDecoration-addedResourceForeground);
+        }
+        .removed {
+            color: var(--vscode-gitDecoration-deletedResourceForeground);
+        }
+        .changed {
+            color: var(--vscode-gitDecoration-modifiedResourceForeground);
+        }
+        .different {
+            font-weight: bold;
+            background-color: var(--vscode-diffEditor-insertedTextBackground);
+        }
+        .script {
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 10px;
+            border-radius: 4px;
+            font-family: var(--vscode-editor-font-family);
+            white-space: pre-wrap;
+        }
+    </style>
+</head>
+<body>
+    <h2>Schema Compare</h2>
+    <div class="info">
+        Source: <strong>${this.escapeHtml(this.describe(this.source))}</strong> (${diff.sourceType})<br>
+        Target: <strong>${this.escapeHtml(this.describe(this.target))}</strong> (${diff.targetType})
+    </div>
+    <div class="info">
+        <span class="added">${count('added')} to create</span> ·
+        <span class="changed">${count('changed')} changed</span> ·
+        <span class="removed">${count('removed')} to drop</span> ·
+        ${diff.unchangedTables.length} identical
+    </div>
+    <div class="toolbar">
+        <button onclick="send('openScript')">Open Migration Script</button>
+        <button onclick="send('copyScript')">Copy Script</button>
+        <button onclick="send('refresh')">Refresh</button>
+    </div>
+    ${sections || '<div class="info">The schemas are identical.</div>'}
+    <h3>Migration Script</h3>
+    <div class="script">${this.escapeHtml(this.script)}</div>
+    <script>
+        const vscode = acquireVsCodeApi();
+        function send(command) {
+            vscode.postMessage({ command });
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    /**
+     * Generate HTML for the column differences of one table
+     */
+    private getTableHtml(table: TableDiff, diff: SchemaDiff): string {
+        const label = { added: 'only in source', removed: 'only in target', changed: 'changed' }[table.status];
+        const note = table.primaryKeyChanged ? ' · primary key changed' : '';
+        const cell = (column: ColumnInfo | undefined, dbType: DatabaseType, change: ColumnDiff) => {
+            if (!column) {
+                return '<td></td><td></td><td></td><td></td>';
+            }
+            const mark = (difference: ColumnDifference) => (change.differences.includes(difference) ? ' class="different"' : '');
+            const keys = [column.isPrimaryKey ? 'PK' : '', column.isForeignKey ? 'FK' : ''].filter(Boolean).join(', ');
+            return `<td${mark('type')}>${this.escapeHtml(column.type)}</td>`
+                + `<td${mark('nullable')}>${column.nullable ? 'NULL' : 'NOT NULL'}</td>`
+                + `<td${mark('default')}>${this.escapeHtml(normalizeDefault(column, dbType, dbType) ?? '')}</td>`
+                + `<td${mark('primaryKey') || mark('foreignKey')}>${keys}</td>`;
+        };
+
+        const rows = table.columns.map(column => `
+            <tr>
+                <td class="${column.status}">${this.escapeHtml(column.name)}</td>
+                ${cell(column.source, diff.sourceType, column)}
+                ${cell(column.target, diff.targetType, column)}
+            </tr>`).join('');
+
+        return `
+    <h3 class="${table.status}">${this.escapeHtml(table.name)} <small>(${label}${note})</small></h3>
+    ${rows ? `<table>
+        <thead>
+            <tr><th rowspan="2">Column</th><th colspan="4">Source</th><th colspan="4">Target</th></tr>
+            <tr><th>Type</th><th>Null</th><th>Default</th><th>Key</th><th>Type</th><th>Null</th><th>Default</th><th>Key</th></tr>
+        </thead>
+        <tbody>${rows}</tbody>
+    </table>` : ''}`;
+    }
+
+    /**
+     * Escape HTML
+     */
+    private escapeHtml(text: string): string {
+        const map: { [key: string]: string } = {
+            '&': '&amp;',
+            '<': '&lt;',
+            '>': '&gt;',
+            '"': '&quot;',
+            "'": '&#039;'
+        };
+        return text.replace(/[&<>"']/g, m => map[m]);
+    }
+}
@@ -1,4 +1,3 @@
-import { MSSQLProvider } from '../databaseProviders/mssqlProvider';
 import * as vscode from 'vscode';
 import { ConnectionManager } from '../connectionManager';
 import { DatabaseType, ColumnInfo } from '../types';
@@ -10,6 +9,7 @@ import { Logger } from '../utils/logger';
 interface SchemaCache {
     connectionId: string;
     connectionName: string;
+    type: DatabaseType;
     databases: DatabaseSchema[];
     lastUpdated: Date;
 }
@@ -21,6 +21,8 @@ interface DatabaseSchema {
 
 interface TableSchema {
     name: string;
+    /** Schema (namespace) of the table in PostgreSQL and SQL Server */
+    schema?: string;
     columns: ColumnInfo[];
 }
 
@@ -149,10 +151,11 @@ export class SqlCompletionProvider implements vscode.CompletionItemProvider {
             const afterFromMatch = textBeforeCursor.match(/\b(FROM|JOIN|INTO|UPDATE)\s+(\w*\.?\w*)$/i);
             const afterSelectMatch = textBeforeCursor.match(/\bSELECT\s+.*$/i);
 
-            // If typing after a dot (table.column)
+            // If typing after a dot (table.column, or schema.table)
             if (contextMatch) {
                 const tableName = contextMatch[1];
                 items.push(...await this.getColumnCompletions(tableName));
+                items.push(...await this.getSchemaTableCompletions(tableName));
             }
             // If typing after FROM, JOIN, INTO, UPDATE - suggest tables
             else if (afterFromMatch) {
@@ -236,11 +239,12 @@ export class SqlCompletionProvider implements vscode.CompletionItemProvider {
                             table.name,
                             vscode.CompletionItemKind.Class
                         );
-                        item.detail = `Table in ${db.name} (${cache.connectionName})`;
+                        const qualifiedName = this.qualifyTableName(cache.type, db.name, table);
+                        item.detail = `Table in ${table.schema ? `${db.name}.${table.schema}` : db.name} (${cache.connectionName})`;
                         item.documentation = new vscode.MarkdownString(
-                            `**${db.name}.${table.name}**\n\nColumns:\n${table.columns.map(c => `- ${c.name}: ${c.type}`).join('\n')}`
+                            `**${qualifiedName}**\n\nColumns:\n${table.columns.map(c => `- ${c.name}: ${c.type}`).join('\n')}`
                         );
-                        item.insertText = `${db.name}.${table.name}`;
+                        item.insertText = qualifiedName;
                         item.sortText = '4' + table.name;
                         items.push(item);
 
@@ -262,6 +266,50 @@ export class SqlCompletionProvider implements vscode.CompletionItemProvider {
         return items;
     }
 
+    /**
+     * Get table completions for a schema name typed before a dot (PostgreSQL, SQL Server)
+     */
+    private async getSchemaTableCompletions(schemaName: string): Promise<vscode.CompletionItem[]> {
+        const items: vscode.CompletionItem[] = [];
+
+        try {
+            await this.updateSchemaCache();
+
+            for (const cache of this.schemaCache.values()) {
+                for (const db of cache.databases) {
+                    for (const table of db.tables) {
+                        if (table.schema?.toLowerCase() !== schemaName.toLowerCase()) {
+                            continue;
+                        }
+                        const item = new vscode.CompletionItem(table.name, vscode.CompletionItemKind.Class);
+                        item.detail = `Table in ${db.name}.${table.schema} (${cache.connectionName})`;
+                        item.sortText = '4' + table.name;
+                        items.push(item);
+                    }
+                }
+            }
+        } catch (error) {
+            Logger.error('Error getting schema table completions', error as Error);
+        }
+
+        return items;
+    }
+
+    /**
+     * Name a table as the dialect qualifies it: schema.table (PostgreSQL, where a query cannot
+     * cross databases), database.schema.table (SQL Server) or database.table
+     */
+    private qualifyTableName(type: DatabaseType, database: string, table: TableSchema): string {
+        switch (type) {
+            case DatabaseType.PostgreSQL:
+                return `${table.schema || 'public'}.${table.name}`;
+            case DatabaseType.MSSQL:
+                return `${database}.${table.schema || 'dbo'}.${table.name}`;
+            default:
+                return `${database}.${table.name}`;
+        }
+    }
+
     /**
      * Get column completions for a specific table
      */
@@ -445,23 +493,25 @@ export class SqlCompletionProvider implements vscode.CompletionItemProvider {
 
                 for (const db of databases) {
                     // Skip system databases
-                    if (['information_schema', 'mysql', 'performance_schema', 'sys', 'master', 'tempdb', 'model', 'msdb'].includes(db.name.toLowerCase())) {
+                    if (['information_schema', 'mysql', 'performance_schema', 'sys', 'master', 'tempdb', 'model', 'msdb', 'temp'].includes(db.name.toLowerCase())) {
                         continue;
                     }
 
-                    const tables = provider instanceof MSSQLProvider ? await provider.getTables() : await provider.getTables(db.name);
+                    const tables = await provider.getTables(db.name);
                     const tableSchemas: TableSchema[] = [];
 
                     for (const table of tables.slice(0, 50)) { // Limit to 50 tables per database
                         try {
-                            const columns = provider instanceof MSSQLProvider ? await provider.getColumns(table.name) : await provider.getColumns(db.name, table.name);
+                            const columns = await provider.getColumns(db.name, table.name, table.schema);
                             tableSchemas.push({
                                 name: table.name,
+                                schema: this.hasSchemas(conn.type) ? table.schema : undefined,
                                 columns
                             });
                         } catch {
                             tableSchemas.push({
                                 name: table.name,
+                                schema: this.hasSchemas(conn.type) ? table.schema : undefined,
                                 columns: []
                             });
                         }
@@ -476,6 +526,7 @@ export class SqlCompletionProvider implements vscode.CompletionItemProvider {
                 this.schemaCache.set(conn.id, {
                     connectionId: conn.id,
                     connectionName: conn.name,
+                    type: conn.type,
                     databases: schemaData,
                     lastUpdated: new Date()
                 });
@@ -488,6 +539,13 @@ export class SqlCompletionProvider implements vscode.CompletionItemProvider {
         }
     }
 
+    /**
+     * MySQL reports the database as the schema of its tables; only PostgreSQL and SQL Server have a schema level
+     */
+    private hasSchemas(type: DatabaseType): boolean {
+        return type === DatabaseType.PostgreSQL || type === DatabaseType.MSSQL;
+    }
+
     /**
      * Invalidate all cache
      */
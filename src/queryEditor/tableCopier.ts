@@ -0,0 +1,353 @@
+import * as vscode from 'vscode';
+import { ColumnInfo, ConnectionConfig, DatabaseType, IDatabaseProvider, QueryCursor, TableInfo } from '../types';
+import { ConnectionManager } from '../connectionManager';
+import { DataEditor, EditableTableInfo, qualifyTable } from './dataEditor';
+import { mapColumnType } from '../utils/columnTypes';
+import { Logger } from '../utils/logger';
+
+/**
+ * Table that data is copied from
+ */
+export interface CopySource {
+    connectionId: string;
+    database: string;
+    table: string;
+    schema?: string;
+}
+
+/**
+ * Where the rows go, resolved from the user's choices
+ */
+interface CopyTarget {
+    connectionId: string;
+    config: ConnectionConfig;
+    provider: IDatabaseProvider;
+    database: string;
+    table: string;
+    /** Schema of an existing target table; a created table goes to the default schema */
+    schema?: string;
+    /** Target columns receiving the source columns of the same index */
+    columns: ColumnInfo[];
+    sourceColumns: ColumnInfo[];
+    create: boolean;
+}
+
+// Most parameters one statement may bind (SQL Server allows 2100, older SQLite builds 999)
+const MAX_PARAMS: Record<string, number> = {
+    [DatabaseType.MSSQL]: 2000,
+    [DatabaseType.SQLite]: 999
+};
+
+// SQL Server takes at most 1000 rows in one VALUES list
+const MSSQL_MAX_ROWS = 1000;
+
+/**
+ * Copies a table's rows to a table on another (or the same) connection
+ */
+export class TableCopier {
+    constructor(private connectionManager: ConnectionManager) {}
+
+    /**
+     * Ask for the target, create the table if needed, then stream the rows across in batches
+     * Each batch is committed on its own, so a cancelled or failed copy keeps the rows already copied
+     */
+    public async copyTable(source: CopySource): Promise<void> {
+        const sourceProvider = this.connectionManager.getProvider(source.connectionId);
+        const sourceConfig = this.connectionManager.getConnection(source.connectionId);
+        if (!sourceProvider || !sourceConfig) {
+            vscode.window.showErrorMessage('Please connect to the database first');
+            return;
+        }
+
+        try {
+            const sourceColumns = await sourceProvider.getColumns(source.database, source.table, source.schema);
+            if (sourceColumns.length === 0) {
+                vscode.window.showErrorMessage(`Could not read the columns of ${source.table}`);
+                return;
+            }
+
+            const target = await this.promptTarget(source, sourceConfig.type, sourceColumns);
+            if (!target) {
+                return;
+            }
+
+            if (target.create) {
+                const ddl = this.buildCreateTable(target);
+                Logger.info(`Creating table: ${ddl}`);
+                const result = await target.provider.executeQuery(ddl, target.database);
+                if (result.error) {
+                    vscode.window.showErrorMessage(`Failed to create ${target.table}: ${result.error}`);
+                    return;
+                }
+                // Read the created columns back so values are bound with the real types
+                target.columns = await target.provider.getColumns(target.database, target.table, target.schema);
+            }
+
+            await this.copyRows(source, sourceProvider, sourceConfig.type, target);
+        } catch (error) {
+            Logger.error('Table copy failed', error as Error);
+            vscode.window.showErrorMessage(`Copy failed: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Ask for the target connection, database and table
+     * An existing table receives the columns it has in common with the source; a new one is created with mapped types
+     */
+    private async promptTarget(
+        source: CopySource,
+        sourceType: DatabaseType,
+        sourceColumns: ColumnInfo[]
+    ): Promise<CopyTarget | undefined> {
+        const connections = this.connectionManager.getAllConnections().filter(conn => conn.type !== DatabaseType.MongoDB);
+        const connectionChoice = await vscode.window.showQuickPick(
+            connections.map(conn => ({
+                label: conn.name,
+                description: `${conn.type}${conn.id === source.connectionId ? ' (source connection)' : ''}`,
+                config: conn
+            })),
+            { placeHolder: `Copy ${source.table} to which connection?` }
+        );
+        if (!connectionChoice) {
+            return undefined;
+        }
+
+        const config = connectionChoice.config;
+        let provider = this.connectionManager.getProvider(config.id);
+        if (!provider) {
+            await this.connectionManager.connect(config.id);
+            provider = this.connectionManager.getProvider(config.id);
+            if (!provider) {
+                return undefined;
+            }
+        }
+
+        const databases = await provider.getDatabases();
+        const databaseChoice = await vscode.window.showQuickPick(
+            databases.map(db => ({ label: db.name })),
+            { placeHolder: 'Target database' }
+        );
+        if (!databaseChoice) {
+            return undefined;
+        }
+        const database = databaseChoice.label;
+
+        const table = await vscode.window.showInputBox({
+            prompt: 'Target table (created if it does not exist)',
+            value: source.table,
+            validateInput: value => value.trim() ? null : 'Table name is required'
+        });
+        if (!table) {
+            return undefined;
+        }
+
+        const tables = await provider.getTables(database);
+        const matches = tables.filter(t => t.name.toLowerCase() === table.trim().toLowerCase());
+        let existing: TableInfo | undefined = matches[0];
+        if (matches.length > 1) {
+            // The same table name in several schemas
+            const schemaChoice = await vscode.window.showQuickPick(
+                matches.map(t => ({ label: t.schema ? `${t.schema}.${t.name}` : t.name, table: t })),
+                { placeHolder: `${table.trim()} exists in several schemas; append to which one?` }
+            );
+            if (!schemaChoice) {
+                return undefined;
+            }
+            existing = schemaChoice.table;
+        }
+        const target: CopyTarget = {
+            connectionId: config.id,
+            config,
+            provider,
+            database,
+            table: existing?.name ?? table.trim(),
+            schema: existing?.schema,
+            columns: [],
+            sourceColumns: [],
+            create: !existing
+        };
+
+        if (existing) {
+            const targetColumns = await provider.getColumns(database, target.table, target.schema);
+            for (const column of sourceColumns) {
+                const match = targetColumns.find(c => c.name.toLowerCase() === column.name.toLowerCase());
+                if (match) {
+                    target.sourceColumns.push(column);
+                    target.columns.push(match);
+                }
+            }
+            if (target.columns.length === 0) {
+                vscode.window.showErrorMessage(`${target.table} has no columns in common with ${source.table}`);
+                return undefined;
+            }
+
+            const skipped = sourceColumns.filter(column => !target.sourceColumns.includes(column)).map(column => column.name);
+            const answer = await vscode.window.showWarningMessage(
+                `Append the rows of ${source.table} to the existing table ${target.table}?`,
+                {
+                    modal: true,
+                    detail: skipped.length > 0 ? `Columns missing from the target are skipped: ${skipped.join(', ')}` : undefined
+                },
+                'Append'
+            );
+            return answer === 'Append' ? target : undefined;
+        }
+
+        target.sourceColumns = sourceColumns;
+        target.columns = sourceColumns.map(column => ({ ...column, type: mapColumnType(column.type, sourceType, config.type) }));
+        const answer = await vscode.window.showInformationMessage(
+            `Create ${target.table} in ${config.name} / ${database} and copy the rows of ${source.table}?`,
+            { modal: true, detail: this.buildCreateTable(target) },
+            'Create and Copy'
+        );
+        return answer === 'Create and Copy' ? target : undefined;
+    }
+
+    /**
+     * Stream the source rows through a cursor and insert them in batches
+     */
+    private async copyRows(
+        source: CopySource,
+        sourceProvider: IDatabaseProvider,
+        sourceType: DatabaseType,
+        target: CopyTarget
+    ): Promise<void> {
+        const sourceEditor = new DataEditor(this.connectionManager, source.connectionId);
+        const targetEditor = new DataEditor(this.connectionManager, target.connectionId);
+        const sourceTable = this.getFullTableName(sourceEditor, sourceType, source);
+        const selectList = target.sourceColumns.map(column => sourceEditor.quoteIdentifier(column.name, sourceType)).join(', ');
+
+        // The row count only drives the progress bar
+        const countResult = await sourceProvider.executeQuery(`SELECT COUNT(*) AS row_count FROM ${sourceTable}`, source.database);
+        const total = Number(Object.values(countResult.rows?.[0] ?? {})[0]) || 0;
+
+        const tableInfo: EditableTableInfo = {
+            ...qualifyTable(target.config.type, target),
+            primaryKeys: [],
+            columns: target.columns,
+            isEditable: true
+        };
+        const columnNames = target.columns.map(column => column.name);
+        const batchSize = this.getBatchSize(target.config.type, columnNames.length);
+
+        let copied = 0;
+        let cursor: QueryCursor | undefined;
+        const outcome = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Copying ${source.table} to ${target.config.name} / ${target.table}`,
+            cancellable: true
+        }, async (progress, token) => {
+            cursor = await sourceProvider.openCursor(`SELECT ${selectList} FROM ${sourceTable}`, source.database);
+            try {
+                while (!cursor.isDone()) {
+                    if (token.isCancellationRequested) {
+                        return 'cancelled';
+                    }
+                    const rows = await cursor.fetch(batchSize);
+                    if (rows.length === 0) {
+                        break;
+                    }
+
+                    const values = rows.map(row => target.sourceColumns.map((column, i) => toTargetValue(row[column.name], target.columns[i])));
+                    const statement = targetEditor.buildBatchInsert(tableInfo, columnNames, values);
+                    const result = await target.provider.executeTransaction([statement], target.database);
+                    if (!result.success) {
+                        throw new Error(result.error || 'Insert failed');
+                    }
+
+                    copied += rows.length;
+                    progress.report({
+                        increment: total > 0 ? (rows.length / total) * 100 : undefined,
+                        message: total > 0 ? `${copied} of ${total} rows` : `${copied} rows`
+                    });
+                }
+                return 'done';
+            } finally {
+                await cursor.close().catch(error => Logger.error('Failed to close cursor', error as Error));
+            }
+        }).then(
+            status => ({ status, error: undefined as Error | undefined }),
+            error => ({ status: 'failed', error: error as Error })
+        );
+
+        if (outcome.status === 'done') {
+            vscode.window.showInformationMessage(`Copied ${copied} rows from ${source.table} to ${target.config.name} / ${target.table}`);
+        } else if (outcome.status === 'cancelled') {
+            vscode.window.showWarningMessage(`Copy cancelled after ${copied} rows; the rows already copied were kept`);
+        } else {
+            Logger.error('Table copy failed', outcome.error);
+            vscode.window.showErrorMessage(`Copy failed after ${copied} rows: ${outcome.error?.message}. The rows already copied were kept.`);
+        }
+    }
+
+    /**
+     * CREATE TABLE for the target with the mapped column types and the source primary key
+     */
+    private buildCreateTable(target: CopyTarget): string {
+        const dbType = target.config.type;
+        const editor = new DataEditor(this.connectionManager, target.connectionId);
+        const definitions = target.columns.map(column =>
+            `    ${editor.quoteIdentifier(column.name, dbType)} ${column.type}${column.nullable ? '' : ' NOT NULL'}`
+        );
+
+        const primaryKeys = target.columns.filter(column => column.isPrimaryKey);
+        if (primaryKeys.length > 0) {
+            definitions.push(`    PRIMARY KEY (${primaryKeys.map(column => editor.quoteIdentifier(column.name, dbType)).join(', ')})`);
+        }
+
+        return `CREATE TABLE ${this.getFullTableName(editor, dbType, target)} (\n${definitions.join(',\n')}\n);`;
+    }
+
+    /**
+     * Quoted, qualified table name in the dialect of the connection
+     */
+    private getFullTableName(
+        editor: DataEditor,
+        dbType: DatabaseType,
+        table: { table: string; database: string; schema?: string }
+    ): string {
+        const { database, schema, tableName } = qualifyTable(dbType, table);
+        return [database, schema, tableName]
+            .filter((part): part is string => Boolean(part))
+            .map(part => editor.quoteIdentifier(part, dbType))
+            .join('.');
+    }
+
+    /**
+     * Rows per INSERT: the import batch size, capped by the dialect's parameter limit
+     */
+    private getBatchSize(dbType: DatabaseType, columnCount: number): number {
+        const configured = vscode.workspace.getConfiguration('dbConnector').get<number>('importBatchSize', 500);
+        let size = Math.max(1, configured);
+        const maxParams = MAX_PARAMS[dbType];
+        if (maxParams) {
+            size = Math.min(size, Math.max(1, Math.floor(maxParams / Math.max(1, columnCount))));
+        }
+        if (dbType === DatabaseType.MSSQL) {
+            size = Math.min(size, MSSQL_MAX_ROWS);
+        }
+        return size;
+    }
+}
+
+/**
+ * Adjust a value read from one driver to what the target column accepts
+ * e.g. MySQL BIT(1) comes back as a Buffer and JSON columns as objects
+ */
+function toTargetValue(value: any, column: ColumnInfo): any {
+    if (value === null || value === undefined) {
+        return null;
+    }
+
+    const type = column.type.toLowerCase();
+    if (/^(bool|boolean|bit)\b/.test(type) || type === 'tinyint(1)') {
+        if (Buffer.isBuffer(value)) {
+            return value.some(byte => byte !== 0);
+        }
+        return typeof value === 'string' ? ['1', 't', 'true'].includes(value.toLowerCase()) : Boolean(value);
+    }
+    if (typeof value === 'object' && !(value instanceof Date) && !Buffer.isBuffer(value) && !type.includes('json')) {
+        return JSON.stringify(value);
+    }
+    return value;
+}
@@ -0,0 +1,24 @@
+import * as path from 'path';
+import mocha from 'mocha';
+import { glob } from 'glob';
+
+/**
+ * Entry point the extension host calls: run every *.test.js file next to this one
+ */
+export async function run(): Promise<void> {
+    const runner = new mocha({ ui: 'tdd', color: true, timeout: 10000 });
+    const testsRoot = path.resolve(__dirname);
+
+    const files = await glob('**/*.test.js', { cwd: testsRoot });
+    files.forEach(file => runner.addFile(path.resolve(testsRoot, file)));
+
+    return new Promise((resolve, reject) => {
+        runner.run(failures => {
+            if (failures > 0) {
+                reject(new Error(`${failures} tests failed.`));
+            } else {
+                resolve();
+            }
+        });
+    });
+}
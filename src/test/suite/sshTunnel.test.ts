@@ -0,0 +1,143 @@
+import * as assert from 'assert';
+import * as net from 'net';
+import * as vscode from 'vscode';
+import { Connection, Server, TcpipRequestInfo, utils } from 'ssh2';
+import { SSHTunnel } from '../../utils/sshTunnel';
+import { Logger } from '../../utils/logger';
+
+const USERNAME = 'tunnel';
+const PASSWORD = 'secret';
+
+/**
+ * Listen on a free loopback port and resolve with it
+ */
+function listen(server: net.Server | Server): Promise<number> {
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => resolve((server.address() as net.AddressInfo).port));
+    });
+}
+
+/**
+ * Send text to a port and resolve with as much text coming back, like a request and its reply
+ */
+function roundTrip(port: number, text: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let received = '';
+        const socket = net.connect(port, '127.0.0.1', () => socket.write(text));
+        socket.on('data', chunk => {
+            received += chunk.toString();
+            if (received.length >= text.length) {
+                socket.end();
+                resolve(received);
+            }
+        });
+        socket.on('error', reject);
+    });
+}
+
+suite('SSHTunnel', () => {
+    /** Stand-in for the database: echoes everything back */
+    let database: net.Server;
+    let databasePort: number;
+    /** Stand-in for sshd: password auth and direct-tcpip forwarding only */
+    let sshd: Server;
+    let sshdPort: number;
+    let sessions: Connection[];
+    let forwards: TcpipRequestInfo[];
+    let tunnel: SSHTunnel | undefined;
+
+    suiteSetup(() => {
+        Logger.initialize({ subscriptions: [] } as unknown as vscode.ExtensionContext);
+    });
+
+    setup(async () => {
+        sessions = [];
+        forwards = [];
+
+        database = net.createServer(socket => socket.pipe(socket));
+        databasePort = await listen(database);
+
+        sshd = new Server({ hostKeys: [utils.generateKeyPairSync('ed25519').private] }, client => {
+            sessions.push(client);
+            client
+                .on('authentication', ctx => {
+                    if (ctx.method === 'password' && ctx.username === USERNAME && ctx.password === PASSWORD) {
+                        ctx.accept();
+                    } else {
+                        ctx.reject(['password']);
+                    }
+                })
+                .on('ready', () => {
+                    client.on('tcpip', (accept, reject, info) => {
+                        forwards.push(info);
+                        const target = net.connect(info.destPort, info.destIP, () => {
+                            const channel = accept();
+                            channel.pipe(target).pipe(channel);
+                        });
+                        target.once('error', () => reject());
+                    });
+                })
+                .on('error', () => undefined);
+        });
+        sshdPort = await listen(sshd);
+    });
+
+    teardown(async () => {
+        await tunnel?.close();
+        tunnel = undefined;
+        sessions.forEach(session => session.end());
+        await new Promise<void>(resolve => sshd.close(() => resolve()));
+        await new Promise<void>(resolve => database.close(() => resolve()));
+    });
+
+    function createTunnel(): SSHTunnel {
+        tunnel = new SSHTunnel(
+            { enabled: true, host: '127.0.0.1', port: sshdPort, username: USERNAME },
+            '127.0.0.1',
+            databasePort,
+            5000
+        );
+        return tunnel;
+    }
+
+    test('open forwards local connections to the remote host through the SSH session', async () => {
+        const localPort = await createTunnel().open(PASSWORD);
+
+        assert.ok(localPort > 0);
+        assert.strictEqual(tunnel!.getLocalPort(), localPort);
+        assert.ok(tunnel!.isOpen());
+        assert.strictEqual(await roundTrip(localPort, 'SELECT 1'), 'SELECT 1');
+        assert.strictEqual(await roundTrip(localPort, 'SELECT 2'), 'SELECT 2');
+        assert.deepStrictEqual(forwards.map(info => [info.destIP, info.destPort]), [
+            ['127.0.0.1', databasePort],
+            ['127.0.0.1', databasePort]
+        ]);
+    });
+
+    test('open returns the same port when the tunnel is already open', async () => {
+        const localPort = await createTunnel().open(PASSWORD);
+
+        assert.strictEqual(await tunnel!.open(PASSWORD), localPort);
+        assert.strictEqual(sessions.length, 1);
+    });
+
+    test('close stops the local listener and ends the SSH session', async () => {
+        const localPort = await createTunnel().open(PASSWORD);
+        const sessionClosed = new Promise<void>(resolve => sessions[0].once('close', () => resolve()));
+
+        await tunnel!.close();
+
+        assert.ok(!tunnel!.isOpen());
+        assert.strictEqual(tunnel!.getLocalPort(), 0);
+        await sessionClosed;
+        await assert.rejects(roundTrip(localPort, 'SELECT 1'), { code: 'ECONNREFUSED' });
+    });
+
+    test('open rejects and stays closed when authentication fails', async () => {
+        await assert.rejects(createTunnel().open('wrong'), /SSH connection to 127\.0\.0\.1:\d+ failed/);
+
+        assert.ok(!tunnel!.isOpen());
+        assert.strictEqual(tunnel!.getLocalPort(), 0);
+    });
+});
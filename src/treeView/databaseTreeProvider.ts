@@ -1,17 +1,24 @@
-import { MSSQLProvider } from '../databaseProviders/mssqlProvider';
 import * as vscode from 'vscode';
 import { ConnectionManager } from '../connectionManager';
 import { Logger } from '../utils/logger';
-import { DatabaseType } from '../types';
+import { DatabaseType, SchemaObjectType } from '../types';
 import {
     BaseTreeItem,
     ConnectionTreeItem,
     DatabaseTreeItem,
+    ObjectFolderTreeItem,
+    ObjectFolderKind,
+    SchemaTreeItem,
+    SchemaObjectTreeItem,
     TableTreeItem,
     CollectionTreeItem,
     ColumnTreeItem,
-    FieldTreeItem
+    ForeignKeyTreeItem,
+    FieldTreeItem,
+    SavedQueriesTreeItem,
+    SavedQueryTreeItem
 } from './treeItems';
+import { SavedQueryLibrary } from '../queryEditor/savedQueries';
 
 /**
  * Tree data provider for the database explorer
@@ -20,11 +27,18 @@ export class DatabaseTreeProvider implements vscode.TreeDataProvider<BaseTreeIte
     private _onDidChangeTreeData = new vscode.EventEmitter<BaseTreeItem | undefined | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-    constructor(private connectionManager: ConnectionManager) {
+    constructor(
+        private connectionManager: ConnectionManager,
+        private savedQueries: SavedQueryLibrary
+    ) {
         // Listen to connection changes
         connectionManager.onDidChangeConnections(() => {
             this.refresh();
         });
+        // Saved query files can also change outside the tree
+        savedQueries.onDidChange(() => {
+            this.refresh();
+        });
     }
 
     /**
@@ -52,13 +66,28 @@ export class DatabaseTreeProvider implements vscode.TreeDataProvider<BaseTreeIte
             }
 
             if (element instanceof ConnectionTreeItem) {
-                // Show databases for a connection
-                return this.getDatabases(element);
+                // Show saved queries and databases for a connection
+                return [...this.getSavedQueriesNode(element), ...await this.getDatabases(element)];
+            }
+
+            if (element instanceof SavedQueriesTreeItem) {
+                // Show folders and queries of the saved queries library
+                return this.getSavedQueries(element);
             }
 
             if (element instanceof DatabaseTreeItem) {
-                // Show tables/collections for a database
-                return this.getTables(element);
+                // Show object folders (SQL) or collections (MongoDB) for a database
+                return this.getFolders(element);
+            }
+
+            if (element instanceof SchemaTreeItem) {
+                // Show object folders for a schema
+                return this.getFolders(element);
+            }
+
+            if (element instanceof ObjectFolderTreeItem) {
+                // Show tables, views, routines, ... of a database
+                return element.kind === 'tables' ? this.getTables(element) : this.getSchemaObjects(element);
             }
 
             if (element instanceof TableTreeItem) {
@@ -90,6 +119,25 @@ export class DatabaseTreeProvider implements vscode.TreeDataProvider<BaseTreeIte
         });
     }
 
+    /**
+     * Saved Queries node of a connection, unless there is no library folder (no workspace open)
+     */
+    private getSavedQueriesNode(element: ConnectionTreeItem): BaseTreeItem[] {
+        const folder = this.savedQueries.getConnectionFolder(element.connection.name);
+        return folder ? [new SavedQueriesTreeItem(element.connection.id, folder, true)] : [];
+    }
+
+    /**
+     * Get sub-folders and saved queries of a saved queries folder
+     */
+    private async getSavedQueries(element: SavedQueriesTreeItem): Promise<BaseTreeItem[]> {
+        const { folders, queries } = await this.savedQueries.list(element.folderPath);
+        return [
+            ...folders.map(folder => new SavedQueriesTreeItem(element.connectionId, folder, false)),
+            ...queries.map(query => new SavedQueryTreeItem(element.connectionId, query))
+        ];
+    }
+
     /**
      * Get databases for a connection
      */
@@ -111,40 +159,114 @@ export class DatabaseTreeProvider implements vscode.TreeDataProvider<BaseTreeIte
     }
 
     /**
-     * Get tables/collections for a database
+     * Get object folders for a SQL database or schema, the schemas of a PostgreSQL or SQL Server database,
+     * or the collections of a MongoDB database
      */
-    private async getTables(element: DatabaseTreeItem): Promise<BaseTreeItem[]> {
+    private async getFolders(element: DatabaseTreeItem | SchemaTreeItem): Promise<BaseTreeItem[]> {
+        const connection = this.connectionManager.getConnection(element.connectionId);
+        if (!connection) {
+            return [];
+        }
+
+        if (element instanceof DatabaseTreeItem) {
+            if (connection.type === DatabaseType.MongoDB) {
+                return this.getCollections(element);
+            }
+            if (connection.type === DatabaseType.PostgreSQL || connection.type === DatabaseType.MSSQL) {
+                return this.getSchemas(element);
+            }
+        }
+
+        const schema = element instanceof SchemaTreeItem ? element.schemaName : undefined;
+        return this.getFolderKinds(connection.type).map(kind =>
+            new ObjectFolderTreeItem(element.connectionId, element.databaseName, kind, schema)
+        );
+    }
+
+    /**
+     * Get schemas for a PostgreSQL or SQL Server database
+     */
+    private async getSchemas(element: DatabaseTreeItem): Promise<BaseTreeItem[]> {
         const provider = this.connectionManager.getProvider(element.connectionId);
         if (!provider) {
             return [];
         }
 
         try {
-            const connection = this.connectionManager.getConnection(element.connectionId);
-            if (!connection) {
-                return [];
-            }
+            const schemas = await provider.getSchemas(element.databaseName);
+            return schemas.map(schema =>
+                new SchemaTreeItem(element.connectionId, element.databaseName, schema)
+            );
+        } catch (error) {
+            Logger.error('Failed to get schemas', error as Error);
+            throw error;
+        }
+    }
 
-            // Handle MongoDB collections
-            if (connection.type === DatabaseType.MongoDB) {
-                const databases = await provider.getDatabases();
-                const database = databases.find(db => db.name === element.databaseName);
-                if (database?.collections) {
-                    return database.collections.map(coll =>
-                        new CollectionTreeItem(
-                            element.connectionId,
-                            element.databaseName,
-                            coll.name,
-                            coll.documentCount
-                        )
-                    );
-                }
-                return [];
+    /**
+     * Object folders shown for a database type, in display order
+     */
+    private getFolderKinds(type: DatabaseType): ObjectFolderKind[] {
+        switch (type) {
+            case DatabaseType.SQLite:
+                return ['tables', SchemaObjectType.View, SchemaObjectType.Trigger, SchemaObjectType.Index];
+            case DatabaseType.MySQL:
+                return ['tables', SchemaObjectType.View, SchemaObjectType.Procedure, SchemaObjectType.Function,
+                    SchemaObjectType.Trigger, SchemaObjectType.Index];
+            default:
+                // MariaDB 10.3+, PostgreSQL and SQL Server also have sequences
+                return ['tables', SchemaObjectType.View, SchemaObjectType.Procedure, SchemaObjectType.Function,
+                    SchemaObjectType.Trigger, SchemaObjectType.Sequence, SchemaObjectType.Index];
+        }
+    }
+
+    /**
+     * Get collections for a MongoDB database
+     */
+    private async getCollections(element: DatabaseTreeItem): Promise<BaseTreeItem[]> {
+        const provider = this.connectionManager.getProvider(element.connectionId);
+        if (!provider) {
+            return [];
+        }
+
+        try {
+            const databases = await provider.getDatabases();
+            const database = databases.find(db => db.name === element.databaseName);
+            if (database?.collections) {
+                return database.collections.map(coll =>
+                    new CollectionTreeItem(
+                        element.connectionId,
+                        element.databaseName,
+                        coll.name,
+                        coll.documentCount
+                    )
+                );
             }
+            return [];
+        } catch (error) {
+            Logger.error('Failed to get collections', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get tables for a SQL database
+     */
+    private async getTables(element: ObjectFolderTreeItem): Promise<BaseTreeItem[]> {
+        const provider = this.connectionManager.getProvider(element.connectionId);
+        if (!provider) {
+            return [];
+        }
 
-            // Handle SQL tables
-            const tables = provider instanceof MSSQLProvider ? await provider.getTables() : await provider.getTables(element.databaseName);
-            return tables.map(table =>
+        try {
+            const tables = (await provider.getTables(element.databaseName))
+                .filter(table => element.schema === undefined || table.schema === element.schema);
+            // SHOW TABLES lists views too; they have their own folder
+            const type = provider.getType();
+            const views = type === DatabaseType.MySQL || type === DatabaseType.MariaDB
+                ? new Set((await provider.getSchemaObjects(element.databaseName, SchemaObjectType.View)).map(view => view.name))
+                : new Set<string>();
+            return tables.filter(table => !views.has(table.name)).map(table =>
                 new TableTreeItem(
                     element.connectionId,
                     element.databaseName,
@@ -160,7 +282,28 @@ export class DatabaseTreeProvider implements vscode.TreeDataProvider<BaseTreeIte
     }
 
     /**
-     * Get columns for a table
+     * Get views, routines, triggers, sequences or indexes for a SQL database
+     */
+    private async getSchemaObjects(element: ObjectFolderTreeItem): Promise<BaseTreeItem[]> {
+        const provider = this.connectionManager.getProvider(element.connectionId);
+        if (!provider || element.kind === 'tables') {
+            return [];
+        }
+
+        try {
+            const objects = (await provider.getSchemaObjects(element.databaseName, element.kind))
+                .filter(object => element.schema === undefined || object.schema === element.schema);
+            return objects.map(object =>
+                new SchemaObjectTreeItem(element.connectionId, element.databaseName, object)
+            );
+        } catch (error) {
+            Logger.error('Failed to get schema objects', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get columns for a table, followed by its foreign keys
      */
     private async getColumns(element: TableTreeItem): Promise<BaseTreeItem[]> {
         const provider = this.connectionManager.getProvider(element.connectionId);
@@ -169,10 +312,21 @@ export class DatabaseTreeProvider implements vscode.TreeDataProvider<BaseTreeIte
         }
 
         try {
-            const columns = provider instanceof MSSQLProvider ? await provider.getColumns(element.tableName) : await provider.getColumns(element.databaseName, element.tableName);
-            return columns.map(col =>
-                new ColumnTreeItem(col.name, col.type, col.isPrimaryKey, col.nullable)
-            );
+            const columns = await provider.getColumns(element.databaseName, element.tableName, element.schema);
+            const foreignKeys = await provider.getForeignKeys(element.databaseName, element.tableName, element.schema);
+            // Referenced column of each column that is part of a foreign key
+            const references = new Map<string, string>();
+            for (const foreignKey of foreignKeys) {
+                foreignKey.columns.forEach((column, index) => {
+                    references.set(column, `${foreignKey.referencedTable}.${foreignKey.referencedColumns[index] ?? '?'}`);
+                });
+            }
+            return [
+                ...columns.map(col =>
+                    new ColumnTreeItem(col.name, col.type, col.isPrimaryKey, col.nullable, references.get(col.name))
+                ),
+                ...foreignKeys.map(foreignKey => new ForeignKeyTreeItem(foreignKey))
+            ];
         } catch (error) {
             Logger.error('Failed to get columns', error as Error);
             throw error;
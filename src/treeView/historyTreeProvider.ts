@@ -0,0 +1,266 @@
+import * as vscode from 'vscode';
+import { ConnectionManager } from '../connectionManager';
+import { HistoryFilter, QueryHistoryStore } from '../queryEditor/queryHistoryStore';
+import { QueryHistoryEntry } from '../types';
+
+type HistoryGroup = 'pinned' | 'today' | 'yesterday' | 'week' | 'older';
+
+const GROUP_LABELS: Record<HistoryGroup, string> = {
+    pinned: 'Pinned',
+    today: 'Today',
+    yesterday: 'Yesterday',
+    week: 'Last 7 Days',
+    older: 'Older'
+};
+
+/**
+ * Number of entries shown before a "Load more" item, and added by each load
+ */
+const PAGE_SIZE = 200;
+
+/**
+ * Group of history entries (pinned, or by day)
+ */
+export class HistoryGroupTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly group: HistoryGroup,
+        public readonly entries: QueryHistoryEntry[]
+    ) {
+        super(GROUP_LABELS[group], vscode.TreeItemCollapsibleState.Expanded);
+        this.id = `history-group-${group}`;
+        this.contextValue = 'historyGroup';
+        this.description = `${entries.length}`;
+        this.iconPath = new vscode.ThemeIcon(group === 'pinned' ? 'star-full' : 'calendar');
+    }
+}
+
+/**
+ * A single executed query
+ */
+export class HistoryEntryTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly entry: QueryHistoryEntry,
+        connectionName: string
+    ) {
+        super(HistoryEntryTreeItem.summarize(entry.query), vscode.TreeItemCollapsibleState.None);
+        this.contextValue = entry.pinned ? 'historyEntry-pinned' : 'historyEntry';
+        const rows = HistoryEntryTreeItem.describeRows(entry);
+        this.description = [
+            entry.database ? `${connectionName}/${entry.database}` : connectionName,
+            entry.timestamp.toLocaleTimeString(),
+            `${entry.executionTime} ms`,
+            ...(rows ? [rows] : [])
+        ].join(' · ');
+        this.tooltip = this.buildTooltip(connectionName);
+        this.iconPath = entry.success
+            ? new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+            : new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+        this.command = {
+            command: 'dbConnector.openHistoryEntry',
+            title: 'Open in Editor',
+            arguments: [this]
+        };
+    }
+
+    /**
+     * First 100 characters of the query on a single line
+     */
+    private static summarize(query: string): string {
+        const text = query.replace(/\s+/g, ' ').trim();
+        return text.length > 100 ? `${text.substring(0, 100)}…` : text;
+    }
+
+    /**
+     * "12 rows" / "3 affected", or undefined when the count was not recorded
+     */
+    private static describeRows(entry: QueryHistoryEntry): string | undefined {
+        if (entry.rowsReturned !== undefined) {
+            return `${entry.rowsReturned}${entry.hasMore ? '+' : ''} ${entry.rowsReturned === 1 ? 'row' : 'rows'}`;
+        }
+        if (entry.rowsAffected !== undefined) {
+            return `${entry.rowsAffected} affected`;
+        }
+        return undefined;
+    }
+
+    private buildTooltip(connectionName: string): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendCodeblock(this.entry.query, this.entry.language === 'mongodb' ? 'javascript' : 'sql');
+        const parts = [
+            `Connection: ${connectionName}`,
+            ...(this.entry.database ? [`Database: ${this.entry.database}`] : []),
+            `Executed: ${this.entry.timestamp.toLocaleString()}`,
+            `Duration: ${this.entry.executionTime} ms`,
+            ...(this.entry.rowsReturned !== undefined ? [`Rows returned: ${this.entry.rowsReturned}${this.entry.hasMore ? ' (more on the server)' : ''}`] : []),
+            ...(this.entry.rowsAffected !== undefined ? [`Rows affected: ${this.entry.rowsAffected}`] : []),
+            ...(this.entry.error ? [`Error: ${this.entry.error}`] : [])
+        ];
+        tooltip.appendText(parts.join('\n'));
+
+        const snapshot = this.entry.snapshot;
+        if (snapshot && snapshot.columns.length > 0) {
+            const cell = (value: string | null) => value === null
+                ? '*NULL*'
+                : value.replace(/[\\`*_[\]<>|]/g, '\\$&').replace(/\r?\n/g, ' ');
+            tooltip.appendMarkdown([
+                '\n',
+                `| ${snapshot.columns.map(cell).join(' | ')} |`,
+                `| ${snapshot.columns.map(() => '---').join(' | ')} |`,
+                ...snapshot.rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+            ].join('\n'));
+        }
+        return tooltip;
+    }
+}
+
+/**
+ * Placeholder shown when more entries match than are displayed
+ */
+export class HistoryLoadMoreTreeItem extends vscode.TreeItem {
+    constructor() {
+        super('Load more…', vscode.TreeItemCollapsibleState.None);
+        this.contextValue = 'historyLoadMore';
+        this.iconPath = new vscode.ThemeIcon('ellipsis');
+        this.command = {
+            command: 'dbConnector.loadMoreHistory',
+            title: 'Load More'
+        };
+    }
+}
+
+type HistoryTreeItem = HistoryGroupTreeItem | HistoryEntryTreeItem | HistoryLoadMoreTreeItem;
+
+/**
+ * Tree data provider for the query history view
+ */
+export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryTreeItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<HistoryTreeItem | undefined | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private filter: HistoryFilter = {};
+    private limit = PAGE_SIZE;
+
+    constructor(
+        private connectionManager: ConnectionManager,
+        private store: QueryHistoryStore
+    ) {
+        store.onDidChange(() => this.refresh());
+        connectionManager.onDidChangeConnections(() => this.refresh());
+    }
+
+    /**
+     * Refresh the tree view
+     */
+    public refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    public getFilter(): HistoryFilter {
+        return this.filter;
+    }
+
+    /**
+     * Replace the filter and go back to the first page of results
+     */
+    public setFilter(filter: HistoryFilter): void {
+        this.filter = filter;
+        this.limit = PAGE_SIZE;
+        this.refresh();
+    }
+
+    /**
+     * Short description of the active filter, for the view's title bar
+     */
+    public describeFilter(): string | undefined {
+        const filter = this.filter;
+        const parts: string[] = [];
+        if (filter.text) {
+            parts.push(`"${filter.text}"`);
+        }
+        if (filter.connectionId) {
+            parts.push(this.connectionManager.getConnection(filter.connectionId)?.name || 'Unknown');
+        }
+        if (filter.database) {
+            parts.push(filter.database);
+        }
+        if (filter.success !== undefined) {
+            parts.push(filter.success ? 'succeeded' : 'failed');
+        }
+        if (filter.minDuration !== undefined) {
+            parts.push(`≥ ${filter.minDuration} ms`);
+        }
+        if (filter.since || filter.until) {
+            parts.push(`${filter.since?.toLocaleDateString() ?? '…'} – ${filter.until?.toLocaleDateString() ?? '…'}`);
+        }
+        return parts.length > 0 ? parts.join(', ') : undefined;
+    }
+
+    /**
+     * Show another page of entries
+     */
+    public loadMore(): void {
+        this.limit += PAGE_SIZE;
+        this.refresh();
+    }
+
+    public getTreeItem(element: HistoryTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    public getChildren(element?: HistoryTreeItem): HistoryTreeItem[] {
+        if (element instanceof HistoryGroupTreeItem) {
+            return element.entries.map(entry => this.toTreeItem(entry));
+        }
+        if (element) {
+            return [];
+        }
+
+        const names = this.getConnectionNames();
+        const pinned = this.store.query({ ...this.filter, pinned: true }, Number.MAX_SAFE_INTEGER, names);
+        const recent = this.store.query(this.filter, this.limit + 1, names);
+        const hasMore = recent.length > this.limit;
+
+        const groups = new Map<HistoryGroup, QueryHistoryEntry[]>();
+        if (pinned.length > 0) {
+            groups.set('pinned', pinned);
+        }
+        for (const entry of recent.slice(0, this.limit)) {
+            const group = this.getGroup(entry.timestamp);
+            if (!groups.has(group)) {
+                groups.set(group, []);
+            }
+            groups.get(group)!.push(entry);
+        }
+
+        const items: HistoryTreeItem[] = Array.from(groups, ([group, entries]) => new HistoryGroupTreeItem(group, entries));
+        if (hasMore) {
+            items.push(new HistoryLoadMoreTreeItem());
+        }
+        return items;
+    }
+
+    private toTreeItem(entry: QueryHistoryEntry): HistoryEntryTreeItem {
+        const connection = this.connectionManager.getConnection(entry.connectionId);
+        return new HistoryEntryTreeItem(entry, connection?.name || 'Unknown');
+    }
+
+    private getConnectionNames(): Map<string, string> {
+        return new Map(this.connectionManager.getAllConnections().map(conn => [conn.id, conn.name]));
+    }
+
+    private getGroup(timestamp: Date): HistoryGroup {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        const day = 24 * 60 * 60 * 1000;
+        if (timestamp.getTime() >= today.getTime()) {
+            return 'today';
+        }
+        if (timestamp.getTime() >= today.getTime() - day) {
+            return 'yesterday';
+        }
+        if (timestamp.getTime() >= today.getTime() - 6 * day) {
+            return 'week';
+        }
+        return 'older';
+    }
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
-import { ConnectionConfig, ConnectionState } from '../types';
+import * as path from 'path';
+import { ConnectionConfig, ConnectionState, DatabaseType, ForeignKeyInfo, SavedQuery, SchemaObjectInfo, SchemaObjectType } from '../types';
 
 /**
  * Base tree item for the database explorer
@@ -22,28 +23,62 @@ export class ConnectionTreeItem extends BaseTreeItem {
         public readonly connection: ConnectionConfig,
         public readonly state: ConnectionState
     ) {
+        // Disconnected connections still expand to show their saved queries
         super(
             connection.name,
-            state === ConnectionState.Connected
-                ? vscode.TreeItemCollapsibleState.Collapsed
-                : vscode.TreeItemCollapsibleState.None,
+            vscode.TreeItemCollapsibleState.Collapsed,
             `connection-${state}`
         );
 
-        this.description = `${connection.host}:${connection.port}`;
+        this.description = connection.type === DatabaseType.SQLite
+            ? connection.filePath
+            : `${this.getEndpoint()}${connection.sshTunnel?.enabled ? ' (SSH)' : ''}`;
         this.tooltip = this.buildTooltip();
         this.iconPath = this.getIcon();
     }
 
     private buildTooltip(): string {
-        return [
+        const parts = [
             `Name: ${this.connection.name}`,
-            `Type: ${this.connection.type}`,
-            `Host: ${this.connection.host}`,
-            `Port: ${this.connection.port}`,
-            `User: ${this.connection.username}`,
-            `State: ${this.state}`
-        ].join('\n');
+            `Type: ${this.connection.type}`
+        ];
+        if (this.connection.type === DatabaseType.SQLite) {
+            parts.push(`File: ${this.connection.filePath}`);
+        } else if (this.connection.mongo?.connectionString || this.connection.mongo?.srv || this.connection.host.includes(',')) {
+            parts.push(
+                `Hosts: ${this.getEndpoint()}`,
+                `User: ${this.connection.username}`
+            );
+        } else {
+            parts.push(
+                `Host: ${this.connection.host}`,
+                `Port: ${this.connection.port}`,
+                `User: ${this.connection.username}`
+            );
+        }
+        if (this.connection.mongo?.replicaSet) {
+            parts.push(`Replica Set: ${this.connection.mongo.replicaSet}`);
+        }
+        const tunnel = this.connection.sshTunnel;
+        if (tunnel?.enabled) {
+            parts.push(`SSH Tunnel: ${tunnel.username}@${tunnel.host}:${tunnel.port}`);
+        }
+        parts.push(`State: ${this.state}`);
+        return parts.join('\n');
+    }
+
+    /**
+     * host:port, or the host list for MongoDB seed lists and connection strings
+     */
+    private getEndpoint(): string {
+        const mongo = this.connection.mongo;
+        if (mongo?.srv) {
+            return `mongodb+srv://${this.connection.host}`;
+        }
+        if (mongo?.connectionString || this.connection.host.includes(',')) {
+            return this.connection.host;
+        }
+        return `${this.connection.host}:${this.connection.port}`;
     }
 
     private getIcon(): vscode.ThemeIcon {
@@ -79,6 +114,71 @@ export class DatabaseTreeItem extends BaseTreeItem {
     }
 }
 
+/**
+ * Schema (namespace) tree item (PostgreSQL, SQL Server)
+ */
+export class SchemaTreeItem extends BaseTreeItem {
+    constructor(
+        public readonly connectionId: string,
+        public readonly databaseName: string,
+        public readonly schemaName: string
+    ) {
+        super(
+            schemaName,
+            vscode.TreeItemCollapsibleState.Collapsed,
+            'schema'
+        );
+
+        this.iconPath = new vscode.ThemeIcon('symbol-namespace');
+        this.tooltip = `Database: ${databaseName}\nSchema: ${schemaName}`;
+    }
+}
+
+/**
+ * Kind of objects grouped under a folder of a SQL database
+ */
+export type ObjectFolderKind = 'tables' | SchemaObjectType;
+
+const FOLDER_LABELS: Record<ObjectFolderKind, string> = {
+    tables: 'Tables',
+    [SchemaObjectType.View]: 'Views',
+    [SchemaObjectType.Procedure]: 'Procedures',
+    [SchemaObjectType.Function]: 'Functions',
+    [SchemaObjectType.Trigger]: 'Triggers',
+    [SchemaObjectType.Sequence]: 'Sequences',
+    [SchemaObjectType.Index]: 'Indexes'
+};
+
+const OBJECT_ICONS: Record<SchemaObjectType, string> = {
+    [SchemaObjectType.View]: 'eye',
+    [SchemaObjectType.Procedure]: 'symbol-method',
+    [SchemaObjectType.Function]: 'symbol-function',
+    [SchemaObjectType.Trigger]: 'zap',
+    [SchemaObjectType.Sequence]: 'symbol-number',
+    [SchemaObjectType.Index]: 'list-ordered'
+};
+
+/**
+ * Folder grouping the tables, views, routines, triggers, sequences or indexes of a database or schema
+ */
+export class ObjectFolderTreeItem extends BaseTreeItem {
+    constructor(
+        public readonly connectionId: string,
+        public readonly databaseName: string,
+        public readonly kind: ObjectFolderKind,
+        /** Only objects of this schema are listed (PostgreSQL, SQL Server) */
+        public readonly schema?: string
+    ) {
+        super(
+            FOLDER_LABELS[kind],
+            vscode.TreeItemCollapsibleState.Collapsed,
+            'folder'
+        );
+
+        this.iconPath = new vscode.ThemeIcon('folder');
+    }
+}
+
 /**
  * Table tree item (SQL databases)
  */
@@ -135,6 +235,42 @@ export class CollectionTreeItem extends BaseTreeItem {
     }
 }
 
+/**
+ * View, routine, trigger, sequence or index tree item
+ */
+export class SchemaObjectTreeItem extends BaseTreeItem {
+    constructor(
+        public readonly connectionId: string,
+        public readonly databaseName: string,
+        public readonly object: SchemaObjectInfo
+    ) {
+        super(
+            object.name,
+            vscode.TreeItemCollapsibleState.None,
+            object.type
+        );
+
+        this.iconPath = new vscode.ThemeIcon(OBJECT_ICONS[object.type]);
+        this.description = object.signature !== undefined ? `(${object.signature})` : object.table;
+        this.tooltip = this.buildTooltip();
+    }
+
+    private buildTooltip(): string {
+        const type = this.object.type;
+        const parts = [`${type.charAt(0).toUpperCase()}${type.slice(1)}: ${this.object.name}`];
+        if (this.object.schema) {
+            parts.push(`Schema: ${this.object.schema}`);
+        }
+        if (this.object.table) {
+            parts.push(`Table: ${this.object.table}`);
+        }
+        if (this.object.signature !== undefined) {
+            parts.push(`Arguments: ${this.object.signature || 'none'}`);
+        }
+        return parts.join('\n');
+    }
+}
+
 /**
  * Column tree item
  */
@@ -143,7 +279,9 @@ export class ColumnTreeItem extends BaseTreeItem {
         public readonly columnName: string,
         public readonly columnType: string,
         public readonly isPrimaryKey: boolean,
-        public readonly isNullable: boolean
+        public readonly isNullable: boolean,
+        /** Referenced column of a foreign key, e.g. "users.id" */
+        public readonly reference?: string
     ) {
         super(
             columnName,
@@ -152,7 +290,7 @@ export class ColumnTreeItem extends BaseTreeItem {
         );
 
         this.iconPath = this.getIcon();
-        this.description = columnType;
+        this.description = reference ? `${columnType} → ${reference}` : columnType;
         this.tooltip = this.buildTooltip();
     }
 
@@ -165,6 +303,9 @@ export class ColumnTreeItem extends BaseTreeItem {
         if (this.isPrimaryKey) {
             parts.push('Primary Key: Yes');
         }
+        if (this.reference) {
+            parts.push(`References: ${this.reference}`);
+        }
         return parts.join('\n');
     }
 
@@ -172,10 +313,41 @@ export class ColumnTreeItem extends BaseTreeItem {
         if (this.isPrimaryKey) {
             return new vscode.ThemeIcon('key', new vscode.ThemeColor('terminal.ansiYellow'));
         }
+        if (this.reference) {
+            return new vscode.ThemeIcon('references');
+        }
         return new vscode.ThemeIcon('symbol-field');
     }
 }
 
+/**
+ * Foreign key constraint tree item, listed after the columns of a table
+ */
+export class ForeignKeyTreeItem extends BaseTreeItem {
+    constructor(
+        public readonly foreignKey: ForeignKeyInfo
+    ) {
+        super(
+            foreignKey.name,
+            vscode.TreeItemCollapsibleState.None,
+            'foreignKey'
+        );
+
+        const target = foreignKey.referencedSchema
+            ? `${foreignKey.referencedSchema}.${foreignKey.referencedTable}`
+            : foreignKey.referencedTable;
+        this.iconPath = new vscode.ThemeIcon('link');
+        this.description = `(${foreignKey.columns.join(', ')}) → ${target}(${foreignKey.referencedColumns.join(', ')})`;
+        this.tooltip = [
+            `Foreign Key: ${foreignKey.name}`,
+            `Columns: ${foreignKey.columns.join(', ')}`,
+            `References: ${target}(${foreignKey.referencedColumns.join(', ')})`,
+            `On Delete: ${foreignKey.onDelete}`,
+            `On Update: ${foreignKey.onUpdate}`
+        ].join('\n');
+    }
+}
+
 /**
  * Field tree item (MongoDB)
  */
@@ -196,3 +368,66 @@ export class FieldTreeItem extends BaseTreeItem {
         this.tooltip = `Field: ${fieldName}\nType: ${fieldType}\nRequired: ${isRequired ? 'Yes' : 'No'}`;
     }
 }
+
+/**
+ * Saved Queries node of a connection, or a folder below it
+ */
+export class SavedQueriesTreeItem extends BaseTreeItem {
+    constructor(
+        public readonly connectionId: string,
+        public readonly folderPath: string,
+        public readonly isRoot: boolean
+    ) {
+        super(
+            isRoot ? 'Saved Queries' : path.basename(folderPath),
+            vscode.TreeItemCollapsibleState.Collapsed,
+            isRoot ? 'savedQueries' : 'savedQueryFolder'
+        );
+
+        this.iconPath = new vscode.ThemeIcon(isRoot ? 'bookmark' : 'folder');
+        this.tooltip = folderPath;
+    }
+}
+
+/**
+ * Saved query tree item; clicking opens the file
+ */
+export class SavedQueryTreeItem extends BaseTreeItem {
+    constructor(
+        public readonly connectionId: string,
+        public readonly query: SavedQuery
+    ) {
+        super(
+            query.name,
+            vscode.TreeItemCollapsibleState.None,
+            'savedQuery'
+        );
+
+        this.iconPath = new vscode.ThemeIcon('file-code');
+        this.description = query.description;
+        this.tooltip = this.buildTooltip();
+        this.resourceUri = vscode.Uri.file(query.filePath);
+        this.command = {
+            command: 'vscode.open',
+            title: 'Open Saved Query',
+            arguments: [vscode.Uri.file(query.filePath)]
+        };
+    }
+
+    private buildTooltip(): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendCodeblock(this.query.body, this.query.language === 'mongodb' ? 'javascript' : 'sql');
+        const parts: string[] = [];
+        if (this.query.description) {
+            parts.push(this.query.description);
+        }
+        if (this.query.database) {
+            parts.push(`Database: ${this.query.database}`);
+        }
+        if (this.query.params.length > 0) {
+            parts.push(`Parameters: ${this.query.params.map(param => param.name).join(', ')}`);
+        }
+        tooltip.appendText(parts.join('\n'));
+        return tooltip;
+    }
+}
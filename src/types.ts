@@ -6,7 +6,8 @@ export enum DatabaseType {
     PostgreSQL = 'postgresql',
     MSSQL = 'mssql',
     MongoDB = 'mongodb',
-    MariaDB = 'mariadb'
+    MariaDB = 'mariadb',
+    SQLite = 'sqlite'
 }
 
 /**
@@ -20,8 +21,16 @@ export interface ConnectionConfig {
     port: number;
     username: string;
     database?: string;
+    /** Database file for file-based engines (SQLite); host/port/username are unused */
+    filePath?: string;
     ssl?: boolean;
     sshTunnel?: SSHTunnelConfig;
+    /** MongoDB connection settings; host may also be a comma-separated seed list */
+    mongo?: MongoConnectionConfig;
+    /** Overrides the dbConnector.connectionTimeout setting (ms) */
+    connectionTimeout?: number;
+    /** Overrides the dbConnector.queryTimeout setting (ms, 0 disables the timeout) */
+    queryTimeout?: number;
     options?: Record<string, any>;
 }
 
@@ -34,6 +43,28 @@ export interface SSHTunnelConfig {
     port: number;
     username: string;
     privateKeyPath?: string;
+    /** Authenticate through the running SSH agent (SSH_AUTH_SOCK / Pageant) */
+    useAgent?: boolean;
+    /** Fixed local port for the forward (a free port is picked when omitted) */
+    localPort?: number;
+}
+
+/**
+ * MongoDB connection settings beyond host and port
+ */
+export interface MongoConnectionConfig {
+    /** Connection string without credentials (mongodb:// or mongodb+srv://); replaces host/port when set */
+    connectionString?: string;
+    /** Resolve host as a DNS seed list (mongodb+srv://); the port is not used */
+    srv?: boolean;
+    replicaSet?: string;
+    authSource?: string;
+    /** SCRAM-SHA-256, SCRAM-SHA-1, MONGODB-X509, ... (negotiated by the driver when omitted) */
+    authMechanism?: string;
+    /** CA bundle used to verify the server certificate */
+    tlsCAFile?: string;
+    /** Client certificate and private key (PEM), required for X.509 authentication */
+    tlsCertificateKeyFile?: string;
 }
 
 /**
@@ -77,6 +108,58 @@ export interface ColumnInfo {
     defaultValue?: string;
 }
 
+/**
+ * Foreign key constraint of a table
+ */
+export interface ForeignKeyInfo {
+    name: string;
+    /** Referencing columns, in constraint order */
+    columns: string[];
+    referencedSchema?: string;
+    referencedTable: string;
+    /** Referenced columns, matching columns by position */
+    referencedColumns: string[];
+    /** Referential actions as SQL keywords: CASCADE, SET NULL, SET DEFAULT, RESTRICT or NO ACTION */
+    onDelete: string;
+    onUpdate: string;
+}
+
+/**
+ * Kinds of database objects listed next to tables
+ */
+export enum SchemaObjectType {
+    View = 'view',
+    Procedure = 'procedure',
+    Function = 'function',
+    Trigger = 'trigger',
+    Sequence = 'sequence',
+    Index = 'index'
+}
+
+/**
+ * A view, routine, trigger, sequence or index
+ */
+export interface SchemaObjectInfo {
+    name: string;
+    type: SchemaObjectType;
+    schema?: string;
+    /** Table a trigger or index belongs to */
+    table?: string;
+    /** Argument types that tell overloaded PostgreSQL routines apart, e.g. "integer, text" */
+    signature?: string;
+    /** Function returning a table, called in FROM rather than SELECT (SQL Server) */
+    returnsTable?: boolean;
+}
+
+/**
+ * Parameter of a stored procedure or function
+ */
+export interface RoutineParameter {
+    name: string;
+    type: string;
+    mode: 'IN' | 'OUT' | 'INOUT';
+}
+
 /**
  * Collection information for MongoDB
  */
@@ -104,6 +187,69 @@ export interface QueryResult {
     fields?: QueryField[];
     executionTime: number;
     error?: string;
+    /** Set when the statement was aborted by a cancel request */
+    cancelled?: boolean;
+    /** Set to the query timeout (ms) when the statement was aborted for running too long */
+    timedOutAfter?: number;
+    /** More rows can be fetched from the cursor that produced this result */
+    hasMore?: boolean;
+}
+
+/**
+ * Value bound to a statement placeholder
+ */
+export interface QueryParam {
+    value: any;
+    /** Type of the column the value is written to (e.g. 'jsonb', 'varbinary'), used when binding */
+    type?: string;
+}
+
+/**
+ * Statement with placeholders and the parameters bound to them
+ * Placeholders follow the dialect: ? (MySQL, MariaDB, SQLite), $1 (PostgreSQL), @p1 (MSSQL)
+ */
+export interface SqlStatement {
+    sql: string;
+    params?: QueryParam[];
+    /** Roll back the transaction if the statement affects a different number of rows */
+    expectedRowCount?: number;
+}
+
+/**
+ * Outcome of a set of statements run in one transaction
+ */
+export interface TransactionResult {
+    success: boolean;
+    /** Rows affected by all statements (0 when rolled back) */
+    affectedRows: number;
+    /** Index of the statement that failed and caused the rollback */
+    failedIndex?: number;
+    error?: string;
+    /** The failure was an expectedRowCount mismatch (optimistic concurrency conflict) */
+    conflict?: boolean;
+}
+
+/**
+ * Server-side cursor over the rows of a query, read one page at a time
+ */
+export interface QueryCursor {
+    /** Result set fields, known once the first page has been fetched */
+    fields?: QueryField[];
+
+    /**
+     * Fetch up to count further rows (fewer, or none, once the result set is exhausted)
+     */
+    fetch(count: number): Promise<any[]>;
+
+    /**
+     * Check whether every row has been read
+     */
+    isDone(): boolean;
+
+    /**
+     * Release the cursor and the server resources held by it
+     */
+    close(): Promise<void>;
 }
 
 /**
@@ -114,17 +260,67 @@ export interface QueryField {
     type: string;
 }
 
+/**
+ * Language a query is written in: SQL, or MongoDB shell syntax
+ */
+export type QueryLanguage = 'sql' | 'mongodb';
+
+/**
+ * First rows of a result, kept with a history entry (cell values as text)
+ */
+export interface QueryResultSnapshot {
+    columns: string[];
+    rows: (string | null)[][];
+}
+
 /**
  * Query history entry
  */
 export interface QueryHistoryEntry {
     id: string;
     connectionId: string;
+    database?: string;
+    /** Missing on entries recorded before the language was stored */
+    language?: QueryLanguage;
     query: string;
     timestamp: Date;
     executionTime: number;
     success: boolean;
     error?: string;
+    /** Rows returned by a row-returning statement (the first page when hasMore is set) */
+    rowsReturned?: number;
+    /** Rows affected by any other statement */
+    rowsAffected?: number;
+    /** More rows were left on the cursor than rowsReturned */
+    hasMore?: boolean;
+    snapshot?: QueryResultSnapshot;
+    pinned?: boolean;
+}
+
+/**
+ * Parameter of a saved query, written as {{name}} in its body
+ */
+export interface SavedQueryParam {
+    name: string;
+    /** Value offered when the query is run */
+    defaultValue?: string;
+}
+
+/**
+ * Query saved as a .sql or .mongodb file in the saved queries library
+ */
+export interface SavedQuery {
+    /** File name without extension */
+    name: string;
+    filePath: string;
+    language: QueryLanguage;
+    /** Connection name from the -- Connection: header */
+    connection?: string;
+    database?: string;
+    description?: string;
+    params: SavedQueryParam[];
+    /** Query text without the header comments */
+    body: string;
 }
 
 /**
@@ -133,7 +329,11 @@ export interface QueryHistoryEntry {
 export enum ExportFormat {
     CSV = 'csv',
     JSON = 'json',
-    Excel = 'excel'
+    NDJSON = 'ndjson',
+    Excel = 'excel',
+    SqlInsert = 'sql',
+    Markdown = 'markdown',
+    XML = 'xml'
 }
 
 /**
@@ -161,19 +361,72 @@ export interface IDatabaseProvider {
     getDatabases(): Promise<DatabaseInfo[]>;
 
     /**
-     * Get list of tables for a database
+     * Get the schemas (namespaces) of a database
+     * Returns an empty array where a database has no schema level (MySQL, MariaDB, SQLite, MongoDB)
+     */
+    getSchemas(database: string): Promise<string[]>;
+
+    /**
+     * Get list of tables for a database, in every schema
      */
     getTables(database: string): Promise<TableInfo[]>;
 
     /**
-     * Get columns for a table
+     * Get columns for a table (in the default schema when no schema is given)
      */
-    getColumns(database: string, table: string): Promise<ColumnInfo[]>;
+    getColumns(database: string, table: string, schema?: string): Promise<ColumnInfo[]>;
+
+    /**
+     * Get the foreign keys of a table (in the default schema when no schema is given)
+     */
+    getForeignKeys(database: string, table: string, schema?: string): Promise<ForeignKeyInfo[]>;
+
+    /**
+     * Get the script that recreates a table: CREATE TABLE with its keys, constraints and indexes
+     * (for MongoDB, createCollection with the collection options and one createIndex per index)
+     */
+    getCreateScript(database: string, table: string, schema?: string): Promise<string>;
+
+    /**
+     * Get views, routines, triggers, sequences or indexes of a database
+     * Returns an empty array for object types the database does not have
+     */
+    getSchemaObjects(database: string, type: SchemaObjectType): Promise<SchemaObjectInfo[]>;
+
+    /**
+     * Get the CREATE statement of a view, routine, trigger, sequence or index
+     */
+    getObjectDefinition(database: string, object: SchemaObjectInfo): Promise<string>;
+
+    /**
+     * Get the parameters of a stored procedure or function, in declaration order
+     */
+    getRoutineParameters(database: string, routine: SchemaObjectInfo): Promise<RoutineParameter[]>;
 
     /**
      * Execute a query
      */
-    executeQuery(query: string, database?: string): Promise<QueryResult>;
+    executeQuery(query: string, database?: string, params?: QueryParam[]): Promise<QueryResult>;
+
+    /**
+     * Cancel the statement currently running on the server (no-op when idle)
+     */
+    cancel(): Promise<void>;
+
+    /**
+     * Open a cursor over a row-returning query so large results can be paged
+     */
+    openCursor(query: string, database?: string): Promise<QueryCursor>;
+
+    /**
+     * Run statements in a single transaction, rolling back on the first failure
+     * onStatement is called after each statement; throwing from it rolls the transaction back
+     */
+    executeTransaction(
+        statements: SqlStatement[],
+        database?: string,
+        onStatement?: (index: number) => void
+    ): Promise<TransactionResult>;
 
     /**
      * Get the connection state
@@ -199,4 +452,15 @@ export interface IMongoDBProvider extends IDatabaseProvider {
      * Get fields for a collection
      */
     getFields(database: string, collection: string): Promise<FieldInfo[]>;
+
+    /**
+     * Insert documents with one insertMany per batch, in a transaction where the deployment supports it
+     * onBatch is called after each batch; throwing from it aborts the insert
+     */
+    insertDocuments(
+        database: string,
+        collection: string,
+        batches: Record<string, any>[][],
+        onBatch?: (index: number) => void
+    ): Promise<TransactionResult>;
 }
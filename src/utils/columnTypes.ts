@@ -0,0 +1,233 @@
+import { DatabaseType } from '../types';
+
+/**
+ * Dialect-neutral column type families
+ */
+type TypeFamily =
+    | 'boolean' | 'smallint' | 'integer' | 'bigint' | 'decimal' | 'real' | 'double'
+    | 'char' | 'varchar' | 'text' | 'date' | 'time' | 'timestamp' | 'timestamptz'
+    | 'json' | 'uuid' | 'binary' | 'xml';
+
+/**
+ * A column type reduced to its family and size arguments, e.g. varchar(255) or decimal(10,2)
+ */
+interface GenericType {
+    family: TypeFamily;
+    args: number[];
+}
+
+/**
+ * Map a column type (as reported by getColumns) to the closest type of another dialect
+ * Types are kept as they are within the same dialect when they carry everything needed to recreate the column
+ */
+export function mapColumnType(type: string, from: DatabaseType, to: DatabaseType): string {
+    // SQL Server and PostgreSQL report character types without their length
+    if (isSameDialect(from, to) && from !== DatabaseType.MSSQL && !/^(user-defined|array)$/i.test(type)) {
+        return type;
+    }
+    return toDialectType(parseColumnType(type, from), to);
+}
+
+/**
+ * Whether two column types (as reported by getColumns) are the same, possibly across dialects
+ * Across dialects both types are spelled in the target dialect; sizes only count when both sides report one
+ */
+export function columnTypesMatch(source: string, sourceDialect: DatabaseType, target: string, targetDialect: DatabaseType): boolean {
+    if (isSameDialect(sourceDialect, targetDialect)) {
+        return normalizeTypeName(source) === normalizeTypeName(target);
+    }
+
+    const sourceType = parseColumnType(source, sourceDialect);
+    const targetType = parseColumnType(target, targetDialect);
+    if (sourceType.args.length === 0 || targetType.args.length === 0) {
+        sourceType.args = [];
+        targetType.args = [];
+    }
+    return toDialectType(sourceType, targetDialect) === toDialectType(targetType, targetDialect);
+}
+
+export function isSameDialect(a: DatabaseType, b: DatabaseType): boolean {
+    return a === b || (isMySqlFamily(a) && isMySqlFamily(b));
+}
+
+function isMySqlFamily(type: DatabaseType): boolean {
+    return type === DatabaseType.MySQL || type === DatabaseType.MariaDB;
+}
+
+/**
+ * Lower-case a type and drop integer display widths, which MySQL 8 no longer reports (tinyint(1) is kept)
+ */
+function normalizeTypeName(type: string): string {
+    return type
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .replace(/\s*,\s*/g, ',')
+        .replace(/^(smallint|mediumint|int|integer|bigint)\(\d+\)/, '$1')
+        .replace(/^tinyint\((?!1\))\d+\)/, 'tinyint')
+        .trim();
+}
+
+/**
+ * Reduce a dialect type to its family
+ */
+function parseColumnType(type: string, dialect: DatabaseType): GenericType {
+    const normalized = type.toLowerCase().trim();
+    const args = (normalized.match(/\(([^)]*)\)/)?.[1] || '')
+        .split(',')
+        .map(arg => parseInt(arg.trim(), 10))
+        .filter(arg => !isNaN(arg));
+    const name = normalized.replace(/\(.*?\)/g, '').replace(/\s+unsigned|\s+zerofill/g, '').trim();
+    const family = (f: TypeFamily): GenericType => ({ family: f, args });
+
+    if (name === 'bool' || name === 'boolean' || (name === 'bit' && args.length <= 1 && (args[0] ?? 1) === 1) || normalized.startsWith('tinyint(1)')) {
+        return family('boolean');
+    }
+    // SQL Server's timestamp is a row version, not a point in time
+    if (dialect === DatabaseType.MSSQL && (name === 'timestamp' || name === 'rowversion')) {
+        return { family: 'binary', args: [8] };
+    }
+    if (/^(tinyint|smallint|int2|year)$/.test(name)) {
+        return family('smallint');
+    }
+    if (/^(bigint|int8|bigserial)$/.test(name)) {
+        return family('bigint');
+    }
+    if (/^(int|integer|int4|mediumint|serial|smallserial)$/.test(name)) {
+        return family('integer');
+    }
+    if (/^(decimal|numeric|dec|fixed|number)$/.test(name)) {
+        return family('decimal');
+    }
+    if (/^(money|smallmoney)$/.test(name)) {
+        return { family: 'decimal', args: [19, 4] };
+    }
+    if (/^(real|float4)$/.test(name) || (name === 'float' && args.length > 0 && args[0] <= 24)) {
+        return { family: 'real', args: [] };
+    }
+    if (/^(double|double precision|float|float8)$/.test(name)) {
+        return { family: 'double', args: [] };
+    }
+    if (/^(char|nchar|character|bpchar)$/.test(name)) {
+        return family('char');
+    }
+    if (/^(varchar|nvarchar|character varying|varchar2|nvarchar2|string)$/.test(name)) {
+        // max is parsed away; SQL Server's varchar(max) has no numeric length
+        return normalized.includes('max') ? { family: 'text', args: [] } : family('varchar');
+    }
+    if (/^(text|ntext|tinytext|mediumtext|longtext|clob|citext|enum|set)$/.test(name)) {
+        return name === 'enum' || name === 'set' ? { family: 'varchar', args: [255] } : { family: 'text', args: [] };
+    }
+    if (name === 'date') {
+        return family('date');
+    }
+    if (/^(time|time without time zone)$/.test(name)) {
+        return family('time');
+    }
+    if (/^(timestamptz|timestamp with time zone|datetimeoffset)$/.test(name)) {
+        return family('timestamptz');
+    }
+    if (/^(datetime|datetime2|smalldatetime|timestamp|timestamp without time zone)$/.test(name)) {
+        return family('timestamp');
+    }
+    if (/^(json|jsonb)$/.test(name)) {
+        return family('json');
+    }
+    if (/^(uuid|uniqueidentifier)$/.test(name)) {
+        return family('uuid');
+    }
+    if (/^(binary|varbinary|blob|tinyblob|mediumblob|longblob|bytea|image|bit|bit varying|varbit)$/.test(name)) {
+        return normalized.includes('max') ? { family: 'binary', args: [] } : family('binary');
+    }
+    if (name === 'xml') {
+        return family('xml');
+    }
+    return { family: 'text', args: [] };
+}
+
+/**
+ * Spell a type family in the target dialect
+ */
+function toDialectType(type: GenericType, dialect: DatabaseType): string {
+    const [length, scale] = type.args;
+    const sized = (name: string, fallback: string) => (length ? `${name}(${length})` : fallback);
+
+    switch (dialect) {
+        case DatabaseType.PostgreSQL:
+            switch (type.family) {
+                case 'boolean': return 'boolean';
+                case 'smallint': return 'smallint';
+                case 'integer': return 'integer';
+                case 'bigint': return 'bigint';
+                case 'decimal': return length ? `numeric(${length}, ${scale ?? 0})` : 'numeric';
+                case 'real': return 'real';
+                case 'double': return 'double precision';
+                case 'char': return sized('char', 'char(1)');
+                case 'varchar': return sized('varchar', 'text');
+                case 'date': return 'date';
+                case 'time': return 'time';
+                case 'timestamp': return 'timestamp';
+                case 'timestamptz': return 'timestamptz';
+                case 'json': return 'jsonb';
+                case 'uuid': return 'uuid';
+                case 'binary': return 'bytea';
+                case 'xml': return 'xml';
+                default: return 'text';
+            }
+        case DatabaseType.MSSQL:
+            switch (type.family) {
+                case 'boolean': return 'bit';
+                case 'smallint': return 'smallint';
+                case 'integer': return 'int';
+                case 'bigint': return 'bigint';
+                case 'decimal': return `decimal(${Math.min(length || 38, 38)}, ${length ? (scale ?? 0) : 10})`;
+                case 'real': return 'real';
+                case 'double': return 'float';
+                case 'char': return length && length <= 4000 ? `nchar(${length})` : 'nvarchar(max)';
+                case 'varchar': return length && length <= 4000 ? `nvarchar(${length})` : 'nvarchar(max)';
+                case 'date': return 'date';
+                case 'time': return 'time';
+                case 'timestamp': return 'datetime2';
+                case 'timestamptz': return 'datetimeoffset';
+                case 'uuid': return 'uniqueidentifier';
+                case 'binary': return length && length <= 8000 ? `varbinary(${length})` : 'varbinary(max)';
+                case 'xml': return 'xml';
+                default: return 'nvarchar(max)';
+            }
+        case DatabaseType.SQLite:
+            switch (type.family) {
+                case 'boolean':
+                case 'smallint':
+                case 'integer':
+                case 'bigint':
+                    return 'INTEGER';
+                case 'decimal': return 'NUMERIC';
+                case 'real':
+                case 'double':
+                    return 'REAL';
+                case 'binary': return 'BLOB';
+                default: return 'TEXT';
+            }
+        default:
+            // MySQL and MariaDB
+            switch (type.family) {
+                case 'boolean': return 'tinyint(1)';
+                case 'smallint': return 'smallint';
+                case 'integer': return 'int';
+                case 'bigint': return 'bigint';
+                case 'decimal': return `decimal(${Math.min(length || 65, 65)}, ${length ? Math.min(scale ?? 0, 30) : 10})`;
+                case 'real': return 'float';
+                case 'double': return 'double';
+                case 'char': return length && length <= 255 ? `char(${length})` : 'text';
+                case 'varchar': return length && length <= 16383 ? `varchar(${length})` : 'longtext';
+                case 'date': return 'date';
+                case 'time': return 'time';
+                case 'timestamp':
+                case 'timestamptz':
+                    return 'datetime';
+                case 'json': return 'json';
+                case 'uuid': return 'char(36)';
+                case 'binary': return length && length <= 255 ? `varbinary(${length})` : 'longblob';
+                default: return 'longtext';
+            }
+    }
+}
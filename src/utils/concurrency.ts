@@ -0,0 +1,21 @@
+import { SqlStatement } from '../types';
+
+/**
+ * Error raised inside a transaction when an optimistic concurrency check fails:
+ * the row was changed or deleted by someone else since it was loaded
+ */
+export class ConcurrencyConflictError extends Error {
+    constructor(public readonly expected: number, public readonly actual: number) {
+        super(`Row was changed or deleted by another session (expected ${expected} affected row(s), got ${actual})`);
+        this.name = 'ConcurrencyConflictError';
+    }
+}
+
+/**
+ * Throw ConcurrencyConflictError when a statement did not affect the expected number of rows
+ */
+export function assertAffectedRows(statement: SqlStatement, affectedRows: number): void {
+    if (statement.expectedRowCount !== undefined && affectedRows !== statement.expectedRowCount) {
+        throw new ConcurrencyConflictError(statement.expectedRowCount, affectedRows);
+    }
+}
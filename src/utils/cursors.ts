@@ -0,0 +1,122 @@
+import { QueryCursor, QueryField } from '../types';
+
+/**
+ * Flow control hooks for a push-based driver stream
+ */
+export interface StreamControl {
+    pause(): void;
+    resume(): void;
+    /** Abort the stream before it has ended */
+    abort(): Promise<void>;
+}
+
+/**
+ * Cursor over a push-based row stream (mysql2, mssql)
+ *
+ * Rows emitted by the driver are buffered; the stream is paused as soon as the
+ * requested page is full and resumed on the next fetch, so at most about one
+ * page is held in memory.
+ */
+export class BufferedCursor implements QueryCursor {
+    public fields?: QueryField[];
+    private buffer: any[] = [];
+    private wanted = 0;
+    private ended = false;
+    private closed = false;
+    private error: Error | null = null;
+    private waiter: (() => void) | null = null;
+
+    constructor(private readonly control: StreamControl) {}
+
+    /**
+     * Add a row received from the driver
+     */
+    public push(row: any): void {
+        this.buffer.push(row);
+        if (this.buffer.length >= this.wanted) {
+            this.control.pause();
+            this.wake();
+        }
+    }
+
+    /**
+     * Mark the stream as fully read
+     */
+    public end(): void {
+        this.ended = true;
+        this.wake();
+    }
+
+    /**
+     * Record a driver error; it is raised by the pending or next fetch
+     */
+    public fail(error: Error): void {
+        this.error = error;
+        this.ended = true;
+        this.wake();
+    }
+
+    public async fetch(count: number): Promise<any[]> {
+        this.wanted = count;
+        while (this.buffer.length < count && !this.ended && !this.closed) {
+            await new Promise<void>(resolve => {
+                this.waiter = resolve;
+                this.control.resume();
+            });
+        }
+
+        if (this.error && !this.closed) {
+            throw this.error;
+        }
+        return this.buffer.splice(0, count);
+    }
+
+    public isDone(): boolean {
+        return this.closed || (this.ended && this.buffer.length === 0);
+    }
+
+    public async close(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.buffer = [];
+        this.wake();
+        if (!this.ended) {
+            await this.control.abort();
+        }
+    }
+
+    /**
+     * Resolve a fetch waiting for rows
+     */
+    private wake(): void {
+        const waiter = this.waiter;
+        this.waiter = null;
+        waiter?.();
+    }
+}
+
+/**
+ * Cursor over rows that are already in memory
+ */
+export class ArrayCursor implements QueryCursor {
+    private offset = 0;
+
+    constructor(private rows: any[], public fields?: QueryField[]) {}
+
+    public async fetch(count: number): Promise<any[]> {
+        const page = this.rows.slice(this.offset, this.offset + count);
+        this.offset += page.length;
+        return page;
+    }
+
+    public isDone(): boolean {
+        return this.offset >= this.rows.length;
+    }
+
+    public async close(): Promise<void> {
+        this.rows = [];
+        this.offset = 0;
+    }
+}
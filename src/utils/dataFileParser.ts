@@ -0,0 +1,164 @@
+/**
+ * Formats that can be read by the data import
+ */
+export type DataFileFormat = 'csv' | 'json' | 'ndjson';
+
+/**
+ * Records read from a data file
+ * CSV values are strings; JSON values keep their JSON type
+ */
+export interface ParsedDataFile {
+    columns: string[];
+    rows: Record<string, any>[];
+}
+
+/**
+ * Guess the format of a data file from its extension
+ */
+export function detectDataFileFormat(fileName: string): DataFileFormat | undefined {
+    const extension = fileName.toLowerCase().split('.').pop();
+    switch (extension) {
+        case 'csv':
+        case 'tsv':
+        case 'txt':
+            return 'csv';
+        case 'json':
+            return 'json';
+        case 'ndjson':
+        case 'jsonl':
+            return 'ndjson';
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Parse the content of a data file
+ * CSV files need a header row; JSON files hold an array of objects and NDJSON files one object per line
+ */
+export function parseDataFile(content: string, format: DataFileFormat): ParsedDataFile {
+    // Strip the byte order mark some editors (and Excel) write
+    const text = content.replace(/^\uFEFF/, '');
+
+    switch (format) {
+        case 'csv':
+            return parseCsv(text);
+        case 'json': {
+            const data = JSON.parse(text);
+            const rows = Array.isArray(data) ? data : [data];
+            return toParsedFile(rows, 'JSON array element');
+        }
+        case 'ndjson': {
+            const rows: any[] = [];
+            text.split(/\r?\n/).forEach((line, index) => {
+                if (!line.trim()) {
+                    return;
+                }
+                try {
+                    rows.push(JSON.parse(line));
+                } catch (error) {
+                    throw new Error(`Line ${index + 1}: ${(error as Error).message}`);
+                }
+            });
+            return toParsedFile(rows, 'Line');
+        }
+    }
+}
+
+/**
+ * Check that every record is an object and collect the union of their keys
+ */
+function toParsedFile(rows: any[], recordLabel: string): ParsedDataFile {
+    const columns = new Set<string>();
+    rows.forEach((row, index) => {
+        if (row === null || typeof row !== 'object' || Array.isArray(row)) {
+            throw new Error(`${recordLabel} ${index + 1} is not an object`);
+        }
+        Object.keys(row).forEach(key => columns.add(key));
+    });
+    return { columns: Array.from(columns), rows };
+}
+
+/**
+ * Parse RFC 4180 CSV with a header row
+ * The delimiter (comma, semicolon or tab) is taken from the header line
+ */
+function parseCsv(text: string): ParsedDataFile {
+    const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0]);
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (quoted) {
+        throw new Error('Unterminated quoted field at end of file');
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    // Blank lines carry no record
+    const nonEmpty = records.filter(values => values.length > 1 || values[0] !== '');
+    if (nonEmpty.length === 0) {
+        return { columns: [], rows: [] };
+    }
+
+    // Blank and repeated header names get a suffix so no value is lost
+    const seen = new Set<string>();
+    const columns = nonEmpty[0].map((name, index) => {
+        const base = name.trim() || `column${index + 1}`;
+        let column = base;
+        for (let n = 2; seen.has(column); n++) {
+            column = `${base}_${n}`;
+        }
+        seen.add(column);
+        return column;
+    });
+    const rows = nonEmpty.slice(1).map(values => {
+        const row: Record<string, any> = {};
+        columns.forEach((column, index) => {
+            row[column] = values[index] ?? '';
+        });
+        return row;
+    });
+
+    return { columns, rows };
+}
+
+/**
+ * Pick the delimiter that occurs most often in the header line
+ */
+function detectDelimiter(header: string): string {
+    const candidates = [',', ';', '\t'];
+    const counts = candidates.map(candidate => header.split(candidate).length);
+    return candidates[counts.indexOf(Math.max(...counts))];
+}
@@ -0,0 +1,72 @@
+/**
+ * Helpers for mongodb:// and mongodb+srv:// connection strings
+ * Credentials are kept out of the stored connection string: the username lives in
+ * the connection config and the password in SecretStorage, and both are injected on connect.
+ */
+
+const CONNECTION_STRING_PATTERN = /^(mongodb(?:\+srv)?:\/\/)([^/?]*)(.*)$/;
+
+/**
+ * Check that a string looks like a MongoDB connection string
+ */
+export function isMongoConnectionString(value: string): boolean {
+    const match = CONNECTION_STRING_PATTERN.exec(value.trim());
+    return !!match && splitAuthority(match[2]).hosts.length > 0;
+}
+
+/**
+ * Remove the credentials from a connection string
+ */
+export function splitMongoCredentials(uri: string): { connectionString: string; username: string; password?: string } {
+    const match = CONNECTION_STRING_PATTERN.exec(uri.trim());
+    if (!match) {
+        throw new Error('Connection string must start with mongodb:// or mongodb+srv://');
+    }
+
+    const { userInfo, hosts } = splitAuthority(match[2]);
+    const separator = userInfo.indexOf(':');
+    const username = separator >= 0 ? userInfo.slice(0, separator) : userInfo;
+    const password = separator >= 0 ? userInfo.slice(separator + 1) : undefined;
+
+    return {
+        connectionString: `${match[1]}${hosts}${match[3]}`,
+        username: decodeURIComponent(username),
+        password: password !== undefined ? decodeURIComponent(password) : undefined
+    };
+}
+
+/**
+ * Insert credentials into a connection string that has none
+ * Without a username the string is returned unchanged; X.509 passes a username (the
+ * certificate subject) but no password.
+ */
+export function withMongoCredentials(connectionString: string, username: string, password?: string): string {
+    const match = CONNECTION_STRING_PATTERN.exec(connectionString.trim());
+    if (!match || !username) {
+        return connectionString;
+    }
+
+    const auth = password
+        ? `${encodeURIComponent(username)}:${encodeURIComponent(password)}@`
+        : `${encodeURIComponent(username)}@`;
+    return `${match[1]}${auth}${splitAuthority(match[2]).hosts}${match[3]}`;
+}
+
+/**
+ * Get the host list of a connection string, for display
+ */
+export function getMongoHosts(connectionString: string): string {
+    const match = CONNECTION_STRING_PATTERN.exec(connectionString.trim());
+    return match ? splitAuthority(match[2]).hosts : '';
+}
+
+/**
+ * Split "user:pass@host1,host2" into user info and hosts
+ * Reserved characters in credentials are percent-encoded, so the last @ ends the user info
+ */
+function splitAuthority(authority: string): { userInfo: string; hosts: string } {
+    const at = authority.lastIndexOf('@');
+    return at >= 0
+        ? { userInfo: authority.slice(0, at), hosts: authority.slice(at + 1) }
+        : { userInfo: '', hosts: authority };
+}
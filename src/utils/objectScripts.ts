@@ -0,0 +1,109 @@
+import { DatabaseType, RoutineParameter, SchemaObjectInfo, SchemaObjectType } from '../types';
+
+/**
+ * Turn the CREATE statement of a view, routine or trigger into a script that replaces the existing object
+ * SQL Server uses CREATE OR ALTER, PostgreSQL and MySQL views CREATE OR REPLACE;
+ * objects without an OR REPLACE form are dropped first
+ */
+export function buildAlterScript(
+    definition: string,
+    object: SchemaObjectInfo,
+    dbType: DatabaseType,
+    quoteIdentifier: (name: string) => string
+): string {
+    if (object.type === SchemaObjectType.Sequence || object.type === SchemaObjectType.Index) {
+        throw new Error(`Script as ALTER is not supported for ${object.type}s`);
+    }
+
+    const name = qualifiedName(object, quoteIdentifier);
+    const keyword = object.type.toUpperCase();
+    switch (dbType) {
+        case DatabaseType.MSSQL:
+            return definition.replace(/\bCREATE(\s+)(VIEW|PROC|PROCEDURE|FUNCTION|TRIGGER)\b/i, 'CREATE OR ALTER$1$2');
+        case DatabaseType.PostgreSQL:
+            if (object.type === SchemaObjectType.Trigger) {
+                return `DROP TRIGGER IF EXISTS ${quoteIdentifier(object.name)} ON ${qualifiedName({ ...object, name: object.table! }, quoteIdentifier)};\n\n${definition}`;
+            }
+            // pg_get_functiondef already returns CREATE OR REPLACE
+            return definition.replace(/^(\s*)CREATE\s+(VIEW)\b/i, '$1CREATE OR REPLACE $2');
+        case DatabaseType.MySQL:
+        case DatabaseType.MariaDB:
+            if (object.type === SchemaObjectType.View) {
+                return definition.replace(/^(\s*)CREATE\b/i, '$1CREATE OR REPLACE');
+            }
+            return `DROP ${keyword} IF EXISTS ${name};\n\n${definition}`;
+        default:
+            return `DROP ${keyword} IF EXISTS ${name};\n\n${definition}`;
+    }
+}
+
+/**
+ * Build the statement that calls a procedure or function with the given argument expressions
+ * values holds one SQL expression per IN/INOUT parameter, keyed by parameter name (empty means NULL);
+ * OUT parameters are read back into the result where the dialect allows it
+ */
+export function buildRoutineCall(
+    routine: SchemaObjectInfo,
+    parameters: RoutineParameter[],
+    values: Record<string, string>,
+    dbType: DatabaseType,
+    quoteIdentifier: (name: string) => string
+): string {
+    const name = qualifiedName(routine, quoteIdentifier);
+    const isFunction = routine.type === SchemaObjectType.Function;
+    const valueOf = (parameter: RoutineParameter) => values[parameter.name]?.trim() || 'NULL';
+
+    switch (dbType) {
+        case DatabaseType.MSSQL: {
+            // One batch without semicolons so the variables stay in scope
+            if (isFunction) {
+                const args = parameters.map(valueOf).join(', ');
+                return routine.returnsTable
+                    ? `SELECT * FROM ${name}(${args})`
+                    : `SELECT ${name}(${args}) AS ${quoteIdentifier('result')}`;
+            }
+            const outputs = parameters.filter(parameter => parameter.mode !== 'IN');
+            const variable = (parameter: RoutineParameter) => `@out_${parameter.name.replace(/^@/, '')}`;
+            const lines = outputs.map(parameter => `DECLARE ${variable(parameter)} ${parameter.type} = ${valueOf(parameter)}`);
+            const args = parameters.map(parameter => parameter.mode === 'IN'
+                ? `${parameter.name} = ${valueOf(parameter)}`
+                : `${parameter.name} = ${variable(parameter)} OUTPUT`);
+            lines.push(`EXEC ${name}${args.length > 0 ? ` ${args.join(', ')}` : ''}`);
+            if (outputs.length > 0) {
+                lines.push(`SELECT ${outputs.map(parameter => `${variable(parameter)} AS ${quoteIdentifier(parameter.name.replace(/^@/, ''))}`).join(', ')}`);
+            }
+            return lines.join('\n');
+        }
+        case DatabaseType.MySQL:
+        case DatabaseType.MariaDB: {
+            if (isFunction) {
+                return `SELECT ${name}(${parameters.map(valueOf).join(', ')}) AS result;`;
+            }
+            // OUT and INOUT arguments must be user variables
+            const outputs = parameters.filter(parameter => parameter.mode !== 'IN');
+            const lines = outputs
+                .filter(parameter => parameter.mode === 'INOUT')
+                .map(parameter => `SET @${parameter.name} = ${valueOf(parameter)};`);
+            const args = parameters.map(parameter => (parameter.mode === 'IN' ? valueOf(parameter) : `@${parameter.name}`));
+            lines.push(`CALL ${name}(${args.join(', ')});`);
+            if (outputs.length > 0) {
+                lines.push(`SELECT ${outputs.map(parameter => `@${parameter.name} AS ${quoteIdentifier(parameter.name)}`).join(', ')};`);
+            }
+            return lines.join('\n');
+        }
+        default: {
+            if (isFunction) {
+                // OUT parameters of a function are columns of its result, not arguments
+                const args = parameters.filter(parameter => parameter.mode !== 'OUT').map(valueOf);
+                return `SELECT * FROM ${name}(${args.join(', ')});`;
+            }
+            // Procedures return OUT parameters as a result row; NULL is passed in their place
+            const args = parameters.map(parameter => (parameter.mode === 'OUT' ? 'NULL' : valueOf(parameter)));
+            return `CALL ${name}(${args.join(', ')});`;
+        }
+    }
+}
+
+function qualifiedName(object: SchemaObjectInfo, quoteIdentifier: (name: string) => string): string {
+    return object.schema ? `${quoteIdentifier(object.schema)}.${quoteIdentifier(object.name)}` : quoteIdentifier(object.name);
+}
@@ -0,0 +1,417 @@
+import { ColumnInfo, DatabaseType } from '../types';
+import { columnTypesMatch, isSameDialect, mapColumnType } from './columnTypes';
+
+/**
+ * A table with its columns, as read through getTables/getColumns
+ */
+export interface TableSchema {
+    name: string;
+    schema?: string;
+    columns: ColumnInfo[];
+}
+
+/**
+ * Column properties compared between source and target
+ */
+export type ColumnDifference = 'type' | 'nullable' | 'default' | 'primaryKey' | 'foreignKey';
+
+/**
+ * Status of a table or column in the target, relative to the source
+ * added: only in the source (the migration adds it); removed: only in the target (the migration drops it)
+ */
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+export interface ColumnDiff {
+    name: string;
+    status: DiffStatus;
+    source?: ColumnInfo;
+    target?: ColumnInfo;
+    differences: ColumnDifference[];
+}
+
+export interface TableDiff {
+    name: string;
+    status: DiffStatus;
+    source?: TableSchema;
+    target?: TableSchema;
+    columns: ColumnDiff[];
+    primaryKeyChanged: boolean;
+}
+
+export interface SchemaDiff {
+    sourceType: DatabaseType;
+    targetType: DatabaseType;
+    tables: TableDiff[];
+    unchangedTables: string[];
+}
+
+/**
+ * Compare the tables of a source schema with those of a target schema
+ * Tables and columns are matched by name, ignoring case; the schema name is part of the match within one dialect
+ */
+export function compareSchemas(
+    source: TableSchema[],
+    target: TableSchema[],
+    sourceType: DatabaseType,
+    targetType: DatabaseType
+): SchemaDiff {
+    const sameDialect = isSameDialect(sourceType, targetType);
+    const tableKey = (table: TableSchema) => `${sameDialect && table.schema ? `${table.schema}.` : ''}${table.name}`.toLowerCase();
+    const targetTables = new Map(target.map(table => [tableKey(table), table]));
+    const diff: SchemaDiff = { sourceType, targetType, tables: [], unchangedTables: [] };
+
+    for (const sourceTable of source) {
+        const targetTable = targetTables.get(tableKey(sourceTable));
+        if (!targetTable) {
+            diff.tables.push({
+                name: sourceTable.name,
+                status: 'added',
+                source: sourceTable,
+                columns: sourceTable.columns.map(column => ({ name: column.name, status: 'added', source: column, differences: [] })),
+                primaryKeyChanged: false
+            });
+            continue;
+        }
+        targetTables.delete(tableKey(sourceTable));
+
+        const columns = compareColumns(sourceTable.columns, targetTable.columns, sourceType, targetType);
+        const primaryKeyChanged = primaryKeyOf(sourceTable) !== primaryKeyOf(targetTable);
+        if (columns.length > 0 || primaryKeyChanged) {
+            diff.tables.push({ name: targetTable.name, status: 'changed', source: sourceTable, target: targetTable, columns, primaryKeyChanged });
+        } else {
+            diff.unchangedTables.push(targetTable.name);
+        }
+    }
+
+    for (const targetTable of targetTables.values()) {
+        diff.tables.push({
+            name: targetTable.name,
+            status: 'removed',
+            target: targetTable,
+            columns: targetTable.columns.map(column => ({ name: column.name, status: 'removed', target: column, differences: [] })),
+            primaryKeyChanged: false
+        });
+    }
+
+    return diff;
+}
+
+/**
+ * Columns that were added, removed or changed; unchanged columns are left out
+ */
+function compareColumns(
+    source: ColumnInfo[],
+    target: ColumnInfo[],
+    sourceType: DatabaseType,
+    targetType: DatabaseType
+): ColumnDiff[] {
+    const diffs: ColumnDiff[] = [];
+    const targetColumns = new Map(target.map(column => [column.name.toLowerCase(), column]));
+
+    for (const sourceColumn of source) {
+        const targetColumn = targetColumns.get(sourceColumn.name.toLowerCase());
+        if (!targetColumn) {
+            diffs.push({ name: sourceColumn.name, status: 'added', source: sourceColumn, differences: [] });
+            continue;
+        }
+        targetColumns.delete(sourceColumn.name.toLowerCase());
+
+        const differences: ColumnDifference[] = [];
+        if (!columnTypesMatch(sourceColumn.type, sourceType, targetColumn.type, targetType)) {
+            differences.push('type');
+        }
+        if (sourceColumn.nullable !== targetColumn.nullable) {
+            differences.push('nullable');
+        }
+        if (normalizeDefault(sourceColumn, sourceType, targetType) !== normalizeDefault(targetColumn, targetType, targetType)) {
+            differences.push('default');
+        }
+        if (sourceColumn.isPrimaryKey !== targetColumn.isPrimaryKey) {
+            differences.push('primaryKey');
+        }
+        if (sourceColumn.isForeignKey !== targetColumn.isForeignKey) {
+            differences.push('foreignKey');
+        }
+        if (differences.length > 0) {
+            diffs.push({ name: targetColumn.name, status: 'changed', source: sourceColumn, target: targetColumn, differences });
+        }
+    }
+
+    for (const targetColumn of targetColumns.values()) {
+        diffs.push({ name: targetColumn.name, status: 'removed', target: targetColumn, differences: [] });
+    }
+
+    return diffs;
+}
+
+function primaryKeyOf(table: TableSchema): string {
+    return table.columns.filter(column => column.isPrimaryKey).map(column => column.name.toLowerCase()).join(',');
+}
+
+/**
+ * Bring a column default, as reported by one dialect, to a comparable expression for another
+ * Returns undefined for no default, and for sequence defaults that do not carry over to another dialect
+ */
+export function normalizeDefault(column: ColumnInfo, from: DatabaseType, to: DatabaseType): string | undefined {
+    const value = column.defaultValue;
+    if (value === null || value === undefined) {
+        return undefined;
+    }
+
+    let text = String(value).trim();
+    // SQL Server wraps defaults in parentheses: ((0)), ('abc')
+    while (isWrapped(text)) {
+        text = text.slice(1, -1).trim();
+    }
+    // PostgreSQL adds casts: 'abc'::character varying, '{}'::text[]
+    text = text.replace(/(::[a-z_][\w ]*(\[\])?)+$/i, '');
+    // SQL Server marks unicode literals
+    text = text.replace(/^N'/, '\'');
+
+    if (/^null$/i.test(text) || text === '') {
+        return undefined;
+    }
+    if (/^nextval\(/i.test(text) && !isSameDialect(from, to)) {
+        return undefined;
+    }
+    // Booleans are TRUE/FALSE in PostgreSQL and 1/0 elsewhere
+    if (/^(bool|boolean|bit|tinyint\(1\))$/i.test(column.type) && /^(true|false|'?[01]'?|b'[01]')$/i.test(text)) {
+        const isTrue = /^(true|'?1'?|b'1')$/i.test(text);
+        return to === DatabaseType.PostgreSQL ? (isTrue ? 'TRUE' : 'FALSE') : (isTrue ? '1' : '0');
+    }
+    // Current time functions are spelled differently by each dialect
+    if (/^(now\(\)|getdate\(\)|sysdatetime\(\)|current_timestamp(\(\))?|localtimestamp|datetime\('now'\))$/i.test(text)) {
+        return 'CURRENT_TIMESTAMP';
+    }
+    // MySQL reports string defaults without quotes
+    if (from === DatabaseType.MySQL && !/^b?'.*'$/is.test(text) && !/^-?\d+(\.\d+)?$/.test(text) && !text.includes('(')) {
+        return `'${text.replace(/'/g, '\'\'')}'`;
+    }
+    return text;
+}
+
+/**
+ * Whether an expression is enclosed in one pair of parentheses, e.g. (0) but not (a) + (b)
+ */
+function isWrapped(text: string): boolean {
+    if (!text.startsWith('(') || !text.endsWith(')')) {
+        return false;
+    }
+    let depth = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '(') {
+            depth++;
+        } else if (text[i] === ')') {
+            depth--;
+            if (depth === 0 && i < text.length - 1) {
+                return false;
+            }
+        }
+    }
+    return depth === 0;
+}
+
+/**
+ * Build the DDL that brings the target schema in line with the source, in the target's dialect
+ * Tables are created first and dropped last; changes that cannot be scripted are left as comments
+ */
+export function buildMigrationScript(diff: SchemaDiff, quoteIdentifier: (name: string) => string): string {
+    const builder = new MigrationBuilder(diff, quoteIdentifier);
+    const sections: string[] = [];
+
+    for (const table of diff.tables.filter(t => t.status === 'added')) {
+        sections.push(`-- Create ${table.name}\n${builder.createTable(table.source!, builder.qualify(table.source!, false))};`);
+    }
+    for (const table of diff.tables.filter(t => t.status === 'changed')) {
+        sections.push(`-- Alter ${table.name}\n${builder.alterTable(table).join('\n')}`);
+    }
+    for (const table of diff.tables.filter(t => t.status === 'removed')) {
+        sections.push(`-- Drop ${table.name} (not in the source)\nDROP TABLE ${builder.qualify(table.target!, true)};`);
+    }
+
+    return sections.length > 0 ? `${sections.join('\n\n')}\n` : '-- The schemas are identical\n';
+}
+
+/**
+ * Writes the statements of a migration script for one target dialect
+ */
+class MigrationBuilder {
+    private readonly dbType: DatabaseType;
+    private variableCount = 0;
+
+    constructor(private diff: SchemaDiff, private quote: (name: string) => string) {
+        this.dbType = diff.targetType;
+    }
+
+    /**
+     * Table name in the target; tables created from another dialect go to the target's default schema
+     */
+    public qualify(table: TableSchema, inTarget: boolean): string {
+        const hasSchemas = this.dbType === DatabaseType.PostgreSQL || this.dbType === DatabaseType.MSSQL;
+        const schema = hasSchemas && (inTarget || isSameDialect(this.diff.sourceType, this.dbType)) ? table.schema : undefined;
+        return [schema, table.name].filter((part): part is string => Boolean(part)).map(part => this.quote(part)).join('.');
+    }
+
+    public createTable(table: TableSchema, name: string): string {
+        const definitions = table.columns.map(column => `    ${this.columnDefinition(column)}`);
+        const primaryKeys = table.columns.filter(column => column.isPrimaryKey);
+        if (primaryKeys.length > 0) {
+            definitions.push(`    PRIMARY KEY (${primaryKeys.map(column => this.quote(column.name)).join(', ')})`);
+        }
+        return `CREATE TABLE ${name} (\n${definitions.join(',\n')}\n)`;
+    }
+
+    public alterTable(table: TableDiff): string[] {
+        const source = table.source!;
+        const target = table.target!;
+        const name = this.qualify(target, true);
+        const added = table.columns.filter(column => column.status === 'added');
+        const removed = table.columns.filter(column => column.status === 'removed');
+        const changed = table.columns.filter(column => column.status === 'changed');
+        const statements: string[] = [];
+
+        // Foreign keys are only known as a flag per column, so their definition cannot be scripted
+        for (const column of changed.filter(c => c.differences.includes('foreignKey'))) {
+            statements.push(`-- ${column.name}: foreign key ${column.source!.isForeignKey ? 'missing in' : 'only in'} the target; review manually`);
+        }
+
+        if (this.dbType === DatabaseType.SQLite) {
+            // SQLite cannot alter columns or keys, so the table is rebuilt from the source definition
+            const needsRebuild = table.primaryKeyChanged
+                || changed.some(c => c.differences.some(d => d !== 'foreignKey'))
+                || added.some(c => !c.source!.nullable && normalizeDefault(c.source!, this.diff.sourceType, this.dbType) === undefined);
+            if (needsRebuild) {
+                return statements.concat(this.rebuildSqliteTable(source, target, name));
+            }
+        }
+
+        const hasPrimaryKey = target.columns.some(column => column.isPrimaryKey);
+        if (table.primaryKeyChanged && hasPrimaryKey) {
+            statements.push(...this.dropPrimaryKey(target, name));
+        }
+        for (const column of removed) {
+            if (this.dbType === DatabaseType.MSSQL && column.target!.defaultValue) {
+                statements.push(...this.dropMssqlDefault(name, column.name));
+            }
+            statements.push(`ALTER TABLE ${name} DROP COLUMN ${this.quote(column.name)};`);
+        }
+        for (const column of added) {
+            const keyword = this.dbType === DatabaseType.MSSQL ? 'ADD' : 'ADD COLUMN';
+            statements.push(`ALTER TABLE ${name} ${keyword} ${this.columnDefinition(column.source!)};`);
+        }
+        for (const column of changed.filter(c => c.differences.some(d => d === 'type' || d === 'nullable' || d === 'default'))) {
+            statements.push(...this.alterColumn(name, column));
+        }
+        if (table.primaryKeyChanged && source.columns.some(column => column.isPrimaryKey)) {
+            const keys = source.columns.filter(column => column.isPrimaryKey).map(column => this.quote(column.name));
+            statements.push(`ALTER TABLE ${name} ADD PRIMARY KEY (${keys.join(', ')});`);
+        }
+
+        return statements;
+    }
+
+    /**
+     * Change the type, nullability and default of an existing column
+     */
+    private alterColumn(table: string, column: ColumnDiff): string[] {
+        const source = column.source!;
+        const target = column.target!;
+        const name = this.quote(column.name);
+        const type = this.columnType(source);
+        const defaultValue = normalizeDefault(source, this.diff.sourceType, this.dbType);
+
+        switch (this.dbType) {
+            case DatabaseType.PostgreSQL: {
+                const statements: string[] = [];
+                if (column.differences.includes('type')) {
+                    statements.push(`ALTER TABLE ${table} ALTER COLUMN ${name} TYPE ${type} USING ${name}::${type};`);
+                }
+                if (column.differences.includes('nullable')) {
+                    statements.push(`ALTER TABLE ${table} ALTER COLUMN ${name} ${source.nullable ? 'DROP' : 'SET'} NOT NULL;`);
+                }
+                if (column.differences.includes('default')) {
+                    statements.push(defaultValue !== undefined
+                        ? `ALTER TABLE ${table} ALTER COLUMN ${name} SET DEFAULT ${defaultValue};`
+                        : `ALTER TABLE ${table} ALTER COLUMN ${name} DROP DEFAULT;`);
+                }
+                return statements;
+            }
+            case DatabaseType.MSSQL: {
+                const statements: string[] = [];
+                if (column.differences.includes('type') || column.differences.includes('nullable')) {
+                    statements.push(`ALTER TABLE ${table} ALTER COLUMN ${name} ${type} ${source.nullable ? 'NULL' : 'NOT NULL'};`);
+                }
+                if (column.differences.includes('default')) {
+                    if (target.defaultValue) {
+                        statements.push(...this.dropMssqlDefault(table, column.name));
+                    }
+                    if (defaultValue !== undefined) {
+                        statements.push(`ALTER TABLE ${table} ADD DEFAULT ${defaultValue} FOR ${name};`);
+                    }
+                }
+                return statements;
+            }
+            default:
+                // MySQL and MariaDB redefine the whole column
+                return [`ALTER TABLE ${table} MODIFY COLUMN ${this.columnDefinition(source)};`];
+        }
+    }
+
+    private dropPrimaryKey(target: TableSchema, name: string): string[] {
+        switch (this.dbType) {
+            case DatabaseType.PostgreSQL:
+                // The constraint name is not known; this is PostgreSQL's default
+                return [`ALTER TABLE ${name} DROP CONSTRAINT IF EXISTS ${this.quote(`${target.name}_pkey`)};`];
+            case DatabaseType.MSSQL: {
+                const variable = `@constraint${++this.variableCount}`;
+                const objectName = `N'${name.replace(/'/g, '\'\'')}'`;
+                return [
+                    `DECLARE ${variable} sysname = (SELECT name FROM sys.key_constraints WHERE parent_object_id = OBJECT_ID(${objectName}) AND type = 'PK');`,
+                    `IF ${variable} IS NOT NULL EXEC(N'ALTER TABLE ${name.replace(/'/g, '\'\'')} DROP CONSTRAINT ' + QUOTENAME(${variable}));`
+                ];
+            }
+            default:
+                return [`ALTER TABLE ${name} DROP PRIMARY KEY;`];
+        }
+    }
+
+    /**
+     * SQL Server defaults are named constraints that must be dropped before the column or default changes
+     */
+    private dropMssqlDefault(table: string, column: string): string[] {
+        const variable = `@constraint${++this.variableCount}`;
+        const objectName = `N'${table.replace(/'/g, '\'\'')}'`;
+        return [
+            `DECLARE ${variable} sysname = (SELECT name FROM sys.default_constraints WHERE parent_object_id = OBJECT_ID(${objectName}) AND parent_column_id = COLUMNPROPERTY(OBJECT_ID(${objectName}), N'${column.replace(/'/g, '\'\'')}', 'ColumnId'));`,
+            `IF ${variable} IS NOT NULL EXEC(N'ALTER TABLE ${table.replace(/'/g, '\'\'')} DROP CONSTRAINT ' + QUOTENAME(${variable}));`
+        ];
+    }
+
+    /**
+     * Recreate a SQLite table with the source definition, keeping the rows of the columns both versions share
+     */
+    private rebuildSqliteTable(source: TableSchema, target: TableSchema, name: string): string[] {
+        const temporary = this.quote(`${target.name}__migrate`);
+        const shared = source.columns
+            .filter(column => target.columns.some(c => c.name.toLowerCase() === column.name.toLowerCase()))
+            .map(column => this.quote(column.name))
+            .join(', ');
+        const statements = [`${this.createTable(source, temporary)};`];
+        if (shared) {
+            statements.push(`INSERT INTO ${temporary} (${shared}) SELECT ${shared} FROM ${name};`);
+        }
+        statements.push(`DROP TABLE ${name};`, `ALTER TABLE ${temporary} RENAME TO ${this.quote(target.name)};`);
+        return statements;
+    }
+
+    private columnDefinition(column: ColumnInfo): string {
+        const defaultValue = normalizeDefault(column, this.diff.sourceType, this.dbType);
+        return `${this.quote(column.name)} ${this.columnType(column)}`
+            + (column.nullable ? '' : ' NOT NULL')
+            + (defaultValue !== undefined ? ` DEFAULT ${defaultValue}` : '');
+    }
+
+    private columnType(column: ColumnInfo): string {
+        return mapColumnType(column.type, this.diff.sourceType, this.dbType);
+    }
+}
@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { Client, ConnectConfig } from 'ssh2';
+import { SSHTunnelConfig } from '../types';
+import { Logger } from './logger';
+
+/**
+ * Local port forward through an SSH bastion host
+ *
+ * Opens a TCP server on 127.0.0.1 and pipes every accepted socket through
+ * an SSH channel to the remote database host, so providers can connect to
+ * the local end as if the database were running locally.
+ */
+export class SSHTunnel {
+    private client: Client | null = null;
+    private server: net.Server | null = null;
+    private sockets: Set<net.Socket> = new Set();
+    private localPort = 0;
+
+    constructor(
+        private readonly config: SSHTunnelConfig,
+        private readonly remoteHost: string,
+        private readonly remotePort: number,
+        private readonly readyTimeout: number = 30000
+    ) {}
+
+    /**
+     * Open the SSH session and start listening locally
+     * @param secret Passphrase for the private key, or the SSH password when no key/agent is used
+     * @returns The local port that forwards to the remote host
+     */
+    public async open(secret?: string): Promise<number> {
+        if (this.server) {
+            return this.localPort;
+        }
+
+        try {
+            this.client = await this.connectClient(secret);
+            this.server = await this.listen();
+            Logger.info(`SSH tunnel open: 127.0.0.1:${this.localPort} -> ${this.config.host} -> ${this.remoteHost}:${this.remotePort}`);
+            return this.localPort;
+        } catch (error) {
+            await this.close();
+            throw error;
+        }
+    }
+
+    /**
+     * Close the local listener, active sockets and the SSH session
+     */
+    public async close(): Promise<void> {
+        for (const socket of this.sockets) {
+            socket.destroy();
+        }
+        this.sockets.clear();
+
+        if (this.server) {
+            const server = this.server;
+            this.server = null;
+            await new Promise<void>(resolve => server.close(() => resolve()));
+        }
+
+        if (this.client) {
+            this.client.end();
+            this.client = null;
+            Logger.info(`SSH tunnel closed: ${this.config.host}`);
+        }
+
+        this.localPort = 0;
+    }
+
+    /**
+     * Check if the tunnel is accepting connections
+     */
+    public isOpen(): boolean {
+        return this.server !== null && this.client !== null;
+    }
+
+    /**
+     * Get the local port of the forward (0 when closed)
+     */
+    public getLocalPort(): number {
+        return this.localPort;
+    }
+
+    /**
+     * Establish the SSH session
+     */
+    private async connectClient(secret?: string): Promise<Client> {
+        const connectConfig = await this.buildConnectConfig(secret);
+
+        return new Promise((resolve, reject) => {
+            const client = new Client();
+
+            client
+                .once('ready', () => {
+                    client.removeAllListeners('error');
+                    client.on('error', error => Logger.error('SSH tunnel error', error));
+                    resolve(client);
+                })
+                .once('error', error => {
+                    reject(new Error(`SSH connection to ${this.config.host}:${this.config.port} failed: ${error.message}`));
+                })
+                .on('close', () => {
+                    if (this.client === client) {
+                        Logger.warn(`SSH session to ${this.config.host} closed`);
+                    }
+                });
+
+            client.connect(connectConfig);
+        });
+    }
+
+    /**
+     * Start the local TCP server that feeds the SSH channel
+     */
+    private listen(): Promise<net.Server> {
+        return new Promise((resolve, reject) => {
+            const server = net.createServer(socket => this.forward(socket));
+
+            server.once('error', reject);
+            server.listen(this.config.localPort || 0, '127.0.0.1', () => {
+                server.removeListener('error', reject);
+                server.on('error', error => Logger.error('SSH tunnel listener error', error));
+                this.localPort = (server.address() as net.AddressInfo).port;
+                resolve(server);
+            });
+        });
+    }
+
+    /**
+     * Pipe a local socket through a new SSH channel
+     */
+    private forward(socket: net.Socket): void {
+        if (!this.client) {
+            socket.destroy();
+            return;
+        }
+
+        this.sockets.add(socket);
+        socket.once('close', () => this.sockets.delete(socket));
+
+        this.client.forwardOut(
+            socket.remoteAddress || '127.0.0.1',
+            socket.remotePort || 0,
+            this.remoteHost,
+            this.remotePort,
+            (error, channel) => {
+                if (error) {
+                    Logger.error(`SSH forward to ${this.remoteHost}:${this.remotePort} failed`, error);
+                    socket.destroy();
+                    return;
+                }
+
+                socket.pipe(channel).pipe(socket);
+                channel.once('close', () => socket.destroy());
+                socket.once('error', () => channel.close());
+            }
+        );
+    }
+
+    /**
+     * Build ssh2 connection options from the tunnel configuration
+     */
+    private async buildConnectConfig(secret?: string): Promise<ConnectConfig> {
+        const connectConfig: ConnectConfig = {
+            host: this.config.host,
+            port: this.config.port || 22,
+            username: this.config.username,
+            readyTimeout: this.readyTimeout,
+            keepaliveInterval: 10000
+        };
+
+        if (this.config.privateKeyPath) {
+            connectConfig.privateKey = await fs.promises.readFile(this.expandHome(this.config.privateKeyPath));
+            if (secret) {
+                connectConfig.passphrase = secret;
+            }
+        } else if (secret && !this.config.useAgent) {
+            connectConfig.password = secret;
+        }
+
+        if (this.config.useAgent) {
+            connectConfig.agent = process.platform === 'win32' ? 'pageant' : process.env.SSH_AUTH_SOCK;
+            if (!connectConfig.agent) {
+                throw new Error('SSH agent requested but SSH_AUTH_SOCK is not set');
+            }
+        }
+
+        return connectConfig;
+    }
+
+    /**
+     * Expand a leading ~ to the home directory (e.g. ~/.ssh/id_rsa)
+     */
+    private expandHome(filePath: string): string {
+        if (filePath === '~') {
+            return os.homedir();
+        }
+        if (filePath.startsWith('~/') || filePath.startsWith('~\\')) {
+            return path.join(os.homedir(), filePath.substring(2));
+        }
+        return filePath;
+    }
+}
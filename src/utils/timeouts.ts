@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { ConnectionConfig } from '../types';
+import { Logger } from './logger';
+
+/**
+ * Error thrown when a statement runs longer than the query timeout
+ */
+export class QueryTimeoutError extends Error {
+    constructor(public readonly timeoutMs: number) {
+        super(`Query timed out after ${timeoutMs} ms`);
+        this.name = 'QueryTimeoutError';
+    }
+}
+
+/**
+ * Get the connection timeout for a connection
+ * The per-connection override wins over the dbConnector.connectionTimeout setting
+ */
+export function getConnectionTimeout(config?: ConnectionConfig): number {
+    if (config?.connectionTimeout !== undefined) {
+        return config.connectionTimeout;
+    }
+    return vscode.workspace.getConfiguration('dbConnector').get<number>('connectionTimeout', 30000);
+}
+
+/**
+ * Get the query timeout for a connection (0 disables the timeout)
+ * The per-connection override wins over the dbConnector.queryTimeout setting
+ */
+export function getQueryTimeout(config?: ConnectionConfig): number {
+    if (config?.queryTimeout !== undefined) {
+        return config.queryTimeout;
+    }
+    return vscode.workspace.getConfiguration('dbConnector').get<number>('queryTimeout', 60000);
+}
+
+/**
+ * How long a timed out statement is given to stop after the cancel was sent
+ */
+const CANCEL_GRACE_MS = 5000;
+
+/**
+ * Race a statement against the query timeout
+ * On expiry the statement is cancelled on the server and QueryTimeoutError is
+ * thrown once the statement has stopped (or CANCEL_GRACE_MS passed), so the
+ * provider does not release its connection while the server is still running it.
+ */
+export async function withQueryTimeout<T>(
+    work: Promise<T>,
+    timeoutMs: number,
+    cancel: () => Promise<void>
+): Promise<T> {
+    if (timeoutMs <= 0) {
+        return work;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        let timedOut = false;
+        const timer = setTimeout(async () => {
+            // From here on the statement's own outcome (usually a "cancelled" error) is ignored
+            timedOut = true;
+            try {
+                await cancel();
+            } catch (error) {
+                Logger.error('Failed to cancel timed out query', error as Error);
+            }
+
+            let graceTimer: NodeJS.Timeout | undefined;
+            const grace = new Promise<void>(resolveGrace => {
+                graceTimer = setTimeout(() => {
+                    Logger.warn(`Timed out query did not stop within ${CANCEL_GRACE_MS} ms of the cancel`);
+                    resolveGrace();
+                }, CANCEL_GRACE_MS);
+            });
+            await Promise.race([work.then(() => undefined, () => undefined), grace]);
+            clearTimeout(graceTimer);
+            reject(new QueryTimeoutError(timeoutMs));
+        }, timeoutMs);
+
+        work.then(
+            value => {
+                if (!timedOut) {
+                    clearTimeout(timer);
+                    resolve(value);
+                }
+            },
+            error => {
+                if (!timedOut) {
+                    clearTimeout(timer);
+                    reject(error);
+                }
+            }
+        );
+    });
+}
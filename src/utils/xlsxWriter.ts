@@ -0,0 +1,281 @@
+import * as zlib from 'zlib';
+import { escapeXml } from './xml';
+
+/**
+ * A worksheet to write: a header row of column names followed by one row per record
+ */
+export interface XlsxSheet {
+    name: string;
+    columns: string[];
+    rows: Record<string, any>[];
+}
+
+// Style indexes in styles.xml (cellXfs)
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
+
+// Excel serial dates count days from 1899-12-30
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 86400000;
+
+/**
+ * Build an .xlsx workbook (Office Open XML) with one worksheet per sheet
+ * Numbers, booleans and dates are written as typed cells; everything else as text.
+ */
+export function buildXlsx(sheets: XlsxSheet[]): Buffer {
+    const names = uniqueSheetNames(sheets.map(sheet => sheet.name));
+
+    const files: { path: string; content: string }[] = [
+        { path: '[Content_Types].xml', content: contentTypesXml(sheets.length) },
+        { path: '_rels/.rels', content: rootRelsXml() },
+        { path: 'xl/workbook.xml', content: workbookXml(names) },
+        { path: 'xl/_rels/workbook.xml.rels', content: workbookRelsXml(sheets.length) },
+        { path: 'xl/styles.xml', content: stylesXml() },
+        ...sheets.map((sheet, index) => ({
+            path: `xl/worksheets/sheet${index + 1}.xml`,
+            content: worksheetXml(sheet)
+        }))
+    ];
+
+    return zip(files.map(file => ({ path: file.path, data: Buffer.from(file.content, 'utf8') })));
+}
+
+/**
+ * Make sheet names valid (no []:*?/\, at most 31 characters) and unique
+ */
+function uniqueSheetNames(names: string[]): string[] {
+    const used = new Set<string>();
+    return names.map((name, index) => {
+        const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().substring(0, 31) || `Sheet${index + 1}`;
+        let candidate = base;
+        for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+            const suffix = ` (${n})`;
+            candidate = base.substring(0, 31 - suffix.length) + suffix;
+        }
+        used.add(candidate.toLowerCase());
+        return candidate;
+    });
+}
+
+function worksheetXml(sheet: XlsxSheet): string {
+    const widths = sheet.columns.map(column => column.length);
+    const rows: string[] = [];
+
+    rows.push(`<row r="1">${sheet.columns.map((column, col) =>
+        `<c r="${cellRef(col, 1)}" s="${STYLE_HEADER}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(column)}</t></is></c>`
+    ).join('')}</row>`);
+
+    sheet.rows.forEach((record, index) => {
+        const rowNumber = index + 2;
+        const cells = sheet.columns.map((column, col) => {
+            const cell = toCell(record[column]);
+            if (!cell) {
+                return '';
+            }
+            widths[col] = Math.max(widths[col], cell.width);
+            return `<c r="${cellRef(col, rowNumber)}"${cell.attributes}>${cell.content}</c>`;
+        });
+        rows.push(`<row r="${rowNumber}">${cells.join('')}</row>`);
+    });
+
+    const cols = widths.map((width, col) => {
+        const size = Math.min(Math.max(width + 2, MIN_COLUMN_WIDTH), MAX_COLUMN_WIDTH);
+        return `<col min="${col + 1}" max="${col + 1}" width="${size}" customWidth="1"/>`;
+    }).join('');
+
+    return xmlHeader() +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        // Keep the header row visible while scrolling
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+        (cols ? `<cols>${cols}</cols>` : '') +
+        `<sheetData>${rows.join('')}</sheetData>` +
+        '</worksheet>';
+}
+
+/**
+ * Convert a value to a typed cell; null and undefined leave the cell empty
+ * `width` is the approximate display width in characters, used for auto-width
+ */
+function toCell(value: any): { attributes: string; content: string; width: number } | undefined {
+    if (value === null || value === undefined) {
+        return undefined;
+    }
+
+    if (typeof value === 'number' && isFinite(value)) {
+        return { attributes: '', content: `<v>${value}</v>`, width: String(value).length };
+    }
+    if (typeof value === 'bigint' && value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)) {
+        return { attributes: '', content: `<v>${value}</v>`, width: String(value).length };
+    }
+    if (typeof value === 'boolean') {
+        return { attributes: ' t="b"', content: `<v>${value ? 1 : 0}</v>`, width: 5 };
+    }
+    if (value instanceof Date && !isNaN(value.getTime())) {
+        // Excel dates have no time zone; write the local wall-clock time shown in the grid
+        const local = value.getTime() - value.getTimezoneOffset() * 60000;
+        return { attributes: ` s="${STYLE_DATE}"`, content: `<v>${(local - EXCEL_EPOCH) / MS_PER_DAY}</v>`, width: 19 };
+    }
+
+    let text: string;
+    if (Buffer.isBuffer(value)) {
+        text = `0x${value.toString('hex')}`;
+    } else if (typeof value === 'object') {
+        text = JSON.stringify(value);
+    } else {
+        text = String(value);
+    }
+    // Excel rejects cells longer than 32767 characters
+    text = text.substring(0, 32767);
+    const width = Math.max(...text.split('\n').map(line => line.length));
+    return { attributes: ' t="inlineStr"', content: `<is><t xml:space="preserve">${escapeXml(text)}</t></is>`, width };
+}
+
+/**
+ * A1-style reference for a zero-based column and one-based row
+ */
+function cellRef(col: number, row: number): string {
+    let letters = '';
+    for (let n = col + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+    }
+    return `${letters}${row}`;
+}
+
+function xmlHeader(): string {
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+}
+
+function contentTypesXml(sheetCount: number): string {
+    const sheets = Array.from({ length: sheetCount }, (_value, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('');
+    return xmlHeader() +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets +
+        '</Types>';
+}
+
+function rootRelsXml(): string {
+    return xmlHeader() +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>';
+}
+
+function workbookXml(names: string[]): string {
+    const sheets = names.map((name, index) =>
+        `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+    ).join('');
+    return xmlHeader() +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets>${sheets}</sheets>` +
+        '</workbook>';
+}
+
+function workbookRelsXml(sheetCount: number): string {
+    const sheets = Array.from({ length: sheetCount }, (_value, index) =>
+        `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    ).join('');
+    return xmlHeader() +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets +
+        `<Relationship Id="rId${sheetCount + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>';
+}
+
+function stylesXml(): string {
+    return xmlHeader() +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>' +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="3">' +
+        '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+        '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+        '</cellXfs>' +
+        '</styleSheet>';
+}
+
+/**
+ * Write a deflate-compressed ZIP archive
+ */
+function zip(entries: { path: string; data: Buffer }[]): Buffer {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.path, 'utf8');
+        const compressed = zlib.deflateRawSync(entry.data);
+        const crc = crc32(entry.data);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);              // version needed
+        local.writeUInt16LE(0x0800, 6);          // UTF-8 names
+        local.writeUInt16LE(8, 8);               // deflate
+        local.writeUInt32LE(0, 10);              // mod time/date
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(entry.data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4);            // version made by
+        central.writeUInt16LE(20, 6);            // version needed
+        central.writeUInt16LE(0x0800, 8);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt32LE(0, 12);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(entry.data.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);       // local header offset
+
+        localParts.push(local, name, compressed);
+        centralParts.push(central, name);
+        offset += local.length + name.length + compressed.length;
+    }
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralSize, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, ...centralParts, end]);
+}
+
+let crcTable: number[] | undefined;
+
+function crc32(data: Buffer): number {
+    if (!crcTable) {
+        crcTable = Array.from({ length: 256 }, (_value, n) => {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            return c >>> 0;
+        });
+    }
+
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
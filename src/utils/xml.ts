@@ -0,0 +1,23 @@
+const XML_ENTITIES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;'
+};
+
+/**
+ * Escape text for an XML element or attribute value
+ * Control characters other than tab, line feed and carriage return are not allowed in XML 1.0 and are dropped.
+ */
+export function escapeXml(text: string): string {
+    let escaped = '';
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        const code = text.charCodeAt(i);
+        if (code < 0x20 && code !== 0x09 && code !== 0x0A && code !== 0x0D) {
+            continue;
+        }
+        escaped += XML_ENTITIES[char] ?? char;
+    }
+    return escaped;
+}
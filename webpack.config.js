@@ -24,7 +24,10 @@ const config = {
     'snappy': 'commonjs snappy',
     'socks': 'commonjs socks',
     'aws4': 'commonjs aws4',
-    'mongodb-client-encryption': 'commonjs mongodb-client-encryption'
+    'mongodb-client-encryption': 'commonjs mongodb-client-encryption',
+    'cpu-features': 'commonjs cpu-features',
+    // Native binding, loaded from node_modules at runtime
+    'sqlite3': 'commonjs sqlite3'
   },
   resolve: {
     extensions: ['.ts', '.js']
@@ -52,6 +55,9 @@ const config = {
     },
     {
       module: /node_modules\/pg/,
+    },
+    {
+      module: /node_modules\/ssh2/,
     }
   ]
 };